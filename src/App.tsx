@@ -1,103 +1,436 @@
-import React, { useState } from 'react';
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { ResultsTable } from './components/ResultsTable';
 import { ComparisonView } from './components/ComparisonView';
+import { BaselineDiffView } from './components/BaselineDiffView';
+import { SarifFileList, type LoadedSarif } from './components/SarifFileList';
+import { SourceFolderPicker } from './components/SourceFolderPicker';
+import { SeverityMappingEditor } from './components/SeverityMappingEditor';
+import { FilterBar } from './components/FilterBar';
+import { SaveScansPanel } from './components/SaveScansPanel';
+import { TrendDashboard } from './components/TrendDashboard';
+import { TriagePanel } from './components/TriagePanel';
+import { PathRulesEditor } from './components/PathRulesEditor';
+import { DirectoryHeatmap } from './components/DirectoryHeatmap';
+import { SaveSessionButton } from './components/SaveSessionButton';
+import { RuleCatalogView } from './components/RuleCatalogView';
+import { RuleDetailsDrawer } from './components/RuleDetailsDrawer';
+import { RuleDetailsContext, type RuleDetailsTarget } from './components/ruleDetailsContext';
 import { FileSearch } from 'lucide-react';
-import type { SarifLog, Result } from './types/sarif';
+import type { SarifLog } from './types/sarif';
+import { countResults, filterInputs, type ResultFilter } from './lib/filters';
+import type { RunIndex } from './lib/indexing';
+import type { RuleMapping } from './lib/ruleMapping';
+import { getFilePathRules, normalizeLogPaths, type PathRulesByFile } from './lib/paths';
+import { getComparisonInputs, hasMultipleRuns, type RunMode } from './lib/runs';
+import type { SeverityMappings } from './lib/severity';
+import {
+  excludeSuppressed,
+  mergeTriageDecisions,
+  pickInputDecisions,
+  type TriageDecision,
+  type TriageDecisions,
+} from './lib/triage';
+import { readFilterFromUrl, writeFilterToUrl } from './utils/filterUrl';
+import type { SourceFolder } from './utils/sourceFolder';
+import { loadTriageDecisions, saveTriageDecisions } from './utils/triageStorage';
+import {
+  listPathRuleProjects,
+  loadPathProject,
+  loadPathRules,
+  savePathProject,
+  savePathRules,
+} from './utils/pathRulesStorage';
+import { loadRuleMapping, saveRuleMapping } from './utils/ruleMappingStorage';
+import { loadSeverityMappings, saveSeverityMappings } from './utils/severityMappingStorage';
+import {
+  DEFAULT_COMPARISON_SETTINGS,
+  readSessionFile,
+  type AnalysisMode,
+  type ComparisonSettings,
+  type ResultsTab,
+  type SessionState,
+} from './utils/session';
 
 function App() {
-  const [sarifs, setSarifs] = useState<Array<{
-    results: Record<string, Result[]>;
-    run: SarifLog['runs'][0];
-  } | null>>([null, null, null]);
-
-  const handleFileUpload = (sarifData: SarifLog, index: number) => {
-    const run = sarifData.runs[0];
-    const results = run.results;
-    const grouped = results.reduce((acc, result) => {
-      const ruleId = result.ruleId;
-      if (!acc[ruleId]) {
-        acc[ruleId] = [];
-      }
-      acc[ruleId].push(result);
-      return acc;
-    }, {} as Record<string, Result[]>);
-    
+  const [sarifs, setSarifs] = useState<LoadedSarif[]>([]);
+  const [mode, setMode] = useState<AnalysisMode>('comparison');
+  const [runMode, setRunMode] = useState<RunMode>('separate');
+  const [sourceFolder, setSourceFolder] = useState<SourceFolder | null>(null);
+  const [severityMappings, setSeverityMappings] = useState<SeverityMappings>(loadSeverityMappings);
+  const [filter, setFilter] = useState<ResultFilter>(readFilterFromUrl);
+  const [view, setView] = useState<'analyze' | 'history'>('analyze');
+  const [triage, setTriage] = useState<TriageDecisions>(loadTriageDecisions);
+  const [hideSuppressed, setHideSuppressed] = useState(false);
+  const [pathProject, setPathProject] = useState(loadPathProject);
+  const [pathRules, setPathRules] = useState<PathRulesByFile>(() => loadPathRules(pathProject));
+  const [pathProjects, setPathProjects] = useState(listPathRuleProjects);
+  const [ruleMapping, setRuleMapping] = useState<RuleMapping>(loadRuleMapping);
+  const [resultsTab, setResultsTab] = useState<ResultsTab>('summary');
+  const [expandedCWEs, setExpandedCWEs] = useState<Record<string, boolean>>({});
+  const [comparisonSettings, setComparisonSettings] = useState<ComparisonSettings>(DEFAULT_COMPARISON_SETTINGS);
+  const [ruleDetails, setRuleDetails] = useState<RuleDetailsTarget | null>(null);
+  const nextId = useRef(0);
+
+  const handleFileUpload = (sarifData: SarifLog, fileName: string, indexes: RunIndex[]) => {
+    const id = nextId.current++;
+    setSarifs(prev => [...prev, { id, fileName, log: sarifData, indexes }]);
+  };
+
+  const removeSarif = (id: number) => {
+    setSarifs(prev => prev.filter(sarif => sarif.id !== id));
+  };
+
+  const moveSarif = (index: number, direction: -1 | 1) => {
     setSarifs(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
       const newSarifs = [...prev];
-      newSarifs[index] = { results: grouped, run };
+      [newSarifs[index], newSarifs[target]] = [newSarifs[target], newSarifs[index]];
       return newSarifs;
     });
   };
 
   const resetComparison = () => {
-    setSarifs([null, null, null]);
+    setSarifs([]);
+  };
+
+  const openFromHistory = (scans: Array<{ fileName: string; log: SarifLog }>) => {
+    setSarifs(scans.map(({ fileName, log }) => ({ id: nextId.current++, fileName, log })));
+    setMode('comparison');
+    setView('analyze');
+  };
+
+  const toggleIncludeGlob = (glob: string) => {
+    setFilter(prev => ({
+      ...prev,
+      include: prev.include.includes(glob) ? prev.include.filter(g => g !== glob) : [...prev.include, glob],
+    }));
+  };
+
+  const toggleCWE = (cwe: string) => {
+    setExpandedCWEs(prev => ({
+      ...prev,
+      [cwe]: !prev[cwe]
+    }));
+  };
+
+  useEffect(() => {
+    saveRuleMapping(ruleMapping);
+  }, [ruleMapping]);
+
+  useEffect(() => {
+    saveSeverityMappings(severityMappings);
+  }, [severityMappings]);
+
+  // Settings saved in this browser that differ from a session's are only replaced when the user agrees
+  const keepSaved = (saved: unknown, restored: unknown, hasSaved: boolean, description: string): boolean =>
+    hasSaved && JSON.stringify(saved) !== JSON.stringify(restored) && !window.confirm(
+      `This browser has different ${description} saved. Use the session's instead? Cancel keeps the saved ${description}.`
+    );
+
+  // A session replaces the loaded files and view state; local triage decisions are kept unless the session's are newer
+  const restoreSession = async (file: File) => {
+    const { files, state } = await readSessionFile(file);
+    setSarifs(files.map(({ fileName, log }) => ({ id: nextId.current++, fileName, log })));
+    setMode(state.mode);
+    setRunMode(state.runMode);
+    setResultsTab(state.resultsTab);
+    setExpandedCWEs(Object.fromEntries(state.expandedCWEs.map(cwe => [cwe, true])));
+    setFilter(state.filter);
+    setComparisonSettings(state.comparison);
+    setHideSuppressed(state.hideSuppressed);
+    if (!keepSaved(severityMappings, state.severityMappings, Object.keys(severityMappings).length > 0, 'severity mappings')) {
+      setSeverityMappings(state.severityMappings);
+    }
+    if (!keepSaved(ruleMapping, state.ruleMapping, ruleMapping.equivalences.length > 0, 'rule mapping')) {
+      setRuleMapping(state.ruleMapping);
+    }
+    setPathProject(state.pathProject);
+    savePathProject(state.pathProject);
+    const savedRules = loadPathRules(state.pathProject);
+    const hasSavedRules = listPathRuleProjects().includes(state.pathProject);
+    const keepSavedRules = keepSaved(savedRules, state.pathRules, hasSavedRules, `path rules of the project "${state.pathProject}"`);
+    updatePathRules(keepSavedRules ? savedRules : state.pathRules, state.pathProject);
+    setTriage(prev => mergeTriageDecisions(prev, state.triage));
+    setView('analyze');
+  };
+
+  const changePathProject = (project: string) => {
+    setPathProject(project);
+    setPathRules(loadPathRules(project));
+    savePathProject(project);
+  };
+
+  const updatePathRules = (rules: PathRulesByFile, project = pathProject) => {
+    setPathRules(rules);
+    savePathRules(project, rules);
+    setPathProjects(listPathRuleProjects());
+  };
+
+  // Every view and export sees repository-relative paths; the indexes of a rewritten log no longer apply
+  const normalizedSarifs = useMemo(
+    () => sarifs.map(sarif => {
+      const log = normalizeLogPaths(sarif.log, getFilePathRules(pathRules, sarif.fileName));
+      return log === sarif.log ? sarif : { ...sarif, log, indexes: undefined };
+    }),
+    [sarifs, pathRules]
+  );
+
+  const activeSarifs = useMemo(() => normalizedSarifs.map(sarif => sarif.log), [normalizedSarifs]);
+  const inputs = useMemo(
+    () => getComparisonInputs(activeSarifs, runMode, normalizedSarifs.map(sarif => sarif.indexes)),
+    [activeSarifs, normalizedSarifs, runMode]
+  );
+  const toolNames = useMemo(() => [...new Set(inputs.map(input => input.run.tool.driver.name))], [inputs]);
+
+  useEffect(() => {
+    writeFilterToUrl(filter);
+  }, [filter]);
+
+  // Typing in the search box stays responsive while large scans are filtered
+  const deferredFilter = useDeferredValue(filter);
+  const filteredInputs = useMemo(
+    () => filterInputs(inputs, deferredFilter, severityMappings),
+    [inputs, deferredFilter, severityMappings]
+  );
+
+  const visibleInputs = useMemo(
+    () => (hideSuppressed ? excludeSuppressed(filteredInputs, triage) : filteredInputs),
+    [filteredInputs, hideSuppressed, triage]
+  );
+
+  // The heatmap keeps showing sibling paths while one of its paths is selected
+  const heatmapInputs = useMemo(() => {
+    const filtered = filterInputs(inputs, { ...deferredFilter, include: [] }, severityMappings);
+    return hideSuppressed ? excludeSuppressed(filtered, triage) : filtered;
+  }, [inputs, deferredFilter, severityMappings, hideSuppressed, triage]);
+
+  useEffect(() => {
+    saveTriageDecisions(triage);
+  }, [triage]);
+
+  // A session shares the decisions on its own findings, not the whole local triage history
+  const sessionTriage = useMemo(() => pickInputDecisions(inputs, triage), [inputs, triage]);
+
+  const sessionState: SessionState = {
+    mode,
+    runMode,
+    resultsTab,
+    expandedCWEs: Object.keys(expandedCWEs).filter(cwe => expandedCWEs[cwe]),
+    filter,
+    comparison: comparisonSettings,
+    hideSuppressed,
+    severityMappings,
+    ruleMapping,
+    pathProject,
+    pathRules,
+    triage: sessionTriage,
   };
 
-  const activeSarifs = sarifs.filter(Boolean);
-  const nextUploadIndex = sarifs.findIndex(s => s === null);
+  const updateTriage = (key: string, decision: TriageDecision | null) => {
+    setTriage(prev => {
+      const next = { ...prev };
+      if (decision) {
+        next[key] = decision;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  const runModeToggle = hasMultipleRuns(activeSarifs) && (
+    <div className="flex items-center justify-end gap-2 text-sm text-gray-600">
+      <span>Multiple runs per file:</span>
+      <select
+        value={runMode}
+        onChange={(e) => setRunMode(e.target.value as RunMode)}
+        className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        <option value="separate">Compare runs separately</option>
+        <option value="merged">Merge runs of each file</option>
+      </select>
+    </div>
+  );
 
   return (
-    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100">
-      <div className="container mx-auto py-8">
-        <div className="flex flex-col items-center justify-center mb-12">
-          <div className="flex items-center gap-4 mb-4">
-            <div className="bg-gradient-to-r from-indigo-600 to-purple-600 p-3 rounded-full shadow-lg">
-              <FileSearch className="w-8 h-8 text-white" />
+    <RuleDetailsContext.Provider value={setRuleDetails}>
+      <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100">
+        <div className="container mx-auto py-8">
+          <div className="flex flex-col items-center justify-center mb-12">
+            <div className="flex items-center gap-4 mb-4">
+              <div className="bg-gradient-to-r from-indigo-600 to-purple-600 p-3 rounded-full shadow-lg">
+                <FileSearch className="w-8 h-8 text-white" />
+              </div>
+              <h1 className="text-4xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-indigo-600 to-purple-600">
+                SARIF Compare
+              </h1>
             </div>
-            <h1 className="text-4xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-indigo-600 to-purple-600">
-              SARIF Compare
-            </h1>
-          </div>
-          <p className="mt-2 text-gray-600 text-center">
-            Advanced SARIF Analysis & Comparison Tool
-          </p>
-          <p className="text-sm text-gray-500 text-center max-w-2xl mt-2">
-            Upload and analyze multiple SARIF files to compare security findings, track changes, and identify patterns across different scans
-          </p>
-        </div>
-        
-        {activeSarifs.length === 0 && (
-          <div className="space-y-8">
-            <FileUpload 
-              onFileUpload={(data) => handleFileUpload(data, 0)} 
-              label="Upload first SARIF file"
-            />
-          </div>
-        )}
-
-        {activeSarifs.length === 1 && (
-          <div className="space-y-8">
-            <FileUpload 
-              onFileUpload={(data) => handleFileUpload(data, 1)} 
-              label="Upload second SARIF file for comparison"
-            />
-            <ResultsTable results={activeSarifs[0].results} run={activeSarifs[0].run} />
+            <p className="mt-2 text-gray-600 text-center">
+              Advanced SARIF Analysis & Comparison Tool
+            </p>
+            <p className="text-sm text-gray-500 text-center max-w-2xl mt-2">
+              Upload and analyze multiple SARIF files to compare security findings, track changes, and identify patterns across different scans
+            </p>
           </div>
-        )}
-
-        {activeSarifs.length >= 2 && (
-          <div className="space-y-8">
-            {nextUploadIndex !== -1 && nextUploadIndex < 3 && (
-              <FileUpload 
-                onFileUpload={(data) => handleFileUpload(data, nextUploadIndex)} 
-                label={`Upload ${nextUploadIndex + 1}${nextUploadIndex === 2 ? 'rd' : 'nd'} SARIF file (optional)`}
-              />
-            )}
-            <div className="flex justify-end">
+          
+          <div className="flex justify-center mb-8">
+            <div className="inline-flex rounded-md shadow-sm">
               <button
-                onClick={resetComparison}
-                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 shadow-md transition-colors duration-200"
+                onClick={() => setView('analyze')}
+                className={`px-4 py-2 text-sm font-medium rounded-l-md border border-gray-200 ${
+                  view === 'analyze' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
               >
-                Start New Comparison
+                Analyze
+              </button>
+              <button
+                onClick={() => setView('history')}
+                className={`px-4 py-2 text-sm font-medium rounded-r-md border border-l-0 border-gray-200 ${
+                  view === 'history' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                History
               </button>
             </div>
-            <ComparisonView sarifs={activeSarifs} />
           </div>
-        )}
+
+          {view === 'history' ? (
+            <TrendDashboard onCompare={openFromHistory} />
+          ) : (
+            <div className="space-y-8">
+              <FileUpload
+                onFileUpload={handleFileUpload}
+                onSessionUpload={restoreSession}
+                label={
+                  sarifs.length === 0 ? 'Upload SARIF files' :
+                  sarifs.length === 1 ? 'Upload more SARIF files for comparison' :
+                  'Add more SARIF files (optional)'
+                }
+              />
+
+              {sarifs.length > 0 && (
+                <>
+                  <SarifFileList
+                    files={sarifs}
+                    onRemove={removeSarif}
+                    onMove={moveSarif}
+                    actions={<SaveSessionButton files={sarifs} state={sessionState} />}
+                  />
+                  <SourceFolderPicker folder={sourceFolder} onChange={setSourceFolder} />
+                  <SeverityMappingEditor toolNames={toolNames} mappings={severityMappings} onChange={setSeverityMappings} />
+                  <PathRulesEditor
+                    files={sarifs}
+                    project={pathProject}
+                    projects={pathProjects}
+                    onProjectChange={changePathProject}
+                    rules={pathRules}
+                    onChange={updatePathRules}
+                  />
+                  <SaveScansPanel files={normalizedSarifs} severityMappings={severityMappings} />
+                  <FilterBar
+                    inputs={inputs}
+                    filter={filter}
+                    onChange={setFilter}
+                    matchedCount={countResults(filteredInputs)}
+                    totalCount={countResults(inputs)}
+                  />
+                  <TriagePanel
+                    files={normalizedSarifs}
+                    inputs={filteredInputs}
+                    decisions={triage}
+                    onChange={setTriage}
+                    hideSuppressed={hideSuppressed}
+                    onHideSuppressedChange={setHideSuppressed}
+                  />
+                  <DirectoryHeatmap
+                    inputs={heatmapInputs}
+                    severityMappings={severityMappings}
+                    selectedGlobs={filter.include}
+                    onToggleGlob={toggleIncludeGlob}
+                  />
+                </>
+              )}
+
+              {sarifs.length === 1 && (
+                <>
+                  {runModeToggle}
+                  <ResultsTable
+                    inputs={visibleInputs}
+                    sourceFolder={sourceFolder}
+                    severityMappings={severityMappings}
+                    triage={triage}
+                    onTriageChange={updateTriage}
+                    activeTab={resultsTab}
+                    onActiveTabChange={setResultsTab}
+                    expandedCWEs={expandedCWEs}
+                    onToggleCWE={toggleCWE}
+                  />
+                </>
+              )}
+
+              {sarifs.length >= 2 && (
+                <>
+                  {runModeToggle}
+                  <div className="flex justify-between items-center">
+                    <div className="inline-flex rounded-md shadow-sm">
+                      <button
+                        onClick={() => setMode('comparison')}
+                        className={`px-4 py-2 text-sm font-medium rounded-l-md border border-gray-200 ${
+                          mode === 'comparison' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        Tool Comparison
+                      </button>
+                      <button
+                        onClick={() => setMode('catalog')}
+                        className={`px-4 py-2 text-sm font-medium border border-l-0 border-gray-200 ${
+                          mode === 'catalog' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        Rule Catalog
+                      </button>
+                      <button
+                        onClick={() => setMode('baseline')}
+                        className={`px-4 py-2 text-sm font-medium rounded-r-md border border-l-0 border-gray-200 ${
+                          mode === 'baseline' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        Baseline Diff
+                      </button>
+                    </div>
+                    <button
+                      onClick={resetComparison}
+                      className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 shadow-md transition-colors duration-200"
+                    >
+                      Start New Comparison
+                    </button>
+                  </div>
+                  {mode === 'comparison' && (
+                    <ComparisonView
+                      sarifs={visibleInputs}
+                      sourceFolder={sourceFolder}
+                      severityMappings={severityMappings}
+                      ruleMapping={ruleMapping}
+                      onRuleMappingChange={setRuleMapping}
+                      expandedCWEs={expandedCWEs}
+                      onToggleCWE={toggleCWE}
+                      settings={comparisonSettings}
+                      onSettingsChange={setComparisonSettings}
+                    />
+                  )}
+                  {mode === 'catalog' && <RuleCatalogView sarifs={visibleInputs} />}
+                  {mode === 'baseline' && <BaselineDiffView sarifs={visibleInputs} />}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+        {ruleDetails && <RuleDetailsDrawer target={ruleDetails} onClose={() => setRuleDetails(null)} />}
       </div>
-    </div>
+    </RuleDetailsContext.Provider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
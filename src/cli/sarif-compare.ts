@@ -0,0 +1,426 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  compareSarifLogs,
+  createSarifReport,
+  createSarifWorkbook,
+  ALL_FILES,
+  DEFAULT_COMPARE_OPTIONS,
+  formatRatio,
+  getComparisonHeaders,
+  getFilePathRules,
+  getOverlapCounts,
+  mergeSarifLogs,
+  normalizeCWE,
+  normalizeLogPaths,
+  parseGroundTruth,
+  parsePathRules,
+  parseRuleMapping,
+  parseSeverityMappings,
+  renderHtmlReport,
+  renderMarkdownReport,
+  scoreSarifLogs,
+  SEVERITIES,
+  summarizeSarifLog,
+  type ComparisonSummary,
+  type ExpectedResult,
+  type GroundTruthScores,
+  type GroupingMode,
+  type GroupingOptions,
+  type InputSummary,
+  type NormalizedSeverity,
+  type PathRulesByFile,
+  type RuleMapping,
+  type RunMode,
+  type SarifLog,
+  type Score,
+  type SeverityMappings,
+  type ValidationIssue,
+  validateSarif,
+  writeWorkbook,
+} from '../lib';
+
+const EXIT_OK = 0;
+const EXIT_CHECK_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_INPUT_ERROR = 3;
+
+const MAX_REPORTED_ISSUES = 20;
+
+const FORMATS = ['table', 'json', 'xlsx', 'sarif', 'html', 'markdown'] as const;
+type Format = typeof FORMATS[number];
+
+const USAGE = `Usage: sarif-compare <file.sarif>... [options]
+
+Summarizes one SARIF file or compares several, using the same engine as the web UI.
+
+Options:
+  -f, --format <format>     Output format: table, json, xlsx, sarif, html or markdown (default: table)
+  -o, --output <path>       Write the output to a file (required for xlsx)
+      --dedupe              With --format sarif, report each matched finding once in a single run
+      --line-tolerance <n>  Maximum line distance for matching findings (default: ${DEFAULT_COMPARE_OPTIONS.lineTolerance})
+      --merge-runs          Merge all runs of a file into one input
+      --group-by <grouping> Group findings by cwe, owasp (Top 10 2021), top25 (CWE Top 25) or rule (default: cwe)
+      --rule-map <file>     JSON rule equivalence mapping used by --group-by rule
+      --roll-up <level>     Roll CWEs up the CWE-1000 hierarchy to a depth (0 = pillar) or a category such as CWE-74
+      --min-severity <sev>  Leave out findings below critical, high, medium, low or info (default: info)
+      --severity-map <file> JSON file with severity mapping overrides keyed by tool name
+      --strip-prefix <path> Remove a leading directory from artifact paths of every file (repeatable)
+      --path-rules <file>   JSON path rules keyed by SARIF file name, as exported by the web UI
+      --ground-truth <file> Score each input against expected results (OWASP Benchmark CSV, CSV or JSON)
+      --fail-on-new         Exit with 1 when any input has findings not found in the first input
+      --min-overlap <pct>   Exit with 1 when the overall similarity of any two inputs is below pct
+  -h, --help                Show this help
+
+Exit codes:
+  0  success
+  1  a --fail-on-new or --min-overlap check failed
+  2  invalid arguments
+  3  an input file could not be read, parsed or validated`;
+
+class CliError extends Error {
+  constructor(message: string, readonly exitCode: number) {
+    super(message);
+  }
+}
+
+const formatTable = (header: string[], rows: Array<Array<string | number>>): string => {
+  const cells = [header, ...rows.map(row => row.map(String))];
+  const widths = header.map((_, column) => Math.max(...cells.map(row => (row[column] ?? '').length)));
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [
+    formatRow(cells[0]),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...cells.slice(1).map(formatRow),
+  ].join('\n');
+};
+
+const formatSummaryTable = (
+  { toolName, rows, total, groupLabel, cweGroups, cweNames }: InputSummary,
+  showGroups: boolean
+): string => {
+  const table = `Tool: ${toolName}\n\n` + formatTable(
+    ['Rule ID', 'CWE', 'Tags', 'Count', 'Severity'],
+    [
+      ...rows.map(({ ruleId, cwes, tags, count, severity }) => [ruleId, cwes.join(', '), tags.join(', '), count, severity]),
+      ['TOTAL', '', '', total, ''],
+    ]
+  );
+  if (!showGroups) return table;
+
+  return `${table}\n\n` + formatTable(
+    [groupLabel, 'Name', 'Findings'],
+    Object.entries(cweGroups).map(([group, entries]) => [
+      group,
+      cweNames[group] || '',
+      entries.reduce((sum, { items }) => sum + items.length, 0),
+    ])
+  );
+};
+
+const formatGroundTruthTable = ({ cwes, caseCount, inputs }: GroundTruthScores): string => {
+  const scoreRow = (group: string, label: string, { tp, fp, fn, tn, precision, recall, f1 }: Score) =>
+    [group, label, tp, fp, fn, tn, formatRatio(precision), formatRatio(recall), formatRatio(f1)];
+  return `Ground truth: ${caseCount} test cases\n\n` + formatTable(
+    ['CWE', 'Tool', 'TP', 'FP', 'FN', 'TN', 'Precision', 'Recall', 'F1'],
+    [
+      ...cwes.flatMap(cwe => inputs.map(input => scoreRow(cwe, input.label, input.byCWE[cwe]))),
+      ...inputs.map(input => scoreRow('Overall', input.label, input.overall)),
+    ]
+  );
+};
+
+const formatMatrix = (toolNames: string[], matrix: ComparisonSummary['matrix']): string =>
+  formatTable(
+    ['', ...toolNames],
+    matrix.map((row, i) => [
+      toolNames[i],
+      ...row.map(({ similarity }, j) => (i === j ? '-' : `${similarity.toFixed(1)}%`)),
+    ])
+  );
+
+const formatComparisonTable = ({ toolNames, groupLabel, rows, totals, matrix, meanSimilarity }: ComparisonSummary): string => {
+  const headers = getComparisonHeaders(toolNames);
+
+  return `Tools: ${toolNames.join(' vs ')}\n\n` + formatTable(
+    [groupLabel, ...headers.findings, ...headers.deltas, ...headers.overlaps, headers.similarity],
+    [
+      ...rows.map(({ cwe, findings, deltas, matrix: cweMatrix, meanSimilarity: cweSimilarity }) => [
+        cwe,
+        ...findings,
+        ...deltas.map(delta => (delta > 0 ? `+${delta}` : `${delta}`)),
+        ...getOverlapCounts(cweMatrix),
+        `${cweSimilarity.toFixed(1)}%`,
+      ]),
+      [
+        'Total / Overall',
+        ...totals,
+        ...headers.deltas.map(() => ''),
+        ...getOverlapCounts(matrix),
+        `${meanSimilarity.toFixed(1)}%`,
+      ],
+    ]
+  ) + `\n\nPairwise similarity (all groups)\n\n${formatMatrix(toolNames, matrix)}`;
+};
+
+const readSarif = (path: string): SarifLog => {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new CliError(`Cannot read ${path}: ${(error as Error).message}`, EXIT_INPUT_ERROR);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new CliError(`Cannot parse ${path}: ${(error as Error).message}`, EXIT_INPUT_ERROR);
+  }
+
+  const { issues, log } = validateSarif(data);
+  const formatIssues = (list: ValidationIssue[]) => list
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map(issue => `  ${issue.path}: ${issue.message}`)
+    .concat(list.length > MAX_REPORTED_ISSUES ? [`  and ${list.length - MAX_REPORTED_ISSUES} more`] : [])
+    .join('\n');
+
+  if (!log) {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    throw new CliError(`${path} is not a valid SARIF 2.1.0 log:\n${formatIssues(errors)}`, EXIT_INPUT_ERROR);
+  }
+  if (issues.length > 0) {
+    console.error(`${path} was loaded with ${issues.length} validation warnings:\n${formatIssues(issues)}`);
+  }
+  return log;
+};
+
+const readSeverityMappings = (path: string): SeverityMappings => {
+  try {
+    return parseSeverityMappings(JSON.parse(readFileSync(path, 'utf8')));
+  } catch (error) {
+    throw new CliError(`Cannot read severity mapping ${path}: ${(error as Error).message}`, EXIT_INPUT_ERROR);
+  }
+};
+
+const parseNumber = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new CliError(`--${name} expects a non-negative number, got "${value}"`, EXIT_USAGE);
+  }
+  return parsed;
+};
+
+const readRuleMapping = (path: string): RuleMapping => {
+  try {
+    return parseRuleMapping(JSON.parse(readFileSync(path, 'utf8')));
+  } catch (error) {
+    throw new CliError(`Cannot read rule mapping ${path}: ${(error as Error).message}`, EXIT_INPUT_ERROR);
+  }
+};
+
+const readGroundTruth = (path: string): ExpectedResult[] => {
+  try {
+    return parseGroundTruth(readFileSync(path, 'utf8'), path);
+  } catch (error) {
+    throw new CliError(`Cannot read expected results ${path}: ${(error as Error).message}`, EXIT_INPUT_ERROR);
+  }
+};
+
+const readPathRules = (path: string): PathRulesByFile => {
+  try {
+    return parsePathRules(JSON.parse(readFileSync(path, 'utf8')));
+  } catch (error) {
+    throw new CliError(`Cannot read path rules ${path}: ${(error as Error).message}`, EXIT_INPUT_ERROR);
+  }
+};
+
+// Prefixes given on the command line apply to every file, after those in the rules file
+const getPathRules = (path: string | undefined, stripPrefixes: string[] = []): PathRulesByFile => {
+  const rules = path ? readPathRules(path) : {};
+  const common = getFilePathRules(rules, ALL_FILES);
+  return { ...rules, [ALL_FILES]: { ...common, stripPrefixes: [...common.stripPrefixes, ...stripPrefixes] } };
+};
+
+const GROUPING_MODES: Record<string, GroupingMode> = { cwe: 'cwe', owasp: 'owasp2021', top25: 'top25', rule: 'mappedRule' };
+
+const parseGrouping = (groupBy = 'cwe', rollUp?: string, ruleMapPath?: string): GroupingOptions => {
+  const mode = GROUPING_MODES[groupBy];
+  if (!mode) {
+    throw new CliError(`Unknown grouping "${groupBy}", expected cwe, owasp, top25 or rule`, EXIT_USAGE);
+  }
+  if (mode === 'mappedRule') {
+    return { mode, rollUp: { kind: 'none' }, ruleMapping: ruleMapPath ? readRuleMapping(ruleMapPath) : undefined };
+  }
+  if (rollUp === undefined) return { mode, rollUp: { kind: 'none' } };
+  if (/^\d+$/.test(rollUp)) return { mode, rollUp: { kind: 'depth', depth: Number(rollUp) } };
+  const cwe = normalizeCWE(rollUp, true);
+  if (!cwe) {
+    throw new CliError(`--roll-up expects a depth or a CWE such as CWE-74, got "${rollUp}"`, EXIT_USAGE);
+  }
+  return { mode, rollUp: { kind: 'category', cwe } };
+};
+
+// Reports every failed --fail-on-new or --min-overlap check on stderr
+const runChecks = (
+  { toolNames, matrix }: ComparisonSummary,
+  { failOnNew, minOverlap }: { failOnNew: boolean; minOverlap: number | null }
+): number => {
+  const failures: string[] = [];
+  matrix.forEach((row, i) => {
+    row.forEach(({ onlyInB, similarity }, j) => {
+      if (failOnNew && i === 0 && j > 0 && onlyInB > 0) {
+        failures.push(`${toolNames[j]} has ${onlyInB} findings not found in ${toolNames[0]}`);
+      }
+      if (minOverlap !== null && i < j && similarity < minOverlap) {
+        failures.push(`Similarity of ${toolNames[i]} and ${toolNames[j]} is ${similarity.toFixed(1)}%, below ${minOverlap}%`);
+      }
+    });
+  });
+  failures.forEach(failure => console.error(failure));
+
+  return failures.length > 0 ? EXIT_CHECK_FAILED : EXIT_OK;
+};
+
+const run = (argv: string[]): number => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f', default: 'table' },
+        output: { type: 'string', short: 'o' },
+        dedupe: { type: 'boolean', default: false },
+        'line-tolerance': { type: 'string' },
+        'merge-runs': { type: 'boolean', default: false },
+        'group-by': { type: 'string', default: 'cwe' },
+        'roll-up': { type: 'string' },
+        'rule-map': { type: 'string' },
+        'min-severity': { type: 'string', default: 'info' },
+        'severity-map': { type: 'string' },
+        'strip-prefix': { type: 'string', multiple: true },
+        'path-rules': { type: 'string' },
+        'ground-truth': { type: 'string' },
+        'fail-on-new': { type: 'boolean', default: false },
+        'min-overlap': { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new CliError(`${(error as Error).message}\n\n${USAGE}`, EXIT_USAGE);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (positionals.length === 0) {
+    throw new CliError(`No SARIF files given.\n\n${USAGE}`, EXIT_USAGE);
+  }
+
+  const format = values.format;
+  if (!FORMATS.includes(format as Format)) {
+    throw new CliError(`Unknown format "${format}", expected ${FORMATS.join(', ')}`, EXIT_USAGE);
+  }
+  if ((format === 'html' || format === 'markdown') && positionals.length < 2) {
+    throw new CliError(`The ${format} report compares tools and needs at least two SARIF files`, EXIT_USAGE);
+  }
+  if (format === 'xlsx' && !values.output) {
+    throw new CliError('The xlsx format requires --output <path>', EXIT_USAGE);
+  }
+  const checks = [values['fail-on-new'] && '--fail-on-new', values['min-overlap'] !== undefined && '--min-overlap']
+    .filter(Boolean);
+  if (checks.length > 0 && positionals.length < 2) {
+    throw new CliError(`${checks.join(' and ')}: checks compare inputs and need at least two SARIF files`, EXIT_USAGE);
+  }
+
+  const lineTolerance = parseNumber(values['line-tolerance'], 'line-tolerance', DEFAULT_COMPARE_OPTIONS.lineTolerance);
+  const minOverlap = values['min-overlap'] === undefined
+    ? null
+    : parseNumber(values['min-overlap'], 'min-overlap', 0);
+  const runMode: RunMode = values['merge-runs'] ? 'merged' : 'separate';
+  const grouping = parseGrouping(values['group-by'], values['roll-up'], values['rule-map']);
+  const minSeverity = values['min-severity'] as NormalizedSeverity;
+  if (!SEVERITIES.includes(minSeverity)) {
+    throw new CliError(`Unknown severity "${minSeverity}", expected ${SEVERITIES.join(', ')}`, EXIT_USAGE);
+  }
+  const severityMappings = values['severity-map'] ? readSeverityMappings(values['severity-map']) : {};
+  const pathRules = getPathRules(values['path-rules'], values['strip-prefix']);
+  const logs = positionals.map(path => normalizeLogPaths(readSarif(path), getFilePathRules(pathRules, basename(path))));
+  const expected = values['ground-truth'] ? readGroundTruth(values['ground-truth']) : undefined;
+  const groundTruth = expected
+    ? scoreSarifLogs(logs, expected, { lineTolerance, runMode, minSeverity, severityMappings })
+    : undefined;
+
+  const checkOptions = { failOnNew: values['fail-on-new'], minOverlap };
+
+  const write = (content: string | Uint8Array) => {
+    if (values.output) {
+      writeFileSync(values.output, content);
+    } else {
+      process.stdout.write(content);
+    }
+  };
+
+  // Merges every input, including the runs of a single file, into one log
+  if (format === 'sarif') {
+    const mode = values.dedupe ? 'deduplicated' : 'runs';
+    const log = mergeSarifLogs(logs, mode, { lineTolerance, runMode, grouping, minSeverity, severityMappings });
+    write(JSON.stringify(log, null, 2) + '\n');
+    return checks.length > 0
+      ? runChecks(compareSarifLogs(logs, { lineTolerance, runMode, grouping, minSeverity, severityMappings }), checkOptions)
+      : EXIT_OK;
+  }
+
+  // Like the web UI, a single file is summarized per rule instead of compared
+  if (logs.length === 1) {
+    if (!logs[0].runs?.length) {
+      throw new CliError(`${positionals[0]} has no runs to summarize`, EXIT_INPUT_ERROR);
+    }
+    const summaries = summarizeSarifLog(logs[0], { runMode, grouping, minSeverity, severityMappings });
+    if (format === 'json') {
+      const output = summaries.map(({ toolName, rows, total }, i) => ({
+        toolName, rows, total, ...(groundTruth && { groundTruth: groundTruth.inputs[i] }),
+      }));
+      write(JSON.stringify(output, null, 2) + '\n');
+    } else if (format === 'xlsx') {
+      write(writeWorkbook(createSarifWorkbook(logs, { lineTolerance, runMode, grouping, minSeverity, severityMappings, expected })));
+    } else {
+      const showGroups = values['group-by'] !== 'cwe' || values['roll-up'] !== undefined;
+      const tables = summaries.map(summary => formatSummaryTable(summary, showGroups));
+      write([...tables, ...(groundTruth ? [formatGroundTruthTable(groundTruth)] : [])].join('\n\n') + '\n');
+    }
+    return EXIT_OK;
+  }
+
+  const comparison = compareSarifLogs(logs, { lineTolerance, runMode, grouping, minSeverity, severityMappings });
+  if (format === 'json') {
+    const { toolNames, groupLabel, rows, totals, matrix, meanSimilarity } = comparison;
+    const output = { toolNames, groupLabel, rows, totals, matrix, meanSimilarity, groundTruth };
+    write(JSON.stringify(output, null, 2) + '\n');
+  } else if (format === 'xlsx') {
+    write(writeWorkbook(createSarifWorkbook(logs, { lineTolerance, runMode, grouping, minSeverity, severityMappings, expected })));
+  } else if (format === 'html' || format === 'markdown') {
+    const report = createSarifReport(logs, { lineTolerance, runMode, grouping, minSeverity, severityMappings });
+    write(format === 'html' ? renderHtmlReport(report) : renderMarkdownReport(report));
+  } else {
+    const tables = [formatComparisonTable(comparison), ...(groundTruth ? [formatGroundTruthTable(groundTruth)] : [])];
+    write(tables.join('\n\n') + '\n');
+  }
+
+  return runChecks(comparison, checkOptions);
+};
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof CliError) {
+    console.error(error.message);
+    process.exitCode = error.exitCode;
+  } else {
+    throw error;
+  }
+}
@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import type { BaselineState } from '../types/sarif';
+import { BASELINE_STATES, computeBaselineDiff, countBaselineStates, createBaselineSarif } from '../lib/baseline';
+import { DEFAULT_MATCH_OPTIONS } from '../lib/matching';
+import { downloadFile } from '../utils/download';
+import type { SarifInput } from '../lib/runs';
+import { RuleLink } from './RuleLink';
+
+interface BaselineDiffViewProps {
+  sarifs: SarifInput[];
+}
+
+const stateStyles: Record<BaselineState, string> = {
+  new: 'bg-red-100 text-red-800',
+  updated: 'bg-yellow-100 text-yellow-800',
+  unchanged: 'bg-gray-100 text-gray-800',
+  absent: 'bg-green-100 text-green-800',
+};
+
+export function BaselineDiffView({ sarifs }: BaselineDiffViewProps) {
+  const [baselineIndex, setBaselineIndex] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(1);
+  const [lineTolerance, setLineTolerance] = useState(DEFAULT_MATCH_OPTIONS.lineTolerance);
+  const [stateFilter, setStateFilter] = useState<BaselineState | 'all'>('all');
+
+  const toolNames = sarifs.map((sarif, index) => `${index + 1}. ${sarif.label}`);
+  const baseline = sarifs[baselineIndex] ?? sarifs[0];
+  const current = sarifs[currentIndex] ?? sarifs[1];
+
+  const entries = useMemo(
+    () => (baseline && current
+      ? computeBaselineDiff(Object.values(baseline.results).flat(), Object.values(current.results).flat(), { lineTolerance })
+      : []),
+    [baseline, current, lineTolerance]
+  );
+  const counts = useMemo(() => countBaselineStates(entries), [entries]);
+  const visibleEntries = useMemo(
+    () => (stateFilter === 'all' ? entries : entries.filter(({ state }) => state === stateFilter)),
+    [entries, stateFilter]
+  );
+
+  // A log without runs leaves fewer than two inputs to compare
+  if (!baseline || !current) {
+    return (
+      <div className="bg-white shadow-md rounded-lg px-6 py-4 text-sm text-gray-500">
+        The baseline diff needs two runs to compare; the loaded files contain {sarifs.length === 1 ? 'only one' : 'none'}.
+      </div>
+    );
+  }
+
+  const exportToSarif = () => {
+    const log = createBaselineSarif(current.run, baseline.run, entries);
+    downloadFile(JSON.stringify(log, null, 2), 'sarif-baseline-diff.sarif', 'application/sarif+json');
+  };
+
+  const ScanSelect = ({ label, value, onChange }: { label: string; value: number; onChange: (index: number) => void }) => (
+    <label className="flex flex-col text-sm text-gray-600">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        {toolNames.map((name, index) => (
+          <option key={index} value={index}>{name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white shadow-md rounded-lg p-4 flex flex-wrap items-end gap-6">
+        <ScanSelect label="Baseline scan" value={baselineIndex} onChange={setBaselineIndex} />
+        <ScanSelect label="Current scan" value={currentIndex} onChange={setCurrentIndex} />
+        <label className="flex flex-col text-sm text-gray-600">
+          Line tolerance
+          <input
+            type="number"
+            min={0}
+            value={lineTolerance}
+            onChange={(e) => setLineTolerance(Math.max(0, Number(e.target.value) || 0))}
+            className="mt-1 w-20 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+        <button
+          onClick={exportToSarif}
+          className="ml-auto inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export SARIF with baselineState
+        </button>
+      </div>
+
+      {baselineIndex === currentIndex && (
+        <p className="text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-md px-4 py-2">
+          The baseline and current scan are the same input, so every finding is reported as unchanged.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {BASELINE_STATES.map(state => (
+          <button
+            key={state}
+            onClick={() => setStateFilter(stateFilter === state ? 'all' : state)}
+            className={`bg-white shadow-md rounded-lg p-4 text-left border-2 ${
+              stateFilter === state ? 'border-indigo-500' : 'border-transparent'
+            }`}
+          >
+            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${stateStyles[state]}`}>
+              {state}
+            </span>
+            <p className="mt-2 text-2xl font-semibold text-gray-900">{counts[state]}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {stateFilter === 'all' ? 'All Findings' : `Findings: ${stateFilter}`} ({visibleEntries.length})
+          </h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  State
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rule ID
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Message
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Location
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleEntries.map(({ state, result, baselineResult }, index) => (
+                <tr key={index}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${stateStyles[state]}`}>
+                      {state}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    <RuleLink ruleId={result.ruleId} run={state === 'absent' ? baseline.run : current.run} />
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm text-gray-900">{result.message.text}</div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm text-gray-900">
+                      {result.locations?.[0]?.physicalLocation?.artifactLocation?.uri}
+                      {result.locations?.[0]?.physicalLocation?.region && (
+                        <span className="text-gray-500">
+                          :{result.locations[0].physicalLocation.region.startLine}
+                        </span>
+                      )}
+                    </div>
+                    {state === 'updated' && baselineResult?.locations?.[0]?.physicalLocation?.region && (
+                      <div className="text-xs text-gray-500">
+                        was line {baselineResult.locations[0].physicalLocation.region.startLine}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { UNMAPPED_CWE } from '../lib/cwe';
+import { OTHER_GROUP } from '../lib/grouping';
+
+interface CWEBadgeProps {
+  cwe: string;
+  name?: string;
+  large?: boolean;
+}
+
+export function CWEBadge({ cwe, name, large = false }: CWEBadgeProps) {
+  const colors = cwe === UNMAPPED_CWE || cwe === OTHER_GROUP ? 'bg-gray-100 text-gray-700' : 'bg-blue-100 text-blue-800';
+  const size = large ? 'px-3 py-1 text-sm' : 'px-2.5 py-0.5 text-xs';
+  return (
+    <span title={name} className={`inline-flex items-center rounded-full font-medium whitespace-nowrap ${size} ${colors}`}>
+      {cwe}
+    </span>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import type { Result } from '../types/sarif';
+import { formatLocation, getResultFlows, type FlowStep } from '../lib/codeFlows';
+
+interface CodeFlowViewerProps {
+  result: Result;
+  /** Start on this flow, e.g. the one that best matches another tool's path. */
+  initialFlow?: number;
+}
+
+const getStepRole = (index: number, count: number) => {
+  if (count > 1 && index === 0) return { label: 'Source', style: 'bg-orange-100 text-orange-800' };
+  if (count > 1 && index === count - 1) return { label: 'Sink', style: 'bg-red-100 text-red-800' };
+  return null;
+};
+
+function FlowStepItem({ step, index, count }: { step: FlowStep; index: number; count: number }) {
+  const role = getStepRole(index, count);
+  return (
+    <li
+      className={`flex items-start gap-3 py-1.5 ${step.importance === 'unimportant' ? 'opacity-60' : ''}`}
+      style={{ paddingLeft: `${step.nestingLevel * 16}px` }}
+    >
+      <span className="w-6 h-6 shrink-0 rounded-full bg-indigo-100 text-indigo-700 text-xs font-semibold flex items-center justify-center">
+        {index + 1}
+      </span>
+      <div className="min-w-0">
+        <div className="flex flex-wrap items-center gap-1">
+          {role && (
+            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${role.style}`}>
+              {role.label}
+            </span>
+          )}
+          {step.kinds.map(kind => (
+            <span key={kind} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+              {kind}
+            </span>
+          ))}
+          <code className="text-xs text-gray-600 break-all">
+            {step.uri || 'unknown location'}{step.line !== null && `:${step.line}`}
+          </code>
+        </div>
+        {step.message && <p className="text-sm text-gray-900">{step.message}</p>}
+      </div>
+    </li>
+  );
+}
+
+/** Step-by-step view of a result's code flows, followed by its related locations. */
+export function CodeFlowViewer({ result, initialFlow = 0 }: CodeFlowViewerProps) {
+  const flows = getResultFlows(result);
+  const [selectedFlow, setSelectedFlow] = useState(initialFlow);
+  const flow = flows[selectedFlow] ?? flows[0];
+  const relatedLocations = result.relatedLocations || [];
+
+  if (!flow && relatedLocations.length === 0) {
+    return <p className="text-sm text-gray-500">No code flow reported</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {flows.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {flows.map((item, index) => (
+            <button
+              key={index}
+              onClick={() => setSelectedFlow(index)}
+              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                flow === item ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {item.label} ({item.steps.length})
+            </button>
+          ))}
+        </div>
+      )}
+      {flow && (
+        <div>
+          {flow.message && <p className="text-sm text-gray-600 mb-1">{flow.message}</p>}
+          <ol>
+            {flow.steps.map((step, index) => (
+              <FlowStepItem key={index} step={step} index={index} count={flow.steps.length} />
+            ))}
+          </ol>
+        </div>
+      )}
+      {relatedLocations.length > 0 && (
+        <div>
+          <h5 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Related Locations</h5>
+          <ul className="space-y-1">
+            {relatedLocations.map((location, index) => (
+              <li key={index} className="text-sm text-gray-900">
+                {location.id !== undefined && <span className="text-gray-500 mr-1">[{location.id}]</span>}
+                <code className="text-xs text-gray-600 break-all">{formatLocation(location) || 'unknown location'}</code>
+                {location.message?.text && <span className="ml-2">{location.message.text}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
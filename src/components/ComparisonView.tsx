@@ -1,151 +1,120 @@
-import React, { useState } from 'react';
-import { ChevronDown, ChevronRight, Download } from 'lucide-react';
-import type { Result, Run } from '../types/sarif';
-import * as XLSX from 'xlsx';
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, FileText } from 'lucide-react';
+import { countFlowSteps } from '../lib/codeFlows';
+import { compareInputs, getComparisonHeaders, getOverlapCounts } from '../lib/comparison';
+import { getCWEResults } from '../lib/cwe';
+import { createComparisonWorkbook, writeWorkbook, XLSX_MIME_TYPE } from '../lib/excel';
+import { formatRatio, scoreInputs, type Score } from '../lib/groundTruth';
+import { createComparisonReport, renderHtmlReport, renderMarkdownReport } from '../lib/report';
+import type { RuleMapping } from '../lib/ruleMapping';
+import { createMergedSarif, type MergedSarifMode } from '../lib/sarifExport';
+import {
+  SEVERITIES,
+  filterInputsBySeverity,
+  getSeverityBreakdown,
+  isAtLeast,
+  type NormalizedSeverity,
+  type SeverityMappings,
+} from '../lib/severity';
+import { CWEBadge } from './CWEBadge';
+import { FlowComparison } from './FlowComparison';
+import { GroundTruthLoader } from './GroundTruthLoader';
+import { GroupingControls } from './GroupingControls';
+import { RuleLink } from './RuleLink';
+import { RuleMappingEditor } from './RuleMappingEditor';
+import { SeverityBadge } from './SeverityBadge';
+import { SimilarityMatrixTable } from './SimilarityMatrixTable';
+import type { SarifInput } from '../lib/runs';
+import { downloadFile } from '../utils/download';
+import type { ComparisonSettings } from '../utils/session';
+import type { SourceFolder } from '../utils/sourceFolder';
 
 interface ComparisonViewProps {
-  sarifs: Array<{
-    results: Record<string, Result[]>;
-    run: Run;
-  }>;
+  sarifs: SarifInput[];
+  sourceFolder?: SourceFolder | null;
+  severityMappings: SeverityMappings;
+  ruleMapping: RuleMapping;
+  onRuleMappingChange: (mapping: RuleMapping) => void;
+  expandedCWEs: Record<string, boolean>;
+  onToggleCWE: (cwe: string) => void;
+  settings: ComparisonSettings;
+  onSettingsChange: (settings: ComparisonSettings) => void;
 }
 
-export function ComparisonView({ sarifs }: ComparisonViewProps) {
-  const [expandedCWEs, setExpandedCWEs] = useState<Record<string, boolean>>({});
+function ScoreCell({ score }: { score?: Score }) {
+  if (!score) {
+    return <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">—</td>;
+  }
+  const { tp, fp, fn, tn, precision, recall, f1 } = score;
+  return (
+    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900" title={`TP ${tp} · FP ${fp} · FN ${fn} · TN ${tn}`}>
+      {formatRatio(precision)} / {formatRatio(recall)} / {formatRatio(f1)}
+      <div className="text-xs font-normal text-gray-500">TP {tp} · FP {fp} · FN {fn}</div>
+    </td>
+  );
+}
 
-  const toggleCWE = (cwe: string) => {
-    setExpandedCWEs(prev => ({
-      ...prev,
-      [cwe]: !prev[cwe]
-    }));
-  };
+export function ComparisonView({
+  sarifs,
+  sourceFolder,
+  severityMappings,
+  ruleMapping,
+  onRuleMappingChange,
+  expandedCWEs,
+  onToggleCWE,
+  settings,
+  onSettingsChange,
+}: ComparisonViewProps) {
+  const { lineTolerance, grouping, minSeverity, groundTruth } = settings;
+  const [sarifMode, setSarifMode] = useState<MergedSarifMode>('runs');
+  const updateSettings = (changes: Partial<ComparisonSettings>) => onSettingsChange({ ...settings, ...changes });
 
-  const getCWEFromTags = (tags: string[]): string | null => {
-    const cweTag = tags.find(tag => tag.startsWith('CWE:') || tag.startsWith('CWE-'));
-    if (!cweTag) return null;
-    
-    const match = cweTag.match(/CWE[-:](\d+)/);
-    if (!match) return null;
-    return `CWE-${match[1]}`;
-  };
+  const matchOptions = useMemo(() => ({ lineTolerance }), [lineTolerance]);
+  const severityBreakdown = useMemo(() => getSeverityBreakdown(sarifs, severityMappings), [sarifs, severityMappings]);
+  const comparedInputs = useMemo(
+    () => filterInputsBySeverity(sarifs, minSeverity, severityMappings),
+    [sarifs, minSeverity, severityMappings]
+  );
+  const groupingOptions = useMemo(() => ({ ...grouping, ruleMapping }), [grouping, ruleMapping]);
+  const summary = useMemo(
+    () => compareInputs(comparedInputs, matchOptions, groupingOptions),
+    [comparedInputs, matchOptions, groupingOptions]
+  );
+  const scores = useMemo(
+    () => (groundTruth ? scoreInputs(comparedInputs, groundTruth.expected, matchOptions) : undefined),
+    [comparedInputs, groundTruth, matchOptions]
+  );
+  const { toolNames, groupLabel, cweGroups, cweNames, cwes, rows: summaryData, totals, matrix, meanSimilarity } = summary;
+  const headers = getComparisonHeaders(toolNames);
+  // Test case CWEs without a row, either unreported or hidden by the grouping, still count in the overall scores
+  const unlistedCWEs = scores?.cwes.filter(cwe => !summaryData.some(row => row.cwe === cwe)) ?? [];
 
-  const getRuleTags = (run: Run, ruleId: string): string[] => {
-    const rule = run.tool.driver.rules?.find(r => r.id === ruleId);
-    return rule?.properties?.tags || [];
+  const exportToExcel = () => {
+    const workbook = createComparisonWorkbook(summary, comparedInputs, { matchOptions, severityMappings, groundTruth: scores });
+    downloadFile(writeWorkbook(workbook), 'sarif-comparison.xlsx', XLSX_MIME_TYPE);
   };
 
-  // Group results by CWE for each SARIF
-  const groupByCWE = (results: Record<string, Result[]>, run: Run) => {
-    const cweGroups: Record<string, { ruleId: string; items: Result[] }[]> = {};
-    
-    Object.entries(results).forEach(([ruleId, items]) => {
-      const tags = getRuleTags(run, ruleId);
-      const cwe = getCWEFromTags(tags);
-      if (cwe) {
-        if (!cweGroups[cwe]) {
-          cweGroups[cwe] = [];
-        }
-        cweGroups[cwe].push({ ruleId, items });
-      }
-    });
-
-    return cweGroups;
+  const exportToSarif = () => {
+    const log = createMergedSarif(comparedInputs, summary, sarifMode, matchOptions);
+    downloadFile(JSON.stringify(log, null, 2), 'sarif-comparison.sarif', 'application/sarif+json');
   };
 
-  const cweGroups = sarifs.map(sarif => groupByCWE(sarif.results, sarif.run));
-  const toolNames = sarifs.map(sarif => sarif.run.tool.driver.name);
-
-  // Get all unique CWEs
-  const allCWEs = [...new Set(cweGroups.flatMap(group => Object.keys(group)))].sort();
-
-  // Calculate summary data
-  const summaryData = allCWEs.map(cwe => {
-    const findings = cweGroups.map(group => 
-      group[cwe]?.reduce((sum, { items }) => sum + items.length, 0) || 0
-    );
-    
-    // Calculate deltas between consecutive pairs
-    const deltas = findings.slice(1).map((count, i) => count - findings[i]);
-    
-    // Calculate overlap percentages comparing first SARIF with others
-    const overlaps = findings.slice(1).map(count => {
-      const firstCount = findings[0];
-      // If both counts are 0, return 0 instead of 100
-      if (firstCount === 0 && count === 0) {
-        return 0;
-      }
-      const overlap = Math.min(count, firstCount);
-      const total = Math.max(count, firstCount);
-      return total === 0 ? 0 : (overlap / total) * 100;
-    });
-
-    return {
-      cwe,
-      findings,
-      deltas,
-      overlaps
-    };
-  });
-
-  // Calculate average overlap percentages
-  const averageOverlaps = summaryData[0]?.overlaps.map((_, index) => {
-    const sum = summaryData.reduce((acc, data) => acc + data.overlaps[index], 0);
-    return summaryData.length > 0 ? sum / summaryData.length : 0;
-  }) || [];
-
-  const exportToExcel = () => {
-    const headers = toolNames.map(name => `${name} Findings`);
-    const deltaHeaders = toolNames.slice(1).map((name, i) => `Delta ${toolNames[i]} - ${name}`);
-    const overlapHeaders = toolNames.slice(1).map(name => `Overlap ${toolNames[0]} - ${name} %`);
-
-    const data = [
-      // Header row with tool names
-      [{
-        'Tools': toolNames.join(' vs '),
-        ...Array(headers.length + deltaHeaders.length + overlapHeaders.length - 1).fill('')
-      }],
-      // Empty row for spacing
-      [{}],
-      // Column headers
-      ['CWE', ...headers, ...deltaHeaders, ...overlapHeaders],
-      // Data rows
-      ...summaryData.map(({ cwe, findings, deltas, overlaps }) => [
-        cwe,
-        ...findings,
-        ...deltas,
-        ...overlaps.map(o => `${o.toFixed(1)}%`)
-      ]),
-      // Empty row before averages
-      [''],
-      // Average row
-      [
-        'Average',
-        ...Array(headers.length).fill(''),
-        ...Array(deltaHeaders.length).fill(''),
-        ...averageOverlaps.map(o => `${o.toFixed(1)}%`)
-      ]
-    ];
-
-    const ws = XLSX.utils.aoa_to_sheet(data);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'Comparison Summary');
-
-    // Auto-size columns
-    const colWidths = [15, ...Array(headers.length + deltaHeaders.length + overlapHeaders.length).fill(15)];
-    ws['!cols'] = colWidths.map(width => ({ width }));
-
-    // Set some basic styling
-    ws['!merges'] = [
-      { s: { r: 0, c: 0 }, e: { r: 0, c: headers.length + deltaHeaders.length + overlapHeaders.length } }
-    ];
-
-    XLSX.writeFile(wb, 'sarif-comparison.xlsx');
+  const exportReport = (format: 'html' | 'markdown') => {
+    const report = createComparisonReport(comparedInputs, summary, { matchOptions, severityMappings });
+    if (format === 'html') {
+      downloadFile(renderHtmlReport(report), 'sarif-comparison.html', 'text/html');
+    } else {
+      downloadFile(renderMarkdownReport(report), 'sarif-comparison.md', 'text/markdown');
+    }
   };
 
   return (
     <div className="space-y-4">
       <div className="bg-white shadow-md rounded-lg p-4 mb-6 overflow-x-auto">
-        <div className="grid grid-cols-3 gap-4 min-w-[600px]">
+        <div
+          className="grid gap-4 min-w-[600px]"
+          style={{ gridTemplateColumns: `repeat(${toolNames.length}, minmax(0, 1fr))` }}
+        >
           {toolNames.map((toolName, index) => (
             <div key={index}>
               <h2 className="text-lg font-semibold">Tool {index + 1}</h2>
@@ -155,17 +124,124 @@ export function ComparisonView({ sarifs }: ComparisonViewProps) {
         </div>
       </div>
 
+      <RuleMappingEditor inputs={sarifs} mapping={ruleMapping} onChange={onRuleMappingChange} />
+
+      <GroundTruthLoader value={groundTruth} onChange={value => updateSettings({ groundTruth: value })} />
+
+      {/* Severity Breakdown */}
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">Severity Breakdown</h2>
+            <p className="text-sm text-gray-500">
+              Normalized from <code>security-severity</code>, <code>rank</code>, <code>problem.severity</code> and levels
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Compare findings at
+            <select
+              value={minSeverity}
+              onChange={(e) => updateSettings({ minSeverity: e.target.value as NormalizedSeverity })}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {SEVERITIES.map(severity => (
+                <option key={severity} value={severity}>
+                  {severity === 'info' ? 'every severity' : `${severity} and above`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Severity
+                </th>
+                {sarifs.map((input, i) => (
+                  <th key={i} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {input.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {SEVERITIES.map(severity => (
+                <tr key={severity} className={isAtLeast(severity, minSeverity) ? '' : 'opacity-50'}>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <SeverityBadge severity={severity} />
+                  </td>
+                  {severityBreakdown.map((counts, i) => (
+                    <td key={i} className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {counts[severity]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       {/* Summary Table */}
       <div className="bg-white shadow-md rounded-lg overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
           <h2 className="text-lg font-semibold">Comparison Summary</h2>
-          <button
-            onClick={exportToExcel}
-            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-          >
-            <Download className="w-4 h-4 mr-2" />
-            Export to Excel
-          </button>
+          <div className="flex flex-wrap items-center gap-4">
+            <GroupingControls value={grouping} onChange={value => updateSettings({ grouping: value })} cwes={cwes} />
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Line tolerance
+              <input
+                type="number"
+                min={0}
+                value={lineTolerance}
+                onChange={(e) => updateSettings({ lineTolerance: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <button
+              onClick={exportToExcel}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export to Excel
+            </button>
+            <div className="inline-flex rounded-md shadow-sm">
+              <select
+                value={sarifMode}
+                onChange={(e) => setSarifMode(e.target.value as MergedSarifMode)}
+                title="Structure of the exported SARIF log"
+                className="px-2 py-2 border border-gray-300 rounded-l-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="runs">One run per tool</option>
+                <option value="deduplicated">Deduplicated run</option>
+              </select>
+              <button
+                onClick={exportToSarif}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-r-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export SARIF
+              </button>
+            </div>
+            <button
+              onClick={() => exportReport('html')}
+              title="Single-file HTML report"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              HTML
+            </button>
+            <button
+              onClick={() => exportReport('markdown')}
+              title="Compact Markdown report for a pull request comment"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              Markdown
+            </button>
+          </div>
         </div>
         <div className="overflow-x-auto">
           <div className="min-w-[1000px]">
@@ -173,7 +249,7 @@ export function ComparisonView({ sarifs }: ComparisonViewProps) {
               <thead className="bg-gray-50">
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    CWE
+                    {groupLabel}
                   </th>
                   {toolNames.map((name, i) => (
                     <th key={`findings-${i}`} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
@@ -185,20 +261,27 @@ export function ComparisonView({ sarifs }: ComparisonViewProps) {
                       Delta {toolNames[i]} - {name}
                     </th>
                   ))}
-                  {toolNames.slice(1).map((name) => (
-                    <th key={`overlap-${name}`} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Overlap {toolNames[0]} - {name}
+                  {headers.overlaps.map((header, i) => (
+                    <th key={`overlap-${i}`} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {header}
+                    </th>
+                  ))}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {headers.similarity.replace(/ %$/, '')}
+                  </th>
+                  {scores && toolNames.map((name, i) => (
+                    <th key={`score-${i}`} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {name} Precision / Recall / F1
                     </th>
                   ))}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {summaryData.map(({ cwe, findings, deltas, overlaps }) => (
+                {summaryData.map(({ cwe, findings, deltas, matrix: cweMatrix, meanSimilarity: cweSimilarity }) => (
                   <tr key={cwe}>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                        {cwe}
-                      </span>
+                    <td className="px-6 py-4">
+                      <CWEBadge cwe={cwe} name={cweNames[cwe]} />
+                      {cweNames[cwe] && <div className="mt-1 text-xs text-gray-500">{cweNames[cwe]}</div>}
                     </td>
                     {findings.map((count, i) => (
                       <td key={`findings-${i}`} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -216,46 +299,80 @@ export function ComparisonView({ sarifs }: ComparisonViewProps) {
                         </span>
                       </td>
                     ))}
-                    {overlaps.map((overlap, i) => (
+                    {getOverlapCounts(cweMatrix).map((count, i) => (
                       <td key={`overlap-${i}`} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {overlap.toFixed(1)}%
+                        {count}
                       </td>
                     ))}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {cweSimilarity.toFixed(1)}%
+                    </td>
+                    {scores?.inputs.map((input, i) => (
+                      <ScoreCell key={`score-${i}`} score={input.byCWE[cwe]} />
+                    ))}
                   </tr>
                 ))}
-                {/* Average Overlap Row */}
+                {/* Totals and Overall Similarity Row */}
                 <tr className="bg-gray-50 font-semibold">
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    Average
+                    Total / Overall
                   </td>
-                  {toolNames.map((_, i) => (
-                    <td key={`avg-findings-${i}`} className="px-6 py-4"></td>
+                  {totals.map((total, i) => (
+                    <td key={`total-findings-${i}`} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {total}
+                    </td>
                   ))}
                   {toolNames.slice(1).map((_, i) => (
-                    <td key={`avg-delta-${i}`} className="px-6 py-4"></td>
+                    <td key={`total-delta-${i}`} className="px-6 py-4"></td>
                   ))}
-                  {averageOverlaps.map((overlap, i) => (
-                    <td key={`avg-overlap-${i}`} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {overlap.toFixed(1)}%
+                  {getOverlapCounts(matrix).map((count, i) => (
+                    <td key={`total-overlap-${i}`} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {count}
                     </td>
                   ))}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {meanSimilarity.toFixed(1)}%
+                  </td>
+                  {scores?.inputs.map((input, i) => (
+                    <ScoreCell key={`score-${i}`} score={input.overall} />
+                  ))}
                 </tr>
               </tbody>
             </table>
           </div>
         </div>
+        {unlistedCWEs.length > 0 && (
+          <p className="px-6 py-3 border-t border-gray-200 text-xs text-gray-500">
+            Test cases of {unlistedCWEs.join(', ')} have no row above; they are only part of the overall scores.
+          </p>
+        )}
+      </div>
+
+      {/* Overall Similarity Matrix */}
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold">Pairwise Similarity</h2>
+          <p className="text-sm text-gray-500">
+            Matched findings divided by all findings reported by either tool (Jaccard), over all groups
+          </p>
+        </div>
+        <div className="p-4">
+          <SimilarityMatrixTable toolNames={toolNames} matrix={matrix} />
+        </div>
       </div>
 
-      {allCWEs.map(cwe => {
+      {summaryData.map(({ cwe, matrix: cweMatrix }) => {
         const isExpanded = expandedCWEs[cwe];
         const findingCounts = cweGroups.map(group => 
           group[cwe]?.reduce((sum, { items }) => sum + items.length, 0) || 0
         );
+        const resultsByTool = isExpanded ? cweGroups.map(group => getCWEResults(group, cwe)) : [];
+        const hasCodeFlows = resultsByTool.some(results => results.some(result => countFlowSteps(result) > 0));
         
         return (
           <div key={cwe} className="bg-white shadow-md rounded-lg overflow-hidden">
             <button
-              onClick={() => toggleCWE(cwe)}
+              onClick={() => onToggleCWE(cwe)}
               className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 focus:outline-none overflow-x-auto"
             >
               <div className="flex items-center">
@@ -264,8 +381,8 @@ export function ComparisonView({ sarifs }: ComparisonViewProps) {
                 ) : (
                   <ChevronRight className="w-5 h-5 text-gray-500 mr-2" />
                 )}
-                <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800 mr-2">
-                  {cwe}
+                <span className="mr-2">
+                  <CWEBadge cwe={cwe} name={cweNames[cwe]} large />
                 </span>
               </div>
               <div className="flex items-center space-x-4 min-w-[600px]">
@@ -294,24 +411,45 @@ export function ComparisonView({ sarifs }: ComparisonViewProps) {
 
             {isExpanded && (
               <div className="border-t border-gray-200 overflow-x-auto">
-                <div className="grid grid-cols-3 divide-x divide-gray-200 min-w-[800px]">
+                <div
+                  className="grid divide-x divide-gray-200"
+                  style={{
+                    gridTemplateColumns: `repeat(${toolNames.length}, minmax(0, 1fr))`,
+                    minWidth: `${toolNames.length * 220}px`
+                  }}
+                >
                   {cweGroups.map((group, index) => (
                     <div key={index} className="p-4">
                       <h3 className="text-lg font-semibold mb-4">{toolNames[index]} Findings</h3>
                       {group[cwe]?.map(({ ruleId, items }) => (
                         <div key={ruleId} className="mb-4">
-                          <h4 className="text-md font-medium mb-2">Rule: {ruleId}</h4>
+                          <h4 className="text-md font-medium mb-2">Rule: <RuleLink ruleId={ruleId} run={comparedInputs[index]?.run} /></h4>
                           <p className="text-sm text-gray-600 mb-2">
                             {items.length} {items.length === 1 ? 'finding' : 'findings'}
                           </p>
                         </div>
                       ))}
                       {!group[cwe] && (
-                        <p className="text-sm text-gray-500">No findings for this CWE</p>
+                        <p className="text-sm text-gray-500">No findings in this group</p>
                       )}
                     </div>
                   ))}
                 </div>
+                <div className="border-t border-gray-200 p-4">
+                  <h3 className="text-md font-semibold mb-2">Pairwise Similarity for {cwe}</h3>
+                  <SimilarityMatrixTable toolNames={toolNames} matrix={cweMatrix} />
+                </div>
+                {hasCodeFlows && (
+                  <div className="border-t border-gray-200 p-4">
+                    <h3 className="text-md font-semibold mb-2">Code Flows for {cwe}</h3>
+                    <FlowComparison
+                      toolNames={toolNames}
+                      resultsByTool={resultsByTool}
+                      options={matchOptions}
+                      sourceFolder={sourceFolder}
+                    />
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, FileText, Folder, FolderTree } from 'lucide-react';
+import {
+  buildDirectoryTree,
+  getNodeGlob,
+  getNodeTotal,
+  getTopCWEs,
+  sumNodeCounts,
+  type DirectoryNode,
+} from '../lib/directoryTree';
+import type { SarifInput } from '../lib/runs';
+import { SEVERITIES, type NormalizedSeverity, type SeverityMappings } from '../lib/severity';
+
+interface DirectoryHeatmapProps {
+  inputs: SarifInput[];
+  severityMappings: SeverityMappings;
+  /** Path globs of the include filter; nodes whose glob is among them are selected. */
+  selectedGlobs: string[];
+  /** Called with the glob of a clicked node, to add it to or remove it from the include filter. */
+  onToggleGlob: (glob: string) => void;
+}
+
+const SEVERITY_BAR_CLASSES: Record<NormalizedSeverity, string> = {
+  critical: 'bg-red-800',
+  high: 'bg-red-500',
+  medium: 'bg-yellow-400',
+  low: 'bg-blue-500',
+  info: 'bg-gray-400',
+};
+
+function Delta({ value }: { value: number }) {
+  if (value === 0) return null;
+  return (
+    <span className={`ml-1 text-xs ${value > 0 ? 'text-red-600' : 'text-green-600'}`}>
+      {value > 0 ? `+${value}` : `−${-value}`}
+    </span>
+  );
+}
+
+interface TreeRowsProps {
+  nodes: DirectoryNode[];
+  depth: number;
+  maxTotal: number;
+  isComparison: boolean;
+  expanded: Set<string>;
+  onToggle: (path: string) => void;
+  selectedGlobs: string[];
+  onToggleGlob: (glob: string) => void;
+}
+
+function TreeRows({ nodes, depth, maxTotal, isComparison, expanded, onToggle, selectedGlobs, onToggleGlob }: TreeRowsProps) {
+  return (
+    <>
+      {nodes.map(node => {
+        const key = `${node.isFile ? 'file' : 'dir'}:${node.path}`;
+        const isOpen = expanded.has(node.path) && !node.isFile;
+        const glob = getNodeGlob(node);
+        const isSelected = selectedGlobs.includes(glob);
+        const total = sumNodeCounts(node);
+        const baseline = node.counts[0]?.total ?? 0;
+
+        return (
+          <React.Fragment key={key}>
+            <tr className={isSelected ? 'bg-indigo-50' : 'hover:bg-gray-50'}>
+              <td className="py-1 pr-4 whitespace-nowrap" style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}>
+                <span className="inline-flex items-center">
+                  {node.isFile ? (
+                    <span className="w-4 mr-1" />
+                  ) : (
+                    <button
+                      onClick={() => onToggle(node.path)}
+                      title={isOpen ? 'Collapse' : 'Expand'}
+                      className="w-4 mr-1 text-gray-500 hover:text-gray-800"
+                    >
+                      {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </button>
+                  )}
+                  {node.isFile
+                    ? <FileText className="w-4 h-4 mr-1 text-gray-400" />
+                    : <Folder className="w-4 h-4 mr-1 text-indigo-400" />}
+                  <button
+                    onClick={() => onToggleGlob(glob)}
+                    title={isSelected ? `Remove ${node.path} from the include filter` : `Add ${node.path} to the include filter`}
+                    className={`font-mono text-sm hover:underline ${isSelected ? 'text-indigo-700 font-semibold' : 'text-gray-900'}`}
+                  >
+                    {node.name}
+                  </button>
+                </span>
+              </td>
+              <td className="py-1 px-2 w-48">
+                <div
+                  className="flex h-3 rounded overflow-hidden bg-gray-100"
+                  title={SEVERITIES.filter(s => total.severities[s] > 0).map(s => `${s}: ${total.severities[s]}`).join(', ')}
+                >
+                  {SEVERITIES.map(severity => (
+                    <div
+                      key={severity}
+                      className={SEVERITY_BAR_CLASSES[severity]}
+                      style={{ width: `${(total.severities[severity] / maxTotal) * 100}%` }}
+                    />
+                  ))}
+                </div>
+              </td>
+              {isComparison ? (
+                node.counts.map((counts, index) => (
+                  <td key={index} className="py-1 px-2 text-sm text-right text-gray-900 whitespace-nowrap">
+                    {counts.total}
+                    {index > 0 && <Delta value={counts.total - baseline} />}
+                  </td>
+                ))
+              ) : (
+                <td className="py-1 px-2 text-sm text-right text-gray-900">{total.total}</td>
+              )}
+              <td className="py-1 pl-2 text-xs text-gray-500 whitespace-nowrap">
+                {getTopCWEs(total).map(([cwe, count]) => `${cwe} (${count})`).join(', ')}
+              </td>
+            </tr>
+            {isOpen && (
+              <TreeRows
+                nodes={node.children}
+                depth={depth + 1}
+                maxTotal={maxTotal}
+                isComparison={isComparison}
+                expanded={expanded}
+                onToggle={onToggle}
+                selectedGlobs={selectedGlobs}
+                onToggleGlob={onToggleGlob}
+              />
+            )}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+/** Collapsible directory tree of where findings cluster, with per-tool counts when comparing. */
+export function DirectoryHeatmap({ inputs, severityMappings, selectedGlobs, onToggleGlob }: DirectoryHeatmapProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const tree = useMemo(
+    () => (isOpen ? buildDirectoryTree(inputs, severityMappings) : null),
+    [isOpen, inputs, severityMappings]
+  );
+  const isComparison = inputs.length > 1;
+  const unlocated = tree ? tree.unlocated.reduce((sum, count) => sum + count, 0) : 0;
+  // Bars are scaled to the largest top-level node so they stay readable
+  const maxTotal = tree ? Math.max(1, ...tree.root.children.map(getNodeTotal)) : 1;
+
+  const toggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-3 flex items-center text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4 mr-2" /> : <ChevronRight className="w-4 h-4 mr-2" />}
+        <FolderTree className="w-4 h-4 mr-2" />
+        Directory heatmap
+        {selectedGlobs.length > 0 && (
+          <span className="ml-2 text-xs text-indigo-600 font-mono">{selectedGlobs.join(', ')}</span>
+        )}
+      </button>
+
+      {isOpen && tree && (
+        <div className="border-t border-gray-200 px-6 py-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500">
+            {SEVERITIES.map(severity => (
+              <span key={severity} className="inline-flex items-center capitalize">
+                <span className={`w-3 h-3 mr-1 rounded-sm ${SEVERITY_BAR_CLASSES[severity]}`} />
+                {severity}
+              </span>
+            ))}
+            <span>Click a path to add it to the include filter of the other views.</span>
+            {unlocated > 0 && <span>{unlocated} findings without a location are not shown.</span>}
+          </div>
+
+          {tree.root.children.length === 0 ? (
+            <p className="text-sm text-gray-500">No findings have an artifact location.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <th className="py-2 pr-4">Path</th>
+                    <th className="py-2 px-2">Severity</th>
+                    {isComparison ? (
+                      inputs.map((input, index) => (
+                        <th key={index} className="py-2 px-2 text-right normal-case" title={index > 0 ? `Delta against ${inputs[0].label}` : undefined}>
+                          {input.label}
+                        </th>
+                      ))
+                    ) : (
+                      <th className="py-2 px-2 text-right">Findings</th>
+                    )}
+                    <th className="py-2 pl-2">Top CWEs</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <TreeRows
+                    nodes={tree.root.children}
+                    depth={0}
+                    maxTotal={maxTotal}
+                    isComparison={isComparison}
+                    expanded={expanded}
+                    onToggle={toggle}
+                    selectedGlobs={selectedGlobs}
+                    onToggleGlob={onToggleGlob}
+                  />
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,96 @@
-import React, { useCallback } from 'react';
-import { Upload } from 'lucide-react';
+import React, { useCallback, useState } from 'react';
+import { AlertTriangle, Loader2, Upload, X, XCircle } from 'lucide-react';
+import type { SarifLog } from '../types/sarif';
+import type { RunIndex } from '../lib/indexing';
+import type { ValidationIssue } from '../lib/validation';
+import { ParseCancelledError, parseSarifFile, type ParseProgress } from '../utils/parseSarifFile';
+import { isSessionFileName, SESSION_EXTENSION } from '../utils/session';
 
 interface FileUploadProps {
-  onFileUpload: (content: any) => void;
+  onFileUpload: (content: SarifLog, fileName: string, indexes: RunIndex[]) => void;
+  /** Restores a saved session; files named `*.sarifcompare.json` are passed here instead of parsed as SARIF. */
+  onSessionUpload?: (file: File) => Promise<void>;
   label?: string;
 }
 
-export function FileUpload({ onFileUpload, label = "Click to upload SARIF file" }: FileUploadProps) {
+interface FileReport {
+  fileName: string;
+  /** Heading shown instead of the SARIF validation heading. */
+  title?: string;
+  issues: ValidationIssue[];
+  log?: SarifLog;
+  indexes?: RunIndex[];
+}
+
+interface PendingFile {
+  id: number;
+  fileName: string;
+  progress?: ParseProgress;
+  cancel: () => void;
+}
+
+let nextPendingId = 0;
+
+const MAX_VISIBLE_ISSUES = 100;
+
+export function FileUpload({ onFileUpload, onSessionUpload, label = "Click to upload SARIF file" }: FileUploadProps) {
+  const [reports, setReports] = useState<FileReport[]>([]);
+  const [pending, setPending] = useState<PendingFile[]>([]);
+
+  const removeReport = (report: FileReport) => setReports(prev => prev.filter(r => r !== report));
+
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = JSON.parse(e.target?.result as string);
-        onFileUpload(content);
-      } catch (error) {
-        alert('Error parsing SARIF file. Please ensure it\'s a valid JSON file.');
+    const files = Array.from(event.target.files || []);
+    // Allow selecting the same file again after fixing it
+    event.target.value = '';
+
+    files.forEach(file => {
+      if (onSessionUpload && isSessionFileName(file.name)) {
+        onSessionUpload(file).catch(error => {
+          setReports(prev => [...prev, {
+            fileName: file.name,
+            title: `${file.name} could not be restored`,
+            issues: [{ path: '$', message: (error as Error).message, severity: 'error' }]
+          }]);
+        });
+        return;
       }
-    };
-    reader.readAsText(file);
-  }, [onFileUpload]);
+
+      const id = nextPendingId++;
+      const updatePending = (progress: ParseProgress) =>
+        setPending(prev => prev.map(p => (p.id === id ? { ...p, progress } : p)));
+      const { promise, cancel } = parseSarifFile(file, updatePending);
+      setPending(prev => [...prev, { id, fileName: file.name, cancel }]);
+
+      promise
+        .then(({ report: { issues, log }, indexes }) => {
+          if (log && issues.length === 0) {
+            onFileUpload(log, file.name, indexes);
+          } else {
+            setReports(prev => [...prev, { fileName: file.name, issues, log, indexes }]);
+          }
+        })
+        .catch(error => {
+          if (error instanceof ParseCancelledError) return;
+          setReports(prev => [...prev, {
+            fileName: file.name,
+            issues: [{ path: '$', message: `Invalid JSON: ${(error as Error).message}`, severity: 'error' }]
+          }]);
+        })
+        .finally(() => setPending(prev => prev.filter(p => p.id !== id)));
+    });
+  }, [onFileUpload, onSessionUpload]);
+
+  const loadWithWarnings = (report: FileReport) => {
+    if (report.log) {
+      onFileUpload(report.log, report.fileName, report.indexes || []);
+      removeReport(report);
+    }
+  };
 
   return (
     <div className="w-full max-w-xl mx-auto p-6">
-      <label 
-        htmlFor="file-upload"
+      <label
         className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100"
       >
         <div className="flex flex-col items-center justify-center pt-5 pb-6">
@@ -34,16 +98,113 @@ export function FileUpload({ onFileUpload, label = "Click to upload SARIF file"
           <p className="mb-2 text-sm text-gray-500">
             <span className="font-semibold">{label}</span> or drag and drop
           </p>
-          <p className="text-xs text-gray-500">SARIF file (.json)</p>
+          <p className="text-xs text-gray-500">
+            SARIF file (.json){onSessionUpload && ` or saved session (${SESSION_EXTENSION})`}
+          </p>
         </div>
         <input
-          id="file-upload"
           type="file"
           accept=".json,.sarif"
+          multiple
           className="hidden"
           onChange={handleFileChange}
         />
       </label>
+
+      {pending.map(({ id, fileName, progress, cancel }) => {
+        const percentage = progress && progress.total > 0 ? (progress.loaded / progress.total) * 100 : 0;
+        return (
+          <div key={id} className="mt-4 rounded-lg border border-indigo-100 bg-white shadow-sm px-4 py-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2 min-w-0">
+                <Loader2 className="w-4 h-4 text-indigo-500 animate-spin shrink-0" />
+                <span className="text-sm font-medium text-gray-900 truncate">{fileName}</span>
+              </div>
+              <button
+                onClick={cancel}
+                title="Cancel"
+                className="p-1 rounded-md text-gray-500 hover:bg-gray-100"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="mt-2 h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percentage}%` }} />
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              {percentage.toFixed(0)}% read · {progress?.resultCount ?? 0} results so far
+            </p>
+            {progress && progress.topRules.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {progress.topRules.map(([ruleId, count]) => (
+                  <span key={ruleId} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    {ruleId}: {count}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {reports.map((report, reportIndex) => {
+        const errorCount = report.issues.filter(issue => issue.severity === 'error').length;
+        const warningCount = report.issues.length - errorCount;
+
+        return (
+          <div key={reportIndex} className={`mt-4 rounded-lg border ${errorCount > 0 ? 'border-red-200 bg-red-50' : 'border-yellow-200 bg-yellow-50'}`}>
+            <div className="px-4 py-3 flex items-start justify-between gap-4">
+              <div>
+                <h3 className={`text-sm font-semibold ${errorCount > 0 ? 'text-red-800' : 'text-yellow-800'}`}>
+                  {report.title ?? (errorCount > 0
+                    ? `${report.fileName} is not a valid SARIF 2.1.0 log`
+                    : `${report.fileName} can be loaded with warnings`)}
+                </h3>
+                <p className="text-xs text-gray-600 mt-1">
+                  {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+                  {' '}· checked against the SARIF 2.1.0 schema; only problems in parts this app reads block loading
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {errorCount === 0 && (
+                  <button
+                    onClick={() => loadWithWarnings(report)}
+                    className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+                  >
+                    Load with warnings
+                  </button>
+                )}
+                <button
+                  onClick={() => removeReport(report)}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+            <ul className="max-h-64 overflow-y-auto border-t border-gray-200 divide-y divide-gray-200 bg-white">
+              {report.issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+                <li key={index} className="px-4 py-2 flex items-start gap-2">
+                  {issue.severity === 'error' ? (
+                    <XCircle className="w-4 h-4 mt-0.5 text-red-500 shrink-0" />
+                  ) : (
+                    <AlertTriangle className="w-4 h-4 mt-0.5 text-yellow-500 shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <code className="block text-xs text-gray-500 break-all">{issue.path}</code>
+                    <span className="text-sm text-gray-900">{issue.message}</span>
+                  </div>
+                </li>
+              ))}
+              {report.issues.length > MAX_VISIBLE_ISSUES && (
+                <li className="px-4 py-2 text-xs text-gray-500">
+                  and {report.issues.length - MAX_VISIBLE_ISSUES} more
+                </li>
+              )}
+            </ul>
+          </div>
+        );
+      })}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { Filter, Search, X } from 'lucide-react';
+import { createCWEResolver, compareCWEs, normalizeCWE, UNMAPPED_CWE } from '../lib/cwe';
+import { EMPTY_FILTER, isFilterActive, type ResultFilter } from '../lib/filters';
+import type { SarifInput } from '../lib/runs';
+import { SEVERITIES, type NormalizedSeverity } from '../lib/severity';
+
+interface FilterBarProps {
+  /** Unfiltered inputs, to suggest rules, CWEs and tags. */
+  inputs: SarifInput[];
+  filter: ResultFilter;
+  onChange: (filter: ResultFilter) => void;
+  matchedCount: number;
+  totalCount: number;
+}
+
+interface ChipInputProps {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  suggestions?: string[];
+  placeholder?: string;
+  /** Cleans up a typed value, e.g. `79` to `CWE-79`. */
+  normalize?: (value: string) => string;
+}
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+function ChipInput({ label, values, onChange, suggestions, placeholder, normalize }: ChipInputProps) {
+  const [draft, setDraft] = useState('');
+  const listId = `filter-${label.toLowerCase().replace(/\W+/g, '-')}`;
+
+  const add = () => {
+    const value = normalize && draft.trim() ? normalize(draft.trim()) : draft.trim();
+    if (value && !values.includes(value)) {
+      onChange([...values, value]);
+    }
+    setDraft('');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault();
+      add();
+    } else if (event.key === 'Backspace' && !draft && values.length > 0) {
+      onChange(values.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="text-xs font-medium text-gray-500 uppercase tracking-wider mr-1">{label}</span>
+      {values.map(value => (
+        <span key={value} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+          {value}
+          <button
+            onClick={() => onChange(values.filter(v => v !== value))}
+            title={`Remove ${value}`}
+            className="ml-1 text-indigo-500 hover:text-indigo-800"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={add}
+        list={suggestions ? listId : undefined}
+        placeholder={placeholder}
+        className={`${inputClassName} w-36`}
+      />
+      {suggestions && (
+        <datalist id={listId}>
+          {suggestions.map(suggestion => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+      )}
+    </div>
+  );
+}
+
+/** Filters every view by rule, CWE, severity, tag, path and message text. */
+export function FilterBar({ inputs, filter, onChange, matchedCount, totalCount }: FilterBarProps) {
+  const suggestions = useMemo(() => {
+    const ruleIds = new Set<string>();
+    const cwes = new Set<string>();
+    const tags = new Set<string>();
+    inputs.forEach(({ run, results, index }) => {
+      const resolver = createCWEResolver(run, index.cweByRule);
+      Object.keys(results).forEach(ruleId => {
+        ruleIds.add(ruleId);
+        const ruleCWEs = resolver.getRuleCWEs(ruleId);
+        (ruleCWEs.length > 0 ? ruleCWEs : [UNMAPPED_CWE]).forEach(cwe => cwes.add(cwe));
+      });
+      run.tool.driver.rules?.forEach(rule => rule.properties?.tags?.forEach(tag => tags.add(tag)));
+    });
+    return {
+      ruleIds: [...ruleIds].sort(),
+      cwes: [...cwes].sort(compareCWEs),
+      tags: [...tags].sort(),
+    };
+  }, [inputs]);
+
+  const update = (patch: Partial<ResultFilter>) => onChange({ ...filter, ...patch });
+
+  const toggleSeverity = (severity: NormalizedSeverity) => {
+    update({
+      severities: filter.severities.includes(severity)
+        ? filter.severities.filter(s => s !== severity)
+        : SEVERITIES.filter(s => s === severity || filter.severities.includes(s)),
+    });
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg px-6 py-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <Filter className="w-4 h-4 text-gray-500" />
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={filter.text}
+            onChange={(e) => update({ text: e.target.value })}
+            placeholder="Search messages"
+            className={`${inputClassName} w-full pl-8`}
+          />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {SEVERITIES.map(severity => (
+            <button
+              key={severity}
+              onClick={() => toggleSeverity(severity)}
+              className={`px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${
+                filter.severities.includes(severity)
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {severity}
+            </button>
+          ))}
+        </div>
+        <span className="text-sm text-gray-600 whitespace-nowrap">
+          {isFilterActive(filter) ? `${matchedCount} of ${totalCount} findings` : `${totalCount} findings`}
+        </span>
+        {isFilterActive(filter) && (
+          <button
+            onClick={() => onChange(EMPTY_FILTER)}
+            className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        <ChipInput label="Rule" values={filter.ruleIds} onChange={ruleIds => update({ ruleIds })} suggestions={suggestions.ruleIds} />
+        <ChipInput
+          label="CWE"
+          values={filter.cwes}
+          onChange={cwes => update({ cwes })}
+          suggestions={suggestions.cwes}
+          normalize={value => normalizeCWE(value, true) ?? value}
+        />
+        <ChipInput label="Tag" values={filter.tags} onChange={tags => update({ tags })} suggestions={suggestions.tags} />
+        <ChipInput label="Include" values={filter.include} onChange={include => update({ include })} placeholder="src/**" />
+        <ChipInput label="Exclude" values={filter.exclude} onChange={exclude => update({ exclude })} placeholder="test/**" />
+      </div>
+    </div>
+  );
+}
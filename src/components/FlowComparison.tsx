@@ -0,0 +1,120 @@
+import { useMemo, useState } from 'react';
+import type { Result } from '../types/sarif';
+import {
+  PATH_AGREEMENT_LABELS,
+  compareResultFlows,
+  countFlowSteps,
+  formatLocation,
+  type PathAgreement,
+} from '../lib/codeFlows';
+import { matchResults, type MatchOptions } from '../lib/matching';
+import { hasEmbeddedSnippet } from '../lib/snippets';
+import type { SourceFolder } from '../utils/sourceFolder';
+import { CodeFlowViewer } from './CodeFlowViewer';
+import { SourceSnippetView } from './SourceSnippetView';
+
+interface FlowComparisonProps {
+  toolNames: string[];
+  /** Results of one CWE, per input. */
+  resultsByTool: Result[][];
+  options: MatchOptions;
+  sourceFolder?: SourceFolder | null;
+}
+
+const agreementStyles: Record<PathAgreement, string> = {
+  same: 'bg-green-100 text-green-800',
+  sameEndpoints: 'bg-green-50 text-green-700',
+  sameSink: 'bg-yellow-100 text-yellow-800',
+  different: 'bg-red-100 text-red-800',
+  missing: 'bg-gray-100 text-gray-700',
+};
+
+const MAX_VISIBLE_PAIRS = 50;
+
+/** Side-by-side code flows of findings two tools both reported. */
+export function FlowComparison({ toolNames, resultsByTool, options, sourceFolder }: FlowComparisonProps) {
+  const [indexA, setIndexA] = useState(0);
+  const [indexB, setIndexB] = useState(1);
+
+  const pairs = useMemo(() => {
+    const { matched } = matchResults(resultsByTool[indexA] || [], resultsByTool[indexB] || [], options);
+    return matched
+      .filter(([a, b]) => countFlowSteps(a) > 0 || countFlowSteps(b) > 0)
+      .map(([a, b]) => ({ a, b, comparison: compareResultFlows(a, b, options) }));
+  }, [resultsByTool, indexA, indexB, options]);
+
+  const agreementCounts = pairs.reduce((acc, { comparison }) => {
+    acc[comparison.agreement] = (acc[comparison.agreement] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<PathAgreement, number>>);
+
+  const ToolSelect = ({ value, onChange }: { value: number; onChange: (index: number) => void }) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+    >
+      {toolNames.map((name, index) => (
+        <option key={index} value={index}>{name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        Compare
+        <ToolSelect value={indexA} onChange={setIndexA} />
+        with
+        <ToolSelect value={indexB} onChange={setIndexB} />
+        {(Object.keys(agreementCounts) as PathAgreement[]).map(agreement => (
+          <span key={agreement} className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${agreementStyles[agreement]}`}>
+            {PATH_AGREEMENT_LABELS[agreement]}: {agreementCounts[agreement]}
+          </span>
+        ))}
+      </div>
+
+      {indexA === indexB ? (
+        <p className="text-sm text-gray-500">Pick two different tools</p>
+      ) : pairs.length === 0 ? (
+        <p className="text-sm text-gray-500">No matched findings with code flows</p>
+      ) : (
+        <ul className="space-y-3">
+          {pairs.slice(0, MAX_VISIBLE_PAIRS).map(({ a, b, comparison }, index) => (
+            <li key={`${indexA}-${indexB}-${index}`} className="border border-gray-200 rounded-lg overflow-hidden">
+              <div className="px-4 py-2 bg-gray-50 flex flex-wrap items-center gap-2">
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${agreementStyles[comparison.agreement]}`}>
+                  {PATH_AGREEMENT_LABELS[comparison.agreement]}
+                </span>
+                {comparison.agreement !== 'missing' && (
+                  <span className="text-xs text-gray-500">{comparison.sharedSteps} shared steps</span>
+                )}
+                <code className="text-xs text-gray-600 break-all">{formatLocation(a.locations?.[0])}</code>
+              </div>
+              <div className="grid grid-cols-2 divide-x divide-gray-200">
+                {[a, b].map((result, side) => (
+                  <div key={side} className="p-4 min-w-0">
+                    <h5 className="text-sm font-semibold mb-1">{toolNames[side === 0 ? indexA : indexB]}</h5>
+                    <p className="text-xs text-gray-500 mb-2">{result.ruleId}: {result.message.text}</p>
+                    {(sourceFolder || hasEmbeddedSnippet(result.locations?.[0])) && (
+                      <div className="mb-3">
+                        <SourceSnippetView location={result.locations?.[0]} sourceFolder={sourceFolder} />
+                      </div>
+                    )}
+                    <CodeFlowViewer
+                      result={result}
+                      initialFlow={side === 0 ? comparison.flowIndexA : comparison.flowIndexB}
+                    />
+                  </div>
+                ))}
+              </div>
+            </li>
+          ))}
+          {pairs.length > MAX_VISIBLE_PAIRS && (
+            <li className="text-xs text-gray-500">and {pairs.length - MAX_VISIBLE_PAIRS} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Target, Upload, X } from 'lucide-react';
+import { parseGroundTruth } from '../lib/groundTruth';
+import type { LoadedGroundTruth } from '../utils/session';
+
+interface GroundTruthLoaderProps {
+  value: LoadedGroundTruth | null;
+  onChange: (value: LoadedGroundTruth | null) => void;
+}
+
+/** Loads an expected-results file to score the compared tools with. */
+export function GroundTruthLoader({ value, onChange }: GroundTruthLoaderProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onChange({ fileName: file.name, expected: parseGroundTruth(await file.text(), file.name) });
+      setError(null);
+    } catch (err) {
+      setError(`Could not load ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg px-6 py-3 flex flex-wrap items-center gap-3 text-sm">
+      <Target className="w-4 h-4 text-gray-500" />
+      <span className="font-medium text-gray-700">Ground truth</span>
+      {value ? (
+        <>
+          <span className="text-gray-600">
+            {value.fileName} · {value.expected.length} test {value.expected.length === 1 ? 'case' : 'cases'}
+          </span>
+          <button
+            onClick={() => onChange(null)}
+            title="Stop scoring against these expected results"
+            className="p-1 rounded-md text-gray-500 hover:bg-gray-100"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </>
+      ) : (
+        <span className="text-xs text-gray-500">
+          Load an OWASP Benchmark <code>expectedresults</code> CSV, or a CSV or JSON with file, line, cwe and real
+          columns, to score each tool's precision and recall per CWE.
+        </span>
+      )}
+      <label className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+        <Upload className="w-4 h-4 mr-2" />
+        {value ? 'Replace' : 'Load expected results'}
+        <input type="file" accept=".csv,.json" className="hidden" onChange={handleLoad} />
+      </label>
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
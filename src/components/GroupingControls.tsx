@@ -0,0 +1,77 @@
+import { useMemo } from 'react';
+import { formatCWE } from '../lib/cwe';
+import { CWE_NAMES } from '../lib/cweHierarchy';
+import { GROUPING_LABELS, getRollUpCategories, type GroupingMode, type GroupingOptions, type RollUp } from '../lib/grouping';
+
+interface GroupingControlsProps {
+  value: GroupingOptions;
+  onChange: (value: GroupingOptions) => void;
+  /** CWEs found in the inputs, before grouping. */
+  cwes: string[];
+  modes?: GroupingMode[];
+}
+
+const ALL_MODES = Object.keys(GROUPING_LABELS) as GroupingMode[];
+
+const ROLL_UP_DEPTHS = [
+  { depth: 0, label: 'Pillar' },
+  { depth: 1, label: 'Depth 1' },
+  { depth: 2, label: 'Depth 2' },
+  { depth: 3, label: 'Depth 3' },
+];
+
+const toRollUpValue = (rollUp: RollUp): string =>
+  rollUp.kind === 'depth' ? `depth:${rollUp.depth}` : rollUp.kind === 'category' ? `category:${rollUp.cwe}` : 'none';
+
+const fromRollUpValue = (value: string): RollUp => {
+  const [kind, argument] = value.split(':');
+  if (kind === 'depth') return { kind, depth: Number(argument) };
+  if (kind === 'category') return { kind, cwe: argument };
+  return { kind: 'none' };
+};
+
+const selectClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+/** Picks how findings are grouped: by CWE (optionally rolled up), OWASP Top 10, CWE Top 25 or mapped rule. */
+export function GroupingControls({ value, onChange, cwes, modes = ALL_MODES }: GroupingControlsProps) {
+  const categories = useMemo(() => getRollUpCategories(cwes), [cwes]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+      <label className="flex items-center gap-2">
+        Group by
+        <select
+          value={value.mode}
+          onChange={(e) => onChange({ ...value, mode: e.target.value as GroupingMode })}
+          className={selectClassName}
+        >
+          {modes.map(mode => (
+            <option key={mode} value={mode}>{GROUPING_LABELS[mode]}</option>
+          ))}
+        </select>
+      </label>
+      {value.mode === 'cwe' && (
+        <label className="flex items-center gap-2">
+          Roll up to
+          <select
+            value={toRollUpValue(value.rollUp)}
+            onChange={(e) => onChange({ ...value, rollUp: fromRollUpValue(e.target.value) })}
+            className={`${selectClassName} max-w-xs`}
+          >
+            <option value="none">None</option>
+            {ROLL_UP_DEPTHS.map(({ depth, label }) => (
+              <option key={depth} value={`depth:${depth}`}>{label}</option>
+            ))}
+            {categories.length > 0 && (
+              <optgroup label="Category">
+                {categories.map(cwe => (
+                  <option key={cwe} value={`category:${cwe}`}>{formatCWE(cwe, CWE_NAMES)}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+}
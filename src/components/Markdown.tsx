@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../lib/markdown';
+
+const HEADING_CLASSES = ['text-lg font-semibold', 'text-base font-semibold', 'text-sm font-semibold'];
+
+function Inline({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'code':
+            return <code key={index} className="px-1 py-0.5 rounded bg-gray-100 text-sm font-mono">{node.text}</code>;
+          case 'strong':
+            return <strong key={index}><Inline nodes={node.children} /></strong>;
+          case 'em':
+            return <em key={index}><Inline nodes={node.children} /></em>;
+          case 'link':
+            return node.href ? (
+              <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline">
+                <Inline nodes={node.children} />
+              </a>
+            ) : (
+              <Inline key={index} nodes={node.children} />
+            );
+          default:
+            return <React.Fragment key={index}>{node.text}</React.Fragment>;
+        }
+      })}
+    </>
+  );
+}
+
+function Blocks({ blocks }: { blocks: MarkdownBlock[] }) {
+  return (
+    <>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+            return (
+              <Tag key={index} className={`${HEADING_CLASSES[Math.min(block.level, 3) - 1]} text-gray-900`}>
+                <Inline nodes={block.children} />
+              </Tag>
+            );
+          }
+          case 'code':
+            return (
+              <pre key={index} className="p-3 rounded-md bg-gray-900 text-gray-100 text-xs font-mono overflow-x-auto">
+                <code>{block.text}</code>
+              </pre>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}><Inline nodes={item} /></li>
+                ))}
+              </List>
+            );
+          }
+          case 'quote':
+            return (
+              <blockquote key={index} className="pl-3 border-l-4 border-gray-200 text-gray-600 space-y-2">
+                <Blocks blocks={block.children} />
+              </blockquote>
+            );
+          default:
+            return <p key={index}><Inline nodes={block.children} /></p>;
+        }
+      })}
+    </>
+  );
+}
+
+/** Renders Markdown as React elements; HTML in the source is shown as text, never interpreted. */
+export function Markdown({ source }: { source: string }) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return (
+    <div className="space-y-3 text-sm text-gray-800 break-words">
+      <Blocks blocks={blocks} />
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { ArrowRight, ChevronDown, ChevronRight, Download, Plus, Trash2, Upload, X } from 'lucide-react';
+import {
+  ALL_FILES,
+  EMPTY_PATH_RULES,
+  getFilePathRules,
+  parsePathRules,
+  previewPathRules,
+  suggestStripPrefix,
+  validateRewritePattern,
+  type PathRules,
+  type PathRulesByFile,
+} from '../lib/paths';
+import { downloadFile } from '../utils/download';
+import type { LoadedSarif } from './SarifFileList';
+
+interface PathRulesEditorProps {
+  /** Files as uploaded, before their paths are normalized. */
+  files: LoadedSarif[];
+  project: string;
+  projects: string[];
+  onProjectChange: (project: string) => void;
+  rules: PathRulesByFile;
+  onChange: (rules: PathRulesByFile) => void;
+}
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+interface PathRulesBlockProps {
+  title: string;
+  rules: PathRules;
+  onChange: (rules: PathRules) => void;
+  /** File the rules apply to, to suggest a prefix and preview the result. */
+  file?: LoadedSarif;
+  /** Rules in effect for the file, including the rules for all files. */
+  effectiveRules?: PathRules;
+}
+
+function PathRulesBlock({ title, rules, onChange, file, effectiveRules }: PathRulesBlockProps) {
+  const [prefix, setPrefix] = useState('');
+  const suggestion = file ? suggestStripPrefix(file.log) : null;
+  const preview = file && effectiveRules ? previewPathRules(file.log, effectiveRules) : [];
+
+  const addPrefix = (value: string) => {
+    const trimmed = value.trim();
+    if (trimmed && !rules.stripPrefixes.includes(trimmed)) {
+      onChange({ ...rules, stripPrefixes: [...rules.stripPrefixes, trimmed] });
+    }
+    setPrefix('');
+  };
+
+  const updateRewrite = (index: number, patch: Partial<PathRules['rewrites'][number]>) => {
+    onChange({ ...rules, rewrites: rules.rewrites.map((rewrite, i) => (i === index ? { ...rewrite, ...patch } : rewrite)) });
+  };
+
+  return (
+    <li className="border border-gray-200 rounded-lg p-3 space-y-3">
+      <h3 className="font-medium text-gray-900 break-all">{title}</h3>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs font-medium text-gray-500 uppercase tracking-wider mr-1">Strip prefixes</span>
+        {rules.stripPrefixes.map(value => (
+          <span key={value} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+            {value}
+            <button
+              onClick={() => onChange({ ...rules, stripPrefixes: rules.stripPrefixes.filter(p => p !== value) })}
+              title={`Remove ${value}`}
+              className="ml-1 text-indigo-500 hover:text-indigo-800"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={prefix}
+          onChange={(e) => setPrefix(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addPrefix(prefix);
+          }}
+          placeholder="/home/runner/work/app/"
+          className={`${inputClassName} w-64`}
+        />
+        <button
+          onClick={() => addPrefix(prefix)}
+          disabled={!prefix.trim()}
+          className="inline-flex items-center px-2 py-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add
+        </button>
+        {suggestion && !rules.stripPrefixes.includes(suggestion) && (
+          <button
+            onClick={() => addPrefix(suggestion)}
+            title="Directory shared by every absolute path in this file"
+            className="text-xs text-gray-500 hover:text-indigo-600"
+          >
+            Suggested: <code>{suggestion}</code>
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Rewrites</span>
+        {rules.rewrites.map((rewrite, index) => {
+          const error = rewrite.pattern ? validateRewritePattern(rewrite.pattern) : null;
+          return (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                value={rewrite.pattern}
+                onChange={(e) => updateRewrite(index, { pattern: e.target.value })}
+                placeholder="^services/api/"
+                className={`${inputClassName} font-mono ${error ? 'border-red-500' : ''}`}
+              />
+              <ArrowRight className="w-4 h-4 text-gray-400" />
+              <input
+                value={rewrite.replacement}
+                onChange={(e) => updateRewrite(index, { replacement: e.target.value })}
+                placeholder="api/"
+                className={`${inputClassName} font-mono`}
+              />
+              <button
+                onClick={() => onChange({ ...rules, rewrites: rules.rewrites.filter((_, i) => i !== index) })}
+                title="Delete rewrite"
+                className="p-1 rounded-md text-gray-500 hover:bg-gray-100"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+              {error && <span className="text-xs text-red-600">{error}</span>}
+            </div>
+          );
+        })}
+        <button
+          onClick={() => onChange({ ...rules, rewrites: [...rules.rewrites, { pattern: '', replacement: '' }] })}
+          className="inline-flex items-center px-2 py-1 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add rewrite
+        </button>
+      </div>
+
+      {preview.length > 0 && (
+        <table className="min-w-full text-xs">
+          <tbody>
+            {preview.map(({ original, normalized }) => (
+              <tr key={original}>
+                <td className="py-0.5 pr-2 font-mono text-gray-500 break-all">{original}</td>
+                <td className="py-0.5 px-2"><ArrowRight className="w-3 h-3 text-gray-400" /></td>
+                <td className="py-0.5 pl-2 font-mono text-gray-900 break-all">{normalized || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </li>
+  );
+}
+
+/** Rules that turn the artifact paths of every input into repository-relative paths. */
+export function PathRulesEditor({ files, project, projects, onProjectChange, rules, onChange }: PathRulesEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const ruleCount = Object.values(rules).reduce((sum, { stripPrefixes, rewrites }) => sum + stripPrefixes.length + rewrites.length, 0);
+  // Rules are saved by file name, so files of the same name share them
+  const filesByName = [...new Map(files.map(file => [file.fileName, file])).values()];
+
+  const updateRules = (fileName: string, fileRules: PathRules) => {
+    onChange({ ...rules, [fileName]: fileRules });
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onChange({ ...rules, ...parsePathRules(JSON.parse(await file.text())) });
+      setError(null);
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const exportRules = () => {
+    downloadFile(JSON.stringify(rules, null, 2), `path-rules-${project}.json`, 'application/json');
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-3 flex items-center text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4 mr-2" /> : <ChevronRight className="w-4 h-4 mr-2" />}
+        Path normalization
+        <span className="ml-2 text-xs text-gray-500">({ruleCount} {ruleCount === 1 ? 'rule' : 'rules'})</span>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-200 px-6 py-4 space-y-4 text-sm">
+          <p className="text-xs text-gray-500">
+            Paths are resolved against <code>uriBaseId</code> bases such as <code>%SRCROOT%</code>, then prefixes are
+            stripped and rewrites applied so every tool reports the same repository-relative path. Rules are saved per
+            project in this browser and apply to files of the same name.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-gray-600">
+              Project
+              <input
+                value={project}
+                onChange={(e) => onProjectChange(e.target.value)}
+                list="path-rule-projects"
+                className={`${inputClassName} w-48`}
+              />
+              <datalist id="path-rule-projects">
+                {projects.map(name => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </label>
+            <label className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              Import JSON
+              <input type="file" accept=".json" className="hidden" onChange={handleImport} />
+            </label>
+            <button
+              onClick={exportRules}
+              disabled={ruleCount === 0}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </button>
+            {error && <span className="text-red-600">{error}</span>}
+          </div>
+
+          <ul className="space-y-3">
+            <PathRulesBlock
+              title="All files"
+              rules={rules[ALL_FILES] ?? EMPTY_PATH_RULES}
+              onChange={fileRules => updateRules(ALL_FILES, fileRules)}
+            />
+            {filesByName.map(file => (
+              <PathRulesBlock
+                key={file.fileName}
+                title={file.fileName}
+                rules={rules[file.fileName] ?? EMPTY_PATH_RULES}
+                onChange={fileRules => updateRules(file.fileName, fileRules)}
+                file={file}
+                effectiveRules={getFilePathRules(rules, file.fileName)}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
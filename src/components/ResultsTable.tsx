@@ -1,132 +1,203 @@
-import React, { useState } from 'react';
-import { AlertTriangle, Download, Info, XCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Download, ChevronDown, ChevronRight } from 'lucide-react';
 import type { Result, Run } from '../types/sarif';
-import * as XLSX from 'xlsx';
+import type { RunIndex } from '../lib/indexing';
+import type { SarifInput } from '../lib/runs';
+import { summarizeInput } from '../lib/comparison';
+import { countFlowSteps } from '../lib/codeFlows';
+import { DEFAULT_GROUPING, type GroupingMode, type GroupingOptions } from '../lib/grouping';
+import { createSummaryWorkbook, writeWorkbook, XLSX_MIME_TYPE } from '../lib/excel';
+import { hasEmbeddedSnippet } from '../lib/snippets';
+import { createSeverityResolver, getSeverityMapping, type SeverityMappings } from '../lib/severity';
+import { getTriageKey, isSuppressed, type TriageDecision, type TriageDecisions } from '../lib/triage';
+import { downloadFile } from '../utils/download';
+import type { ResultsTab } from '../utils/session';
+import type { SourceFolder } from '../utils/sourceFolder';
+import { CodeFlowViewer } from './CodeFlowViewer';
+import { CWEBadge } from './CWEBadge';
+import { GroupingControls } from './GroupingControls';
+import { RuleLink } from './RuleLink';
+import { SeverityBadge } from './SeverityBadge';
+import { SourceSnippetView } from './SourceSnippetView';
+import { TriageControl } from './TriageControl';
+import { VirtualTable } from './VirtualTable';
 
 interface ResultsTableProps {
-  results: Record<string, Result[]>;
-  run?: Run;
+  inputs: SarifInput[];
+  sourceFolder?: SourceFolder | null;
+  severityMappings: SeverityMappings;
+  triage: TriageDecisions;
+  onTriageChange: (key: string, decision: TriageDecision | null) => void;
+  activeTab: ResultsTab;
+  onActiveTabChange: (tab: ResultsTab) => void;
+  /** Expanded group rows of the CWE tab, kept by the app so a session can restore them. */
+  expandedCWEs: Record<string, boolean>;
+  onToggleCWE: (cwe: string) => void;
 }
 
-type TabType = 'summary' | 'cwe' | 'details';
+// Rule mappings relate several tools, so a single input is only grouped by CWE
+const CWE_GROUPING_MODES: GroupingMode[] = ['cwe', 'owasp2021', 'top25'];
 
-export function ResultsTable({ results, run }: ResultsTableProps) {
-  const [expandedCWEs, setExpandedCWEs] = useState<Record<string, boolean>>({});
-  const [activeTab, setActiveTab] = useState<TabType>('summary');
+// Result lists are flattened into one table per view, with a heading row before each rule's results
+type ResultRow =
+  | { kind: 'rule'; ruleId: string; count: number }
+  | { kind: 'result'; ruleId: string; result: Result; index: number };
 
-  const toggleCWE = (cwe: string) => {
-    setExpandedCWEs(prev => ({
-      ...prev,
-      [cwe]: !prev[cwe]
-    }));
-  };
+const flattenRuleEntries = (entries: Array<[string, Result[]]>): ResultRow[] =>
+  entries.flatMap(([ruleId, items]): ResultRow[] => [
+    { kind: 'rule', ruleId, count: items.length },
+    ...items.map((result, index): ResultRow => ({ kind: 'result', ruleId, result, index })),
+  ]);
 
-  const ruleConfigurations = run?.tool.driver.rules?.reduce((acc, rule) => {
-    if (rule.id && rule.defaultConfiguration?.level) {
-      acc[rule.id] = rule.defaultConfiguration.level;
-    }
-    return acc;
-  }, {} as Record<string, string>) || {};
+const getResultRowKey = (row: ResultRow): string =>
+  (row.kind === 'rule' ? `rule:${row.ruleId}` : `result:${row.ruleId}:${row.index}`);
 
-  const getSeverityIcon = (level?: string) => {
-    const normalizedLevel = level?.toLowerCase() || 'none';
-    switch (normalizedLevel) {
-      case 'error':
-        return <XCircle className="w-5 h-5 text-red-500" />;
-      case 'warning':
-        return <AlertTriangle className="w-5 h-5 text-yellow-500" />;
-      case 'info':
-      case 'note':
-        return <Info className="w-5 h-5 text-blue-500" />;
-      default:
-        return <Info className="w-5 h-5 text-gray-400" />;
-    }
-  };
+const RESULT_COLUMNS = ['Severity', 'Message', 'Location', 'Triage'];
 
-  const getEffectiveLevel = (result: Result): string => {
-    if (result.level) {
-      return result.level.toLowerCase();
-    }
-    if (ruleConfigurations[result.ruleId]) {
-      return ruleConfigurations[result.ruleId].toLowerCase();
-    }
-    return 'none';
-  };
+const RESULT_HEADER = (
+  <tr>
+    {RESULT_COLUMNS.map(column => (
+      <th key={column} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+        {column}
+      </th>
+    ))}
+  </tr>
+);
 
-  const getRuleTags = (ruleId: string): string[] => {
-    const rule = run?.tool.driver.rules?.find(r => r.id === ruleId);
-    return rule?.properties?.tags || [];
-  };
+export function ResultsTable({
+  inputs,
+  sourceFolder,
+  severityMappings,
+  triage,
+  onTriageChange,
+  activeTab,
+  onActiveTabChange,
+  expandedCWEs,
+  onToggleCWE,
+}: ResultsTableProps) {
+  const [selectedRun, setSelectedRun] = useState(0);
+  const [expandedResults, setExpandedResults] = useState<Record<string, boolean>>({});
+  const [grouping, setGrouping] = useState<GroupingOptions>(DEFAULT_GROUPING);
 
-  const getCWEFromTags = (tags: string[]): string | null => {
-    const cweTag = tags.find(tag => tag.startsWith('CWE:') || tag.startsWith('CWE-'));
-    if (!cweTag) return null;
-    return cweTag.replace('CWE:', 'CWE-').trim();
-  };
+  const input = useMemo<{ results: Record<string, Result[]>; run?: Run; index?: RunIndex }>(
+    () => inputs[selectedRun] ?? inputs[0] ?? { results: {} },
+    [inputs, selectedRun]
+  );
+  const { run } = input;
 
-  const getSeverityWeight = (severity: string): number => {
-    switch (severity.toLowerCase()) {
-      case 'error': return 0;
-      case 'warning': return 1;
-      case 'info': return 2;
-      case 'note': return 3;
-      default: return 4;
-    }
+  const toggleResult = (key: string) => {
+    setExpandedResults(prev => ({
+      ...prev,
+      [key]: !prev[key]
+    }));
   };
 
-  const sortedEntries = Object.entries(results).sort(([ruleIdA, itemsA], [ruleIdB, itemsB]) => {
-    const severityA = itemsA[0]?.level || ruleConfigurations[ruleIdA] || 'none';
-    const severityB = itemsB[0]?.level || ruleConfigurations[ruleIdB] || 'none';
-    return getSeverityWeight(severityA) - getSeverityWeight(severityB);
-  });
+  const severityResolver = useMemo(
+    () => createSeverityResolver(run, getSeverityMapping(severityMappings, run?.tool.driver.name || '')),
+    [run, severityMappings]
+  );
+  const summary = useMemo(() => summarizeInput(input, grouping, severityMappings), [input, grouping, severityMappings]);
+  const { entries: sortedEntries, rows: summaryRows, cweGroups, cweNames, cwes, total: totalResults } = summary;
+  const detailRows = useMemo(() => flattenRuleEntries(sortedEntries), [sortedEntries]);
+  const cweRows = useMemo(() => Object.fromEntries(
+    Object.entries(cweGroups).map(([cwe, groupedResults]) =>
+      [cwe, flattenRuleEntries(groupedResults.map(({ ruleId, items }) => [ruleId, items]))]
+    )
+  ), [cweGroups]);
+
+  const suppressedResults = useMemo(
+    () => Object.values(input.results).flat().filter(result => isSuppressed(result, triage)).length,
+    [input, triage]
+  );
 
-  const totalResults = Object.values(results).reduce((sum, items) => sum + items.length, 0);
+  const renderTriage = (result: Result) => {
+    const key = getTriageKey(result);
+    return <TriageControl key={key} decision={triage[key]} onChange={decision => onTriageChange(key, decision)} />;
+  };
 
-  // Group results by CWE
-  const cweGroups = sortedEntries.reduce((acc, [ruleId, items]) => {
-    const tags = getRuleTags(ruleId);
-    const cwe = getCWEFromTags(tags);
-    if (cwe) {
-      if (!acc[cwe]) {
-        acc[cwe] = [];
-      }
-      acc[cwe].push({ ruleId, items });
+  // Expanded rows are kept per list, since a result is listed in the details and under each of its CWEs
+  const renderResultRow = (list: string) => (row: ResultRow) => {
+    if (row.kind === 'rule') {
+      return (
+        <tr className="bg-gray-50">
+          <td colSpan={RESULT_COLUMNS.length} className="px-6 py-3 text-sm font-semibold text-gray-900">
+            Rule ID: <RuleLink ruleId={row.ruleId} run={run} />
+            <span className="ml-2 font-normal text-gray-500">
+              ({row.count} {row.count === 1 ? 'finding' : 'findings'})
+            </span>
+          </td>
+        </tr>
+      );
     }
-    return acc;
-  }, {} as Record<string, { ruleId: string; items: Result[] }[]>);
 
-  const exportToExcel = () => {
-    const data = [
-      ...sortedEntries.map(([ruleId, items]) => {
-        const tags = getRuleTags(ruleId);
-        const severity = items[0]?.level || ruleConfigurations[ruleId] || 'none';
-        const cwe = getCWEFromTags(tags);
-        return {
-          'Rule ID': ruleId,
-          'CWE': cwe || '',
-          'Tags': tags.join(', '),
-          'Count': items.length,
-          'Severity': severity
-        };
-      }),
-      {
-        'Rule ID': 'TOTAL',
-        'CWE': '',
-        'Tags': '',
-        'Count': totalResults,
-        'Severity': ''
-      }
-    ];
+    const { result } = row;
+    const { severity, basis } = severityResolver.getResultSeverity(result);
+    const flowSteps = countFlowSteps(result);
+    const relatedCount = result.relatedLocations?.length ?? 0;
+    const hasSource = Boolean(sourceFolder) || hasEmbeddedSnippet(result.locations?.[0]);
+    const detailLabels = [
+      hasSource && 'Source',
+      flowSteps > 0 && `Code flow (${flowSteps} ${flowSteps === 1 ? 'step' : 'steps'})`,
+      relatedCount > 0 && `Related locations (${relatedCount})`,
+    ].filter(Boolean);
+    const resultKey = `${selectedRun}|${list}|${getTriageKey(result)}`;
+    const isExpanded = expandedResults[resultKey];
+    return (
+      <>
+        <tr>
+          <td className="px-6 py-4 whitespace-nowrap">
+            <SeverityBadge severity={severity} title={basis} />
+          </td>
+          <td className="px-6 py-4">
+            <div className="text-sm text-gray-900">{result.message.text}</div>
+            {detailLabels.length > 0 && (
+              <button
+                onClick={() => toggleResult(resultKey)}
+                className="mt-1 inline-flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                {isExpanded ? (
+                  <ChevronDown className="w-4 h-4 mr-1" />
+                ) : (
+                  <ChevronRight className="w-4 h-4 mr-1" />
+                )}
+                {detailLabels.join(' · ')}
+              </button>
+            )}
+          </td>
+          <td className="px-6 py-4">
+            <div className="text-sm text-gray-900">
+              {result.locations?.[0]?.physicalLocation?.artifactLocation?.uri}
+              {result.locations?.[0]?.physicalLocation?.region && (
+                <span className="text-gray-500">
+                  :{result.locations[0].physicalLocation.region.startLine}
+                </span>
+              )}
+            </div>
+          </td>
+          <td className="px-6 py-4">{renderTriage(result)}</td>
+        </tr>
+        {isExpanded && (
+          <tr className="bg-gray-50">
+            <td colSpan={RESULT_COLUMNS.length} className="px-6 py-4 space-y-4">
+              {hasSource && (
+                <SourceSnippetView location={result.locations?.[0]} sourceFolder={sourceFolder} />
+              )}
+              {(flowSteps > 0 || relatedCount > 0) && <CodeFlowViewer result={result} />}
+            </td>
+          </tr>
+        )}
+      </>
+    );
+  };
 
-    const ws = XLSX.utils.json_to_sheet(data);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'Summary');
-    XLSX.writeFile(wb, 'sarif-summary.xlsx');
+  const exportToExcel = () => {
+    const workbook = createSummaryWorkbook(summary, inputs[selectedRun] ?? inputs[0], severityMappings);
+    downloadFile(writeWorkbook(workbook), 'sarif-summary.xlsx', XLSX_MIME_TYPE);
   };
 
-  const TabButton = ({ tab, label }: { tab: TabType; label: string }) => (
+  const TabButton = ({ tab, label }: { tab: ResultsTab; label: string }) => (
     <button
-      onClick={() => setActiveTab(tab)}
+      onClick={() => onActiveTabChange(tab)}
       className={`px-4 py-2 font-medium text-sm rounded-t-lg ${
         activeTab === tab
           ? 'bg-white text-indigo-600 border-t border-x border-gray-200'
@@ -145,6 +216,23 @@ export function ResultsTable({ results, run }: ResultsTableProps) {
           <h2 className="text-lg font-semibold text-gray-900">
             Tool: {run?.tool.driver.name || 'Unknown'}
           </h2>
+          {inputs.length > 1 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {inputs.map((input, index) => (
+                <button
+                  key={index}
+                  onClick={() => setSelectedRun(index)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    (inputs[selectedRun] ? selectedRun : 0) === index
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {input.label} ({input.run.results?.length ?? 0})
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -162,7 +250,9 @@ export function ResultsTable({ results, run }: ResultsTableProps) {
         {activeTab === 'summary' && (
           <div className="bg-white shadow-md rounded-lg overflow-hidden">
             <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
-              <h2 className="text-lg font-semibold text-gray-900">Summary (Total: {totalResults})</h2>
+              <h2 className="text-lg font-semibold text-gray-900">
+                Summary (Total: {totalResults} · {totalResults - suppressedResults} open · {suppressedResults} suppressed)
+              </h2>
               <button
                 onClick={exportToExcel}
                 className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -192,21 +282,18 @@ export function ResultsTable({ results, run }: ResultsTableProps) {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {sortedEntries.map(([ruleId, items]) => {
-                  const tags = getRuleTags(ruleId);
-                  const cwe = getCWEFromTags(tags);
-                  const severity = items[0]?.level || ruleConfigurations[ruleId] || 'none';
+                {summaryRows.map(({ ruleId, cwes, tags, count, severity }) => {
                   return (
                     <tr key={ruleId}>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        {ruleId}
+                        <RuleLink ruleId={ruleId} run={run} />
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        {cwe && (
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                            {cwe}
-                          </span>
-                        )}
+                      <td className="px-6 py-4">
+                        <div className="flex flex-wrap gap-1">
+                          {cwes.map(cwe => (
+                            <CWEBadge key={cwe} cwe={cwe} name={cweNames[cwe]} />
+                          ))}
+                        </div>
                       </td>
                       <td className="px-6 py-4">
                         <div className="flex flex-wrap gap-1">
@@ -219,16 +306,11 @@ export function ResultsTable({ results, run }: ResultsTableProps) {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
-                          {items.length}
+                          {count}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center">
-                          {getSeverityIcon(severity)}
-                          <span className="ml-2 text-sm capitalize text-gray-900">
-                            {severity}
-                          </span>
-                        </div>
+                        <SeverityBadge severity={severity} />
                       </td>
                     </tr>
                   );
@@ -255,6 +337,9 @@ export function ResultsTable({ results, run }: ResultsTableProps) {
         {/* CWE Tab */}
         {activeTab === 'cwe' && (
           <div className="space-y-4">
+            <div className="bg-white shadow-md rounded-lg px-6 py-4">
+              <GroupingControls value={grouping} onChange={setGrouping} cwes={cwes} modes={CWE_GROUPING_MODES} />
+            </div>
             {Object.entries(cweGroups).map(([cwe, groupedResults]) => {
               const isExpanded = expandedCWEs[cwe];
               const totalFindings = groupedResults.reduce((sum, { items }) => sum + items.length, 0);
@@ -262,7 +347,7 @@ export function ResultsTable({ results, run }: ResultsTableProps) {
               return (
                 <div key={cwe} className="bg-white shadow-md rounded-lg overflow-hidden">
                   <button
-                    onClick={() => toggleCWE(cwe)}
+                    onClick={() => onToggleCWE(cwe)}
                     className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50 focus:outline-none"
                   >
                     <div className="flex items-center">
@@ -271,10 +356,11 @@ export function ResultsTable({ results, run }: ResultsTableProps) {
                       ) : (
                         <ChevronRight className="w-5 h-5 text-gray-500 mr-2" />
                       )}
-                      <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800 mr-2">
-                        {cwe}
+                      <span className="mr-2">
+                        <CWEBadge cwe={cwe} name={cweNames[cwe]} large />
                       </span>
-                      <span className="text-gray-600">
+                      {cweNames[cwe] && <span className="text-gray-900 mr-2 text-left">{cweNames[cwe]}</span>}
+                      <span className="text-gray-600 whitespace-nowrap">
                         ({totalFindings} {totalFindings === 1 ? 'finding' : 'findings'})
                       </span>
                     </div>
@@ -282,56 +368,15 @@ export function ResultsTable({ results, run }: ResultsTableProps) {
                   
                   {isExpanded && (
                     <div className="border-t border-gray-200">
-                      {groupedResults.map(({ ruleId, items }) => (
-                        <div key={ruleId} className="px-6 py-4 border-b border-gray-200 last:border-b-0">
-                          <h3 className="text-md font-semibold mb-4">Rule ID: {ruleId}</h3>
-                          <table className="min-w-full divide-y divide-gray-200">
-                            <thead className="bg-gray-50">
-                              <tr>
-                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                  Level
-                                </th>
-                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                  Message
-                                </th>
-                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                  Location
-                                </th>
-                              </tr>
-                            </thead>
-                            <tbody className="bg-white divide-y divide-gray-200">
-                              {items.map((result, index) => {
-                                const effectiveLevel = getEffectiveLevel(result);
-                                return (
-                                  <tr key={index}>
-                                    <td className="px-6 py-4 whitespace-nowrap">
-                                      <div className="flex items-center">
-                                        {getSeverityIcon(effectiveLevel)}
-                                        <span className="ml-2 text-sm text-gray-900 capitalize">
-                                          {effectiveLevel}
-                                        </span>
-                                      </div>
-                                    </td>
-                                    <td className="px-6 py-4">
-                                      <div className="text-sm text-gray-900">{result.message.text}</div>
-                                    </td>
-                                    <td className="px-6 py-4">
-                                      <div className="text-sm text-gray-900">
-                                        {result.locations?.[0]?.physicalLocation?.artifactLocation?.uri}
-                                        {result.locations?.[0]?.physicalLocation?.region && (
-                                          <span className="text-gray-500">
-                                            :{result.locations[0].physicalLocation.region.startLine}
-                                          </span>
-                                        )}
-                                      </div>
-                                    </td>
-                                  </tr>
-                                );
-                              })}
-                            </tbody>
-                          </table>
-                        </div>
-                      ))}
+                      <VirtualTable
+                        rows={cweRows[cwe] ?? []}
+                        listKey={`${selectedRun}|${cwe}`}
+                        header={RESULT_HEADER}
+                        columnCount={RESULT_COLUMNS.length}
+                        getRowKey={getResultRowKey}
+                        renderRow={renderResultRow(cwe)}
+                        maxHeight="60vh"
+                      />
                     </div>
                   )}
                 </div>
@@ -346,56 +391,14 @@ export function ResultsTable({ results, run }: ResultsTableProps) {
             <div className="px-6 py-4 border-b border-gray-200">
               <h2 className="text-lg font-semibold text-gray-900">All Results</h2>
             </div>
-            {sortedEntries.map(([ruleId, items]) => (
-              <div key={ruleId} className="border-b border-gray-200">
-                <h3 className="text-lg font-semibold px-6 py-4">Rule ID: {ruleId}</h3>
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Level
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Message
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Location
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {items.map((result, index) => {
-                      const effectiveLevel = getEffectiveLevel(result);
-                      return (
-                        <tr key={index}>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="flex items-center">
-                              {getSeverityIcon(effectiveLevel)}
-                              <span className="ml-2 text-sm text-gray-900 capitalize">
-                                {effectiveLevel}
-                              </span>
-                            </div>
-                          </td>
-                          <td className="px-6 py-4">
-                            <div className="text-sm text-gray-900">{result.message.text}</div>
-                          </td>
-                          <td className="px-6 py-4">
-                            <div className="text-sm text-gray-900">
-                              {result.locations?.[0]?.physicalLocation?.artifactLocation?.uri}
-                              {result.locations?.[0]?.physicalLocation?.region && (
-                                <span className="text-gray-500">
-                                  :{result.locations[0].physicalLocation.region.startLine}
-                                </span>
-                              )}
-                            </div>
-                          </td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
-              </div>
-            ))}
+            <VirtualTable
+              rows={detailRows}
+              listKey={`${selectedRun}|details`}
+              header={RESULT_HEADER}
+              columnCount={RESULT_COLUMNS.length}
+              getRowKey={getResultRowKey}
+              renderRow={renderResultRow('details')}
+            />
           </div>
         )}
       </div>
@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { buildRuleCatalog, type CatalogCell, type CatalogStatus } from '../lib/ruleCatalog';
+import type { SarifInput } from '../lib/runs';
+import { CWEBadge } from './CWEBadge';
+import { RuleLink } from './RuleLink';
+
+interface RuleCatalogViewProps {
+  sarifs: SarifInput[];
+}
+
+const STATUS_STYLES: Record<CatalogStatus, string> = {
+  reported: 'bg-green-50 text-green-800',
+  silent: 'bg-yellow-50 text-yellow-800',
+  unsupported: 'bg-gray-50 text-gray-400',
+};
+
+const STATUS_LABELS: Record<CatalogStatus, string> = {
+  reported: 'Reported findings',
+  silent: 'Has rules, no findings',
+  unsupported: 'No rule for this CWE',
+};
+
+function CatalogCellView({ cell }: { cell: CatalogCell }) {
+  const rules = `${cell.ruleIds.length} ${cell.ruleIds.length === 1 ? 'rule' : 'rules'}`;
+  return (
+    <td className={`px-4 py-3 text-sm text-center whitespace-nowrap ${STATUS_STYLES[cell.status]}`} title={STATUS_LABELS[cell.status]}>
+      {cell.status === 'unsupported' ? '—' : (
+        <>
+          <span className="font-medium">{cell.findings}</span>
+          <span className="ml-1 text-xs opacity-75">/ {rules}</span>
+        </>
+      )}
+    </td>
+  );
+}
+
+/** Compares the rule catalogs of the inputs per CWE: which CWEs each tool can detect and which it reported. */
+export function RuleCatalogView({ sarifs }: RuleCatalogViewProps) {
+  const [onlyGaps, setOnlyGaps] = useState(false);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const catalog = useMemo(() => buildRuleCatalog(sarifs), [sarifs]);
+  const rows = onlyGaps
+    ? catalog.rows.filter(({ cells }) => new Set(cells.map(cell => cell.status === 'unsupported')).size > 1)
+    : catalog.rows;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(auto-fit, minmax(200px, 1fr))` }}>
+        {catalog.tools.map((tool, index) => (
+          <div key={index} className="bg-white shadow-md rounded-lg px-6 py-4">
+            <p className="text-sm font-medium text-gray-900 truncate">{tool.label}</p>
+            <p className="text-2xl font-semibold text-gray-900">{tool.ruleCount}</p>
+            <p className="text-xs text-gray-500">
+              {tool.ruleCount === 1 ? 'rule' : 'rules'} declared · {tool.firedRuleCount} with findings
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Rule Catalog by CWE</h2>
+            <p className="text-xs text-gray-500">
+              Findings / rules per tool. A dash means the tool declares no rule for the CWE, so it could not have reported one.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={onlyGaps} onChange={(e) => setOnlyGaps(e.target.checked)} />
+            Only CWEs some tools cannot detect
+          </label>
+        </div>
+
+        {catalog.tools.every(tool => tool.ruleCount === 0) && (
+          <p className="px-6 py-4 text-sm text-gray-500">
+            None of the logs declare rules in <code>tool.driver.rules</code>, so only reported CWEs are listed.
+          </p>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">CWE</th>
+                {catalog.tools.map((tool, index) => (
+                  <th key={index} className="px-4 py-3 text-center text-xs font-medium text-gray-500 tracking-wider">
+                    {tool.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map(({ cwe, cells }) => {
+                const isExpanded = expanded[cwe];
+                return (
+                  <tr key={cwe} className="align-top">
+                    <td className="px-6 py-3">
+                      <button
+                        onClick={() => setExpanded(prev => ({ ...prev, [cwe]: !prev[cwe] }))}
+                        className="flex items-center gap-2 text-left"
+                      >
+                        {isExpanded ? <ChevronDown className="w-4 h-4 text-gray-500" /> : <ChevronRight className="w-4 h-4 text-gray-500" />}
+                        <CWEBadge cwe={cwe} name={catalog.cweNames[cwe]} />
+                        <span className="text-sm text-gray-600">{catalog.cweNames[cwe]}</span>
+                      </button>
+                      {isExpanded && (
+                        <div className="mt-2 ml-6 space-y-2">
+                          {cells.map((cell, index) => cell.ruleIds.length > 0 && (
+                            <div key={index} className="text-xs">
+                              <p className="font-medium text-gray-700">{catalog.tools[index].label}</p>
+                              <div className="flex flex-wrap gap-x-3 font-mono text-gray-600">
+                                {cell.ruleIds.map(ruleId => (
+                                  <RuleLink key={ruleId} ruleId={ruleId} run={sarifs[index].run} />
+                                ))}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    {cells.map((cell, index) => (
+                      <CatalogCellView key={index} cell={cell} />
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
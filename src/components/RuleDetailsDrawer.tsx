@@ -0,0 +1,140 @@
+import { useEffect, type ReactNode } from 'react';
+import { ExternalLink, X } from 'lucide-react';
+import type { MultiformatMessage } from '../types/sarif';
+import { createCWEResolver } from '../lib/cwe';
+import { CWE_NAMES } from '../lib/cweHierarchy';
+import { sanitizeHref } from '../lib/markdown';
+import { CWEBadge } from './CWEBadge';
+import { Markdown } from './Markdown';
+import type { RuleDetailsTarget } from './ruleDetailsContext';
+
+interface RuleDetailsDrawerProps {
+  target: RuleDetailsTarget;
+  onClose: () => void;
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+function Message({ message }: { message: MultiformatMessage }) {
+  return message.markdown
+    ? <Markdown source={message.markdown} />
+    : <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{message.text}</p>;
+}
+
+/** Side panel with the metadata and help text of a rule, as declared in the run's `tool.driver.rules`. */
+export function RuleDetailsDrawer({ target: { run, ruleId }, onClose }: RuleDetailsDrawerProps) {
+  const rule = run?.tool.driver.rules?.find(candidate => candidate.id === ruleId);
+  const resolver = createCWEResolver(run);
+  const cwes = resolver.getRuleCWEs(ruleId);
+  const helpUri = rule?.helpUri ? sanitizeHref(rule.helpUri) : null;
+  const properties = rule?.properties;
+  const facts = [
+    ['Default level', rule?.defaultConfiguration?.level],
+    ['Security severity', properties?.['security-severity']],
+    ['Precision', properties?.precision],
+    ['Problem severity', properties?.['problem.severity']],
+  ].filter((fact): fact is [string, string] => Boolean(fact[1]));
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-gray-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-xl h-full bg-white shadow-xl overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-900 break-all">{ruleId}</h2>
+            <p className="text-sm text-gray-500">
+              {[rule?.name, run?.tool.driver.name].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          {!rule && (
+            <p className="text-sm text-gray-500">The log does not describe this rule in <code>tool.driver.rules</code>.</p>
+          )}
+          {rule?.shortDescription && <Message message={rule.shortDescription} />}
+
+          {(cwes.length > 0 || facts.length > 0 || (properties?.tags?.length ?? 0) > 0) && (
+            <Section title="Metadata">
+              {cwes.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {cwes.map(cwe => (
+                    <CWEBadge key={cwe} cwe={cwe} name={resolver.names[cwe] ?? CWE_NAMES[cwe]} />
+                  ))}
+                </div>
+              )}
+              {facts.length > 0 && (
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  {facts.map(([label, value]) => (
+                    <div key={label} className="contents">
+                      <dt className="text-gray-500">{label}</dt>
+                      <dd className="text-gray-900">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              {properties?.tags && properties.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {properties.tags.map(tag => (
+                    <span key={tag} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </Section>
+          )}
+
+          {rule?.fullDescription && (
+            <Section title="Description">
+              <Message message={rule.fullDescription} />
+            </Section>
+          )}
+
+          {(rule?.help || helpUri) && (
+            <Section title="Help">
+              {rule?.help && <Message message={rule.help} />}
+              {helpUri && (
+                <a href={helpUri} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-sm text-indigo-600 hover:underline">
+                  <ExternalLink className="w-4 h-4 mr-1" />
+                  {helpUri}
+                </a>
+              )}
+            </Section>
+          )}
+
+          {rule?.messageStrings && Object.keys(rule.messageStrings).length > 0 && (
+            <Section title="Message strings">
+              <dl className="space-y-2 text-sm">
+                {Object.entries(rule.messageStrings).map(([id, message]) => (
+                  <div key={id}>
+                    <dt className="font-mono text-xs text-gray-500">{id}</dt>
+                    <dd className="text-gray-900">{message.text}</dd>
+                  </div>
+                ))}
+              </dl>
+            </Section>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
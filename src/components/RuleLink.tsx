@@ -0,0 +1,24 @@
+import { useContext } from 'react';
+import type { Run } from '../types/sarif';
+import { RuleDetailsContext } from './ruleDetailsContext';
+
+interface RuleLinkProps {
+  ruleId: string;
+  /** Run that declares the rule, whose metadata the drawer shows. */
+  run?: Run;
+  className?: string;
+}
+
+/** A rule ID that opens the rule details drawer. */
+export function RuleLink({ ruleId, run, className = '' }: RuleLinkProps) {
+  const openRule = useContext(RuleDetailsContext);
+  return (
+    <button
+      onClick={() => openRule({ run, ruleId })}
+      title="Show rule details"
+      className={`text-left hover:text-indigo-600 hover:underline ${className}`}
+    >
+      {ruleId}
+    </button>
+  );
+}
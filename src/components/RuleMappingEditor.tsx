@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, Plus, Trash2, Upload, X } from 'lucide-react';
+import {
+  formatRuleReference,
+  mergeRuleMappings,
+  parseRuleMapping,
+  type RuleEquivalence,
+  type RuleMapping,
+  type RuleReference,
+} from '../lib/ruleMapping';
+import type { SarifInput } from '../lib/runs';
+import { downloadFile } from '../utils/download';
+
+interface RuleMappingEditorProps {
+  inputs: SarifInput[];
+  mapping: RuleMapping;
+  onChange: (mapping: RuleMapping) => void;
+}
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+interface AddRuleProps {
+  equivalence: RuleEquivalence;
+  rulesByTool: Map<string, string[]>;
+  onAdd: (rule: RuleReference) => void;
+}
+
+function AddRule({ equivalence, rulesByTool, onAdd }: AddRuleProps) {
+  const toolNames = [...rulesByTool.keys()];
+  const [tool, setTool] = useState(toolNames[0] ?? '');
+  const [ruleId, setRuleId] = useState('');
+  const available = (rulesByTool.get(tool) || []).filter(
+    id => !equivalence.rules.some(rule => rule.tool === tool && rule.ruleId === id)
+  );
+  const selectedRule = available.includes(ruleId) ? ruleId : available[0] ?? '';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select value={tool} onChange={(e) => setTool(e.target.value)} className={inputClassName}>
+        {toolNames.map(name => (
+          <option key={name} value={name}>{name}</option>
+        ))}
+      </select>
+      <select value={selectedRule} onChange={(e) => setRuleId(e.target.value)} className={`${inputClassName} max-w-xs`}>
+        {available.map(id => (
+          <option key={id} value={id}>{id}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => onAdd({ tool, ruleId: selectedRule })}
+        disabled={!selectedRule}
+        className="inline-flex items-center px-2 py-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add rule
+      </button>
+    </div>
+  );
+}
+
+/** Declares which rules of different tools report the same kind of finding. */
+export function RuleMappingEditor({ inputs, mapping, onChange }: RuleMappingEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rule ids per tool, from the rule definitions and the results
+  const rulesByTool = useMemo(() => {
+    const rules = new Map<string, Set<string>>();
+    inputs.forEach(({ run, results }) => {
+      const toolRules = rules.get(run.tool.driver.name) || new Set<string>();
+      run.tool.driver.rules?.forEach(rule => toolRules.add(rule.id));
+      Object.keys(results).forEach(ruleId => toolRules.add(ruleId));
+      rules.set(run.tool.driver.name, toolRules);
+    });
+    return new Map([...rules.entries()].map(([tool, ruleIds]) => [tool, [...ruleIds].sort()]));
+  }, [inputs]);
+  const toolNames = [...rulesByTool.keys()];
+
+  const updateEquivalence = (index: number, equivalence: RuleEquivalence) => {
+    onChange({ ...mapping, equivalences: mapping.equivalences.map((e, i) => (i === index ? equivalence : e)) });
+  };
+
+  const removeEquivalence = (index: number) => {
+    onChange({ ...mapping, equivalences: mapping.equivalences.filter((_, i) => i !== index) });
+  };
+
+  const addEquivalence = () => {
+    onChange({
+      ...mapping,
+      equivalences: [...mapping.equivalences, { name: `Mapping ${mapping.equivalences.length + 1}`, rules: [] }],
+    });
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onChange(mergeRuleMappings(mapping, parseRuleMapping(JSON.parse(await file.text()))));
+      setError(null);
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const exportMapping = () => {
+    downloadFile(JSON.stringify(mapping, null, 2), 'rule-mapping.json', 'application/json');
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-3 flex items-center text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4 mr-2" /> : <ChevronRight className="w-4 h-4 mr-2" />}
+        Rule mappings
+        <span className="ml-2 text-xs text-gray-500">({mapping.equivalences.length})</span>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-200 px-6 py-4 space-y-4 text-sm">
+          <p className="text-xs text-gray-500">
+            Declare rules of different tools that report the same finding, then pick the Mapped Rule grouping to compare
+            them rule by rule. Mappings are saved in this browser.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={addEquivalence}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New mapping
+            </button>
+            <label className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              Import JSON
+              <input type="file" accept=".json" className="hidden" onChange={handleImport} />
+            </label>
+            <button
+              onClick={exportMapping}
+              disabled={mapping.equivalences.length === 0}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </button>
+            {error && <span className="text-red-600">{error}</span>}
+          </div>
+
+          <ul className="space-y-3">
+            {mapping.equivalences.map((equivalence, index) => (
+              <li key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={equivalence.name}
+                    onChange={(e) => updateEquivalence(index, { ...equivalence, name: e.target.value })}
+                    className={`${inputClassName} font-medium flex-1`}
+                  />
+                  <button
+                    onClick={() => removeEquivalence(index)}
+                    title="Delete mapping"
+                    className="p-1 rounded-md text-gray-500 hover:bg-gray-100"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {equivalence.rules.map((rule, ruleIndex) => (
+                    <span
+                      key={ruleIndex}
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800"
+                    >
+                      {formatRuleReference(rule)}
+                      <button
+                        onClick={() => updateEquivalence(index, {
+                          ...equivalence,
+                          rules: equivalence.rules.filter((_, i) => i !== ruleIndex),
+                        })}
+                        title="Remove rule"
+                        className="ml-1 text-indigo-500 hover:text-indigo-800"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                  {equivalence.rules.length === 0 && <span className="text-xs text-gray-500">No rules yet</span>}
+                </div>
+                {toolNames.length > 0 && (
+                  <AddRule
+                    equivalence={equivalence}
+                    rulesByTool={rulesByTool}
+                    onAdd={rule => updateEquivalence(index, { ...equivalence, rules: [...equivalence.rules, rule] })}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import type { ReactNode } from 'react';
+import { ArrowDown, ArrowUp, FileText, X } from 'lucide-react';
+import type { SarifLog } from '../types/sarif';
+import type { RunIndex } from '../lib/indexing';
+
+export interface LoadedSarif {
+  id: number;
+  fileName: string;
+  log: SarifLog;
+  /** One index per run, built while the file was parsed. */
+  indexes?: RunIndex[];
+}
+
+interface SarifFileListProps {
+  files: LoadedSarif[];
+  onRemove: (id: number) => void;
+  onMove: (index: number, direction: -1 | 1) => void;
+  /** Controls shown in the header, e.g. to save the session. */
+  actions?: ReactNode;
+}
+
+export function SarifFileList({ files, onRemove, onMove, actions }: SarifFileListProps) {
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-gray-900">Loaded Files ({files.length})</h2>
+        {actions}
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {files.map(({ id, fileName, log }, index) => {
+          const toolNames = [...new Set(log.runs.map(run => run.tool.driver.name))];
+          const resultCount = log.runs.reduce((sum, run) => sum + (run.results?.length ?? 0), 0);
+          return (
+            <li key={id} className="px-6 py-3 flex items-center gap-4">
+              <span className="w-6 text-sm font-semibold text-gray-400">{index + 1}</span>
+              <FileText className="w-5 h-5 text-indigo-500 shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-gray-900 truncate">{fileName}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {toolNames.join(', ') || 'No runs'} · {log.runs.length} {log.runs.length === 1 ? 'run' : 'runs'} · {resultCount} results
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onMove(index, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                  className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onMove(index, 1)}
+                  disabled={index === files.length - 1}
+                  title="Move down"
+                  className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onRemove(id)}
+                  title="Remove"
+                  className="p-1.5 rounded-md text-gray-500 hover:bg-red-50 hover:text-red-600"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { Check, ChevronDown, ChevronRight, Save } from 'lucide-react';
+import type { SeverityMappings } from '../lib/severity';
+import { snapshotLog } from '../lib/trends';
+import { listProjects, saveScan, supportsScanHistory } from '../utils/scanHistory';
+import type { LoadedSarif } from './SarifFileList';
+
+interface SaveScansPanelProps {
+  files: LoadedSarif[];
+  severityMappings: SeverityMappings;
+}
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/** Saves loaded scans to the local history of a project. */
+export function SaveScansPanel({ files, severityMappings }: SaveScansPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [project, setProject] = useState('');
+  const [projects, setProjects] = useState<string[]>([]);
+  const [details, setDetails] = useState<Record<number, { scanDate: string; commit: string }>>({});
+  const [saved, setSaved] = useState<Record<number, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listProjects()
+      .then(names => {
+        setProjects(names);
+        setProject(current => current || names[0] || '');
+      })
+      .catch(err => setError(`Could not open the scan history: ${(err as Error).message}`));
+  }, [isOpen]);
+
+  if (!supportsScanHistory()) return null;
+
+  const getDetails = (id: number) => details[id] ?? { scanDate: today(), commit: '' };
+
+  const updateDetails = (id: number, patch: Partial<{ scanDate: string; commit: string }>) => {
+    setDetails(prev => ({ ...prev, [id]: { ...getDetails(id), ...patch } }));
+    setSaved(prev => ({ ...prev, [id]: false }));
+  };
+
+  const save = async (file: LoadedSarif) => {
+    const { scanDate, commit } = getDetails(file.id);
+    try {
+      await saveScan({
+        project: project.trim(),
+        fileName: file.fileName,
+        scanDate,
+        commit: commit.trim() || undefined,
+        snapshot: snapshotLog(file.log, severityMappings),
+      }, file.log);
+      setSaved(prev => ({ ...prev, [file.id]: true }));
+      setProjects(prev => (prev.includes(project.trim()) ? prev : [...prev, project.trim()].sort()));
+      setError(null);
+    } catch (err) {
+      setError(`Could not save ${file.fileName}: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-3 flex items-center text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4 mr-2" /> : <ChevronRight className="w-4 h-4 mr-2" />}
+        Save to history
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-200 px-6 py-4 space-y-3 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            Project
+            <input
+              value={project}
+              onChange={(e) => setProject(e.target.value)}
+              list="history-projects"
+              placeholder="my-service"
+              className={`${inputClassName} w-64`}
+            />
+            <datalist id="history-projects">
+              {projects.map(name => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </label>
+          <ul className="divide-y divide-gray-200">
+            {files.map(file => {
+              const { scanDate, commit } = getDetails(file.id);
+              return (
+                <li key={file.id} className="py-2 flex flex-wrap items-center gap-3">
+                  <span className="flex-1 min-w-[160px] text-gray-900 break-all">{file.fileName}</span>
+                  <input
+                    type="date"
+                    value={scanDate}
+                    onChange={(e) => updateDetails(file.id, { scanDate: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <input
+                    value={commit}
+                    onChange={(e) => updateDetails(file.id, { commit: e.target.value })}
+                    placeholder="Commit (optional)"
+                    className={`${inputClassName} w-40`}
+                  />
+                  <button
+                    onClick={() => save(file)}
+                    disabled={!project.trim() || !scanDate || saved[file.id]}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {saved[file.id] ? <Check className="w-4 h-4 mr-2 text-green-600" /> : <Save className="w-4 h-4 mr-2" />}
+                    {saved[file.id] ? 'Saved' : 'Save'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { Share2 } from 'lucide-react';
+import { downloadFile } from '../utils/download';
+import { createSessionFile, SESSION_EXTENSION, type SessionState } from '../utils/session';
+import type { LoadedSarif } from './SarifFileList';
+
+interface SaveSessionButtonProps {
+  /** Files as uploaded; path rules in the state are applied again when the session is opened. */
+  files: LoadedSarif[];
+  state: SessionState;
+}
+
+/** Downloads the loaded files and view state as a session file to share a comparison. */
+export function SaveSessionButton({ files, state }: SaveSessionButtonProps) {
+  const [compress, setCompress] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const session = await createSessionFile(files, state, compress);
+      const fileName = `session-${new Date().toISOString().slice(0, 10)}${SESSION_EXTENSION}`;
+      downloadFile(JSON.stringify(session), fileName, 'application/json');
+      setError(null);
+    } catch (err) {
+      setError(`Could not save the session: ${(err as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      {error && <span className="text-red-600">{error}</span>}
+      <label className="flex items-center gap-1 text-gray-600" title="Gzip each SARIF log inside the session file">
+        <input type="checkbox" checked={compress} onChange={(e) => setCompress(e.target.checked)} />
+        Compress
+      </label>
+      <button
+        onClick={save}
+        disabled={isSaving || files.length === 0}
+        className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+      >
+        <Share2 className="w-4 h-4 mr-2" />
+        {isSaving ? 'Saving…' : 'Save session'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { AlertCircle, AlertTriangle, Info, ShieldAlert, XCircle } from 'lucide-react';
+import type { NormalizedSeverity } from '../lib/severity';
+
+export function SeverityIcon({ severity }: { severity: NormalizedSeverity }) {
+  switch (severity) {
+    case 'critical':
+      return <ShieldAlert className="w-5 h-5 text-red-700" />;
+    case 'high':
+      return <XCircle className="w-5 h-5 text-red-500" />;
+    case 'medium':
+      return <AlertTriangle className="w-5 h-5 text-yellow-500" />;
+    case 'low':
+      return <AlertCircle className="w-5 h-5 text-blue-500" />;
+    default:
+      return <Info className="w-5 h-5 text-gray-400" />;
+  }
+}
+
+interface SeverityBadgeProps {
+  severity: NormalizedSeverity;
+  /** Shown as a tooltip, e.g. what the severity was derived from. */
+  title?: string;
+}
+
+export function SeverityBadge({ severity, title }: SeverityBadgeProps) {
+  return (
+    <span title={title} className="inline-flex items-center">
+      <SeverityIcon severity={severity} />
+      <span className="ml-2 text-sm capitalize text-gray-900">{severity}</span>
+    </span>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import {
+  SEVERITIES,
+  getSeverityMapping,
+  type NormalizedSeverity,
+  type SeverityMapping,
+  type SeverityMappings,
+} from '../lib/severity';
+
+interface SeverityMappingEditorProps {
+  toolNames: string[];
+  mappings: SeverityMappings;
+  onChange: (mappings: SeverityMappings) => void;
+}
+
+const PRECISIONS = ['very-high', 'high', 'medium', 'low'];
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+/** Per-tool rules for turning scores, ranks and levels into normalized severities. */
+export function SeverityMappingEditor({ toolNames, mappings, onChange }: SeverityMappingEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedTool, setSelectedTool] = useState(0);
+
+  const toolName = toolNames[selectedTool] ?? toolNames[0] ?? '';
+  const mapping = getSeverityMapping(mappings, toolName);
+  const isCustomized = Boolean(mappings[toolName]);
+
+  const update = (patch: Partial<SeverityMapping>) => {
+    onChange({ ...mappings, [toolName]: { ...mappings[toolName], ...patch } });
+  };
+
+  const reset = () => {
+    onChange(Object.fromEntries(Object.entries(mappings).filter(([name]) => name !== toolName)));
+  };
+
+  const SeveritySelect = ({ value, onSelect }: { value: NormalizedSeverity; onSelect: (severity: NormalizedSeverity) => void }) => (
+    <select value={value} onChange={(e) => onSelect(e.target.value as NormalizedSeverity)} className={`${inputClassName} capitalize`}>
+      {SEVERITIES.map(severity => (
+        <option key={severity} value={severity}>{severity}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-3 flex items-center text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none"
+      >
+        {isOpen ? <ChevronDown className="w-4 h-4 mr-2" /> : <ChevronRight className="w-4 h-4 mr-2" />}
+        Severity mapping
+        {Object.keys(mappings).length > 0 && (
+          <span className="ml-2 text-xs text-gray-500">({Object.keys(mappings).length} customized)</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-200 px-6 py-4 space-y-4 text-sm text-gray-600">
+          <p className="text-xs text-gray-500">
+            A <code>security-severity</code> score wins, then <code>rank</code>, then the rule's <code>problem.severity</code>,
+            then the SARIF level. The rule's <code>precision</code> can lower the result.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              Tool
+              <select value={selectedTool} onChange={(e) => setSelectedTool(Number(e.target.value))} className={inputClassName}>
+                {toolNames.map((name, index) => (
+                  <option key={index} value={index}>{name}</option>
+                ))}
+              </select>
+            </label>
+            {isCustomized && (
+              <button onClick={reset} className="inline-flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Reset to defaults
+              </button>
+            )}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <fieldset className="space-y-2">
+              <legend className="font-medium text-gray-900 mb-1">Minimum score (0-10)</legend>
+              {(Object.keys(mapping.scoreThresholds) as Array<keyof SeverityMapping['scoreThresholds']>).map(severity => (
+                <label key={severity} className="flex items-center justify-between gap-2 capitalize">
+                  {severity}
+                  <input
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.1}
+                    value={mapping.scoreThresholds[severity]}
+                    onChange={(e) => update({ scoreThresholds: { ...mapping.scoreThresholds, [severity]: Number(e.target.value) || 0 } })}
+                    className={`${inputClassName} w-20`}
+                  />
+                </label>
+              ))}
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={mapping.useRank}
+                  onChange={(e) => update({ useRank: e.target.checked })}
+                />
+                Read <code>rank</code> as a score (rank / 10)
+              </label>
+            </fieldset>
+
+            <fieldset className="space-y-2">
+              <legend className="font-medium text-gray-900 mb-1">SARIF level</legend>
+              {Object.entries(mapping.levels).map(([level, severity]) => (
+                <label key={level} className="flex items-center justify-between gap-2">
+                  {level}
+                  <SeveritySelect value={severity} onSelect={value => update({ levels: { ...mapping.levels, [level]: value } })} />
+                </label>
+              ))}
+            </fieldset>
+
+            <fieldset className="space-y-2">
+              <legend className="font-medium text-gray-900 mb-1">problem.severity</legend>
+              {Object.entries(mapping.problemSeverity).map(([problemSeverity, severity]) => (
+                <label key={problemSeverity} className="flex items-center justify-between gap-2">
+                  {problemSeverity}
+                  <SeveritySelect
+                    value={severity}
+                    onSelect={value => update({ problemSeverity: { ...mapping.problemSeverity, [problemSeverity]: value } })}
+                  />
+                </label>
+              ))}
+            </fieldset>
+
+            <fieldset className="space-y-2">
+              <legend className="font-medium text-gray-900 mb-1">Steps down for precision</legend>
+              {PRECISIONS.map(precision => (
+                <label key={precision} className="flex items-center justify-between gap-2">
+                  {precision}
+                  <input
+                    type="number"
+                    min={0}
+                    max={SEVERITIES.length - 1}
+                    value={mapping.precisionDowngrade[precision] || 0}
+                    onChange={(e) => update({
+                      precisionDowngrade: { ...mapping.precisionDowngrade, [precision]: Math.max(0, Number(e.target.value) || 0) },
+                    })}
+                    className={`${inputClassName} w-20`}
+                  />
+                </label>
+              ))}
+            </fieldset>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import type { SimilarityMatrix } from '../lib/comparison';
+
+interface SimilarityMatrixTableProps {
+  toolNames: string[];
+  matrix: SimilarityMatrix;
+}
+
+const getCellStyle = (similarity: number) => {
+  if (similarity >= 75) return 'bg-green-200 text-green-900';
+  if (similarity >= 50) return 'bg-green-100 text-green-800';
+  if (similarity >= 25) return 'bg-yellow-100 text-yellow-800';
+  if (similarity > 0) return 'bg-orange-100 text-orange-800';
+  return 'bg-gray-50 text-gray-500';
+};
+
+export function SimilarityMatrixTable({ toolNames, matrix }: SimilarityMatrixTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr>
+            <th className="px-3 py-2"></th>
+            {toolNames.map((name, j) => (
+              <th key={j} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.map((row, i) => (
+            <tr key={i}>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                {toolNames[i]}
+              </th>
+              {row.map((pair, j) => (
+                <td
+                  key={j}
+                  title={i === j
+                    ? `${pair.matched} findings`
+                    : `${pair.matched} matched, ${pair.onlyInA} only in ${toolNames[i]}, ${pair.onlyInB} only in ${toolNames[j]}`}
+                  className={`px-3 py-2 whitespace-nowrap border border-white ${
+                    i === j ? 'bg-gray-100 text-gray-400' : getCellStyle(pair.similarity)
+                  }`}
+                >
+                  {i === j ? '—' : (
+                    <>
+                      <span className="font-medium">{pair.similarity.toFixed(1)}%</span>
+                      <span className="ml-2 text-xs opacity-75">
+                        {pair.matched}/{pair.matched + pair.onlyInA + pair.onlyInB}
+                      </span>
+                    </>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { FolderOpen, X } from 'lucide-react';
+import {
+  pickSourceDirectory,
+  sourceFolderFromFiles,
+  supportsDirectoryPicker,
+  type SourceFolder,
+} from '../utils/sourceFolder';
+
+interface SourceFolderPickerProps {
+  folder: SourceFolder | null;
+  onChange: (folder: SourceFolder | null) => void;
+}
+
+export function SourceFolderPicker({ folder, onChange }: SourceFolderPickerProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const openWithPicker = async (event: React.MouseEvent) => {
+    // Fall back to the folder upload input when the picker is unavailable
+    if (!supportsDirectoryPicker()) return;
+    event.preventDefault();
+    try {
+      const picked = await pickSourceDirectory();
+      if (picked) {
+        setError(null);
+        onChange(picked);
+      }
+    } catch (err) {
+      setError(`Could not open folder: ${(err as Error).message}`);
+    }
+  };
+
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files) {
+      setError(null);
+      onChange(sourceFolderFromFiles(event.target.files));
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <label
+        onClick={openWithPicker}
+        className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer"
+      >
+        <FolderOpen className="w-4 h-4 mr-2" />
+        {folder ? 'Change source folder' : 'Open source folder'}
+        <input
+          type="file"
+          multiple
+          className="hidden"
+          ref={input => input?.setAttribute('webkitdirectory', '')}
+          onChange={handleUpload}
+        />
+      </label>
+      {folder && (
+        <span className="inline-flex items-center gap-1 text-gray-600">
+          {folder.name} ({folder.fileCount} files)
+          <button onClick={() => onChange(null)} title="Close source folder" className="p-1 rounded-md text-gray-500 hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </span>
+      )}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
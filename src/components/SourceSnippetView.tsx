@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import type { Location } from '../types/sarif';
+import { getLocationSnippet, type SnippetLine } from '../lib/snippets';
+import type { SourceFolder } from '../utils/sourceFolder';
+
+interface SourceSnippetViewProps {
+  location?: Location;
+  sourceFolder?: SourceFolder | null;
+}
+
+const originLabels = {
+  file: 'from source folder',
+  contextRegion: 'snippet from log',
+  region: 'snippet from log',
+};
+
+function HighlightedText({ line }: { line: SnippetLine }) {
+  if (!line.highlighted) return <>{line.text || ' '}</>;
+
+  const start = Math.max(0, (line.highlightStart ?? 1) - 1);
+  const end = line.highlightEnd !== undefined ? Math.max(start, line.highlightEnd - 1) : line.text.length;
+  return (
+    <>
+      {line.text.slice(0, start)}
+      <mark className="bg-yellow-300 text-gray-900 rounded-sm">{line.text.slice(start, end) || ' '}</mark>
+      {line.text.slice(end)}
+    </>
+  );
+}
+
+/** Source lines around a location, read from the local source folder or the log itself. */
+export function SourceSnippetView({ location, sourceFolder }: SourceSnippetViewProps) {
+  const uri = location?.physicalLocation?.artifactLocation?.uri;
+  const [sourceText, setSourceText] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setSourceText(null);
+    if (!sourceFolder || !uri) return;
+
+    let cancelled = false;
+    setLoading(true);
+    sourceFolder.readFile(uri).then(text => {
+      if (!cancelled) setSourceText(text);
+    }).finally(() => {
+      if (!cancelled) setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceFolder, uri]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading source…</p>;
+  }
+
+  const snippet = getLocationSnippet(location, sourceText);
+  if (!snippet) {
+    return (
+      <p className="text-sm text-gray-500">
+        {sourceFolder ? `${uri || 'This location'} was not found in ${sourceFolder.name}` : 'No source snippet in the log; open a source folder to see the code'}
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-1">
+        <code className="break-all">{uri}</code> · {originLabels[snippet.origin]}
+      </p>
+      <pre className="text-xs bg-gray-900 text-gray-100 rounded-md overflow-x-auto py-2">
+        {snippet.lines.map((line, index) => (
+          <div key={index} className={`flex ${line.highlighted ? 'bg-yellow-900/40' : ''}`}>
+            <span className="w-12 shrink-0 pr-3 text-right text-gray-500 select-none">{line.number ?? ''}</span>
+            <code className="pr-4 whitespace-pre">
+              <HighlightedText line={line} />
+            </code>
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import type { TrendSeries } from '../lib/trends';
+
+interface TrendChartProps {
+  /** One label per point on the x axis, oldest first. */
+  labels: string[];
+  series: TrendSeries[];
+  /** Indexes of the selected points. */
+  selected: number[];
+  onSelect: (index: number) => void;
+}
+
+const WIDTH = 720;
+const HEIGHT = 280;
+const PADDING = { top: 16, right: 16, bottom: 40, left: 48 };
+const Y_TICKS = 4;
+
+const SERIES_COLORS: Record<string, string> = {
+  critical: '#991b1b',
+  high: '#ef4444',
+  medium: '#eab308',
+  low: '#3b82f6',
+  info: '#9ca3af',
+};
+const PALETTE = ['#4f46e5', '#db2777', '#059669', '#d97706', '#0891b2', '#7c3aed', '#dc2626', '#65a30d', '#6b7280'];
+
+const getColor = (name: string, index: number) => SERIES_COLORS[name] ?? PALETTE[index % PALETTE.length];
+
+// Rounds the axis maximum up to a readable step, e.g. 1234 to 1500
+const niceMax = (value: number): number => {
+  if (value <= Y_TICKS) return Y_TICKS;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find(s => s * magnitude * Y_TICKS >= value) ?? 10;
+  return step * magnitude * Y_TICKS;
+};
+
+/** Line chart of finding counts over scans; points are clickable to pick scans. */
+export function TrendChart({ labels, series, selected, onSelect }: TrendChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const maxValue = niceMax(Math.max(0, ...series.flatMap(({ values }) => values)));
+
+  const x = (index: number) => PADDING.left + (labels.length <= 1 ? plotWidth / 2 : (index / (labels.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+  // Keep the x axis readable when there are many scans
+  const labelStep = Math.max(1, Math.ceil(labels.length / 8));
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Findings over time">
+        {Array.from({ length: Y_TICKS + 1 }, (_, tick) => {
+          const value = (maxValue / Y_TICKS) * tick;
+          return (
+            <g key={tick}>
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+              <text x={PADDING.left - 8} y={y(value)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#6b7280">
+                {Math.round(value)}
+              </text>
+            </g>
+          );
+        })}
+
+        {labels.map((label, index) => (
+          <g key={index}>
+            {selected.includes(index) && (
+              <line
+                x1={x(index)}
+                x2={x(index)}
+                y1={PADDING.top}
+                y2={PADDING.top + plotHeight}
+                stroke="#4f46e5"
+                strokeDasharray="4 3"
+              />
+            )}
+            {index % labelStep === 0 && (
+              <text x={x(index)} y={HEIGHT - PADDING.bottom + 18} textAnchor="middle" fontSize="11" fill="#6b7280">
+                {label}
+              </text>
+            )}
+          </g>
+        ))}
+
+        {series.map(({ name, values }, seriesIndex) => (
+          <g key={name}>
+            <polyline
+              points={values.map((value, index) => `${x(index)},${y(value)}`).join(' ')}
+              fill="none"
+              stroke={getColor(name, seriesIndex)}
+              strokeWidth="2"
+            />
+            {values.map((value, index) => (
+              <circle
+                key={index}
+                cx={x(index)}
+                cy={y(value)}
+                r={selected.includes(index) ? 6 : 4}
+                fill={selected.includes(index) ? getColor(name, seriesIndex) : '#fff'}
+                stroke={getColor(name, seriesIndex)}
+                strokeWidth="2"
+                className="cursor-pointer"
+                onClick={() => onSelect(index)}
+              >
+                <title>{`${labels[index]} · ${name}: ${value}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        {series.map(({ name }, seriesIndex) => (
+          <span key={name} className="inline-flex items-center gap-1 capitalize">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: getColor(name, seriesIndex) }} />
+            {name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
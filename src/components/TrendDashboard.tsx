@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from 'react';
+import { GitCompare, Trash2 } from 'lucide-react';
+import type { SarifLog } from '../types/sarif';
+import { getTrendSeries, sortScanPoints, type TrendMetric } from '../lib/trends';
+import { deleteScan, listProjects, listScans, loadScanLog, type StoredScan } from '../utils/scanHistory';
+import { TrendChart } from './TrendChart';
+
+interface TrendDashboardProps {
+  /** Opens two scans of the history in the comparison view. */
+  onCompare: (scans: Array<{ fileName: string; log: SarifLog }>) => void;
+}
+
+const METRIC_LABELS: Record<TrendMetric, string> = {
+  total: 'Total findings',
+  cwe: 'Findings per CWE',
+  severity: 'Findings per severity',
+};
+
+const formatScanLabel = ({ scanDate, commit }: StoredScan) => (commit ? `${scanDate} (${commit})` : scanDate);
+
+export function TrendDashboard({ onCompare }: TrendDashboardProps) {
+  const [projects, setProjects] = useState<string[]>([]);
+  const [project, setProject] = useState('');
+  const [scans, setScans] = useState<StoredScan[]>([]);
+  const [metric, setMetric] = useState<TrendMetric>('total');
+  const [selected, setSelected] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    listProjects()
+      .then(names => {
+        setProjects(names);
+        setProject(current => (names.includes(current) ? current : names[0] ?? ''));
+      })
+      .catch(err => setError(`Could not open the scan history: ${(err as Error).message}`));
+  }, []);
+
+  useEffect(() => {
+    if (!project) {
+      setScans([]);
+      return;
+    }
+    let cancelled = false;
+    listScans(project)
+      .then(projectScans => {
+        if (!cancelled) {
+          setScans(sortScanPoints(projectScans));
+          setSelected([]);
+        }
+      })
+      .catch(err => setError(`Could not load scans: ${(err as Error).message}`));
+    return () => {
+      cancelled = true;
+    };
+  }, [project]);
+
+  const series = useMemo(() => getTrendSeries(scans, metric), [scans, metric]);
+
+  // Keep the two most recently picked scans
+  const toggleSelected = (index: number) => {
+    setSelected(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].slice(-2)));
+  };
+
+  const removeScan = async (scan: StoredScan) => {
+    try {
+      await deleteScan(scan.id);
+      const remaining = scans.filter(s => s.id !== scan.id);
+      setScans(remaining);
+      setSelected([]);
+      if (remaining.length === 0) {
+        const names = await listProjects();
+        setProjects(names);
+        setProject(names[0] ?? '');
+      }
+    } catch (err) {
+      setError(`Could not delete the scan: ${(err as Error).message}`);
+    }
+  };
+
+  const compareSelected = async () => {
+    // Older scan first, so it is the baseline of the comparison
+    const picked = [...selected].sort((a, b) => a - b).map(index => scans[index]);
+    setIsLoading(true);
+    try {
+      const logs = await Promise.all(picked.map(scan => loadScanLog(scan.id)));
+      onCompare(picked.map((scan, i) => ({ fileName: `${scan.fileName} · ${formatScanLabel(scan)}`, log: logs[i] })));
+    } catch (err) {
+      setError(`Could not load the scans: ${(err as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (projects.length === 0 && !error) {
+    return (
+      <div className="bg-white shadow-md rounded-lg p-6 text-sm text-gray-600">
+        No scans in the history yet. Upload SARIF files and save them to a project to follow its findings over time.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+          <h2 className="text-lg font-semibold">Trends</h2>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+            <label className="flex items-center gap-2">
+              Project
+              <select
+                value={project}
+                onChange={(e) => setProject(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {projects.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Show
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as TrendMetric)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {(Object.keys(METRIC_LABELS) as TrendMetric[]).map(key => (
+                  <option key={key} value={key}>{METRIC_LABELS[key]}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={compareSelected}
+              disabled={selected.length !== 2 || isLoading}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <GitCompare className="w-4 h-4 mr-2" />
+              {isLoading ? 'Loading…' : 'Compare selected'}
+            </button>
+          </div>
+        </div>
+        <div className="p-4">
+          {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+          {scans.length > 0 && (
+            <>
+              <p className="mb-2 text-xs text-gray-500">Click two points or rows to compare those scans</p>
+              <TrendChart labels={scans.map(formatScanLabel)} series={series} selected={selected} onSelect={toggleSelected} />
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3"></th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scan date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Commit</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Findings</th>
+              <th className="px-6 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {scans.map((scan, index) => (
+              <tr
+                key={scan.id}
+                onClick={() => toggleSelected(index)}
+                className={`cursor-pointer ${selected.includes(index) ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+              >
+                <td className="px-6 py-3">
+                  <input type="checkbox" checked={selected.includes(index)} readOnly />
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{scan.scanDate}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-600">{scan.commit || '—'}</td>
+                <td className="px-6 py-3 text-sm text-gray-600 break-all">{scan.fileName}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{scan.snapshot.total}</td>
+                <td className="px-6 py-3 text-right">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeScan(scan);
+                    }}
+                    title="Delete from history"
+                    className="p-1 rounded-md text-gray-500 hover:bg-gray-100"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { TRIAGE_LABELS, TRIAGE_STATES, type TriageDecision, type TriageState } from '../lib/triage';
+
+interface TriageControlProps {
+  decision?: TriageDecision;
+  onChange: (decision: TriageDecision | null) => void;
+}
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const stateStyles: Record<TriageState, string> = {
+  falsePositive: 'bg-gray-100 text-gray-700',
+  acceptedRisk: 'bg-amber-100 text-amber-800',
+  fixed: 'bg-green-100 text-green-800',
+};
+
+/** Triage state and justification of one finding. */
+export function TriageControl({ decision, onChange }: TriageControlProps) {
+  // The justification is committed on blur, so typing does not rewrite the stored decisions
+  const [draft, setDraft] = useState<string | null>(null);
+  const justification = draft ?? decision?.justification ?? '';
+
+  const update = (state: TriageState | '', text: string) => {
+    onChange(state ? { state, justification: text, updatedAt: new Date().toISOString() } : null);
+  };
+
+  return (
+    <div className="flex flex-col gap-1 min-w-[140px]">
+      <select
+        value={decision?.state ?? ''}
+        onChange={(e) => update(e.target.value as TriageState | '', justification)}
+        className={`${inputClassName} ${decision ? stateStyles[decision.state] : ''}`}
+      >
+        <option value="">Untriaged</option>
+        {TRIAGE_STATES.map(state => (
+          <option key={state} value={state}>{TRIAGE_LABELS[state]}</option>
+        ))}
+      </select>
+      {decision && (
+        <input
+          value={justification}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => {
+            if (draft !== null && draft !== decision.justification) {
+              update(decision.state, draft);
+            }
+            setDraft(null);
+          }}
+          placeholder="Justification"
+          className={inputClassName}
+        />
+      )}
+    </div>
+  );
+}
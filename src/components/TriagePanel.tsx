@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Download, Upload } from 'lucide-react';
+import { countResults } from '../lib/filters';
+import type { SarifInput } from '../lib/runs';
+import {
+  applyTriageToLog,
+  countSuppressed,
+  countTriageStates,
+  createTriageFile,
+  mergeTriageDecisions,
+  parseTriageFile,
+  TRIAGE_LABELS,
+  TRIAGE_STATES,
+  type TriageDecisions,
+} from '../lib/triage';
+import { downloadFile } from '../utils/download';
+import type { LoadedSarif } from './SarifFileList';
+
+interface TriagePanelProps {
+  files: LoadedSarif[];
+  /** Inputs as shown, to count their open and suppressed findings. */
+  inputs: SarifInput[];
+  decisions: TriageDecisions;
+  onChange: (decisions: TriageDecisions) => void;
+  hideSuppressed: boolean;
+  onHideSuppressedChange: (hide: boolean) => void;
+}
+
+const buttonClassName = 'inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50';
+
+const withSuffix = (fileName: string, suffix: string) => fileName.replace(/(\.sarif)?(\.json)?$/i, `${suffix}.sarif`);
+
+/** Counts, import and export of triage decisions. */
+export function TriagePanel({ files, inputs, decisions, onChange, hideSuppressed, onHideSuppressedChange }: TriagePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const total = countResults(inputs);
+  const suppressed = countSuppressed(inputs, decisions);
+  const stateCounts = countTriageStates(decisions);
+  const decisionCount = Object.keys(decisions).length;
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onChange(mergeTriageDecisions(decisions, parseTriageFile(JSON.parse(await file.text()))));
+      setError(null);
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const exportDecisions = () => {
+    downloadFile(JSON.stringify(createTriageFile(decisions), null, 2), 'triage.json', 'application/json');
+  };
+
+  const exportSarif = (file: LoadedSarif) => {
+    const log = applyTriageToLog(file.log, decisions);
+    downloadFile(JSON.stringify(log, null, 2), withSuffix(file.fileName, '-triaged'), 'application/sarif+json');
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2 pr-6">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-6 py-3 flex items-center text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none"
+        >
+          {isOpen ? <ChevronDown className="w-4 h-4 mr-2" /> : <ChevronRight className="w-4 h-4 mr-2" />}
+          Triage
+          <span className="ml-2 text-xs text-gray-500">
+            ({total - suppressed} open · {suppressed} suppressed of {total})
+          </span>
+        </button>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={hideSuppressed} onChange={(e) => onHideSuppressedChange(e.target.checked)} />
+          Hide suppressed findings
+        </label>
+      </div>
+
+      {isOpen && (
+        <div className="border-t border-gray-200 px-6 py-4 space-y-4 text-sm">
+          <p className="text-xs text-gray-500">
+            Triage findings in the Detailed Results and CWE tabs. Decisions are saved in this browser and follow a
+            finding into later scans by its fingerprint, or by its rule, location and message when it has none. Findings
+            already suppressed in their SARIF log count as suppressed too. SARIF has no suppression for fixed findings,
+            so exported logs only suppress false positives and accepted risks.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {TRIAGE_STATES.map(state => (
+              <span key={state} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                {TRIAGE_LABELS[state]}: {stateCounts[state]}
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className={`${buttonClassName} cursor-pointer`}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import JSON
+              <input type="file" accept=".json" className="hidden" onChange={handleImport} />
+            </label>
+            <button onClick={exportDecisions} disabled={decisionCount === 0} className={buttonClassName}>
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </button>
+            {error && <span className="text-red-600">{error}</span>}
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {files.map(file => (
+              <li key={file.id} className="py-2 flex items-center justify-between gap-3">
+                <span className="text-gray-900 break-all">{file.fileName}</span>
+                <button onClick={() => exportSarif(file)} disabled={decisionCount === 0} className={buttonClassName}>
+                  <Download className="w-4 h-4 mr-2" />
+                  SARIF with suppressions
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useLayoutEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+
+interface VirtualTableProps<T> {
+  rows: T[];
+  /** Identifies the list shown; when it changes the table scrolls back to the top. */
+  listKey: string;
+  /** Header cells, kept in view while the body scrolls. */
+  header: ReactNode;
+  columnCount: number;
+  getRowKey: (row: T, index: number) => string;
+  /** One or more `<tr>` elements; rows may differ in height, e.g. when expanded. */
+  renderRow: (row: T, index: number) => ReactNode;
+  estimatedRowHeight?: number;
+  maxHeight?: string;
+  /** Rows added to the list each time the end of the loaded rows is scrolled into view. */
+  pageSize?: number;
+}
+
+const OVERSCAN_PX = 600;
+
+// Index of the last row starting at or before the offset
+const findRowAt = (offsets: Float64Array, offset: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(0, low);
+};
+
+/**
+ * Table that only renders the rows in and near its scroll viewport, and takes the rows into
+ * its scroll height a page at a time, so lists of many thousands of findings stay responsive.
+ * Every row is its own `<tbody>` so its height can be measured once rendered; rows not yet
+ * rendered count with the estimated height.
+ */
+export function VirtualTable<T>({
+  rows,
+  listKey,
+  header,
+  columnCount,
+  getRowKey,
+  renderRow,
+  estimatedRowHeight = 64,
+  maxHeight = '70vh',
+  pageSize = 500,
+}: VirtualTableProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Measured once rendered; the map is updated in place and a new wrapper re-renders with it
+  const [heights, setHeights] = useState(() => ({ byKey: new Map<string, number>() }));
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+  const [pageCount, setPageCount] = useState(1);
+
+  const loadedCount = Math.min(rows.length, pageCount * pageSize);
+  const keys = useMemo(() => rows.slice(0, loadedCount).map(getRowKey), [rows, loadedCount, getRowKey]);
+
+  const offsets = useMemo(() => {
+    const result = new Float64Array(keys.length + 1);
+    keys.forEach((key, i) => {
+      result[i + 1] = result[i] + (heights.byKey.get(key) ?? estimatedRowHeight);
+    });
+    return result;
+  }, [keys, estimatedRowHeight, heights]);
+
+  const start = findRowAt(offsets, scrollTop - OVERSCAN_PX);
+  const end = Math.min(keys.length, findRowAt(offsets, scrollTop + viewportHeight + OVERSCAN_PX) + 1);
+  const totalHeight = offsets[keys.length];
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let changed = false;
+    container.querySelectorAll<HTMLElement>('tbody[data-row-key]').forEach(element => {
+      const key = element.dataset.rowKey as string;
+      const height = element.getBoundingClientRect().height;
+      if (heights.byKey.get(key) !== height) {
+        heights.byKey.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) {
+      setHeights({ byKey: heights.byKey });
+    }
+  }, [keys, start, end, renderRow, heights]);
+
+  // Another list starts at its top, with only its first page loaded; changed rows of the same list keep the position
+  useLayoutEffect(() => {
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+    setScrollTop(0);
+    setPageCount(1);
+  }, [listKey]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    if (end >= loadedCount && loadedCount < rows.length) {
+      setPageCount(count => count + 1);
+    }
+  }, [end, loadedCount, rows.length]);
+
+  const spacer = (height: number) => height > 0 && (
+    <tbody>
+      <tr>
+        <td colSpan={columnCount} style={{ height, padding: 0 }} />
+      </tr>
+    </tbody>
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="overflow-auto"
+      style={{ maxHeight }}
+    >
+      <table className="min-w-full">
+        <thead className="bg-gray-50 sticky top-0 z-10 shadow-sm">
+          {header}
+        </thead>
+        {spacer(offsets[start])}
+        {keys.slice(start, end).map((key, i) => (
+          <tbody key={key} data-row-key={key} className="bg-white border-b border-gray-200">
+            {renderRow(rows[start + i], start + i)}
+          </tbody>
+        ))}
+        {spacer(totalHeight - offsets[end])}
+        {loadedCount < rows.length && (
+          <tbody>
+            <tr>
+              <td colSpan={columnCount} className="px-6 py-3 text-center text-xs text-gray-500">
+                Showing {loadedCount.toLocaleString()} of {rows.length.toLocaleString()} rows, more load as you scroll
+              </td>
+            </tr>
+          </tbody>
+        )}
+      </table>
+    </div>
+  );
+}
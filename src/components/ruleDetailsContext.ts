@@ -0,0 +1,11 @@
+import { createContext } from 'react';
+import type { Run } from '../types/sarif';
+
+/** A rule to show in the rule details drawer, with the run that declares it. */
+export interface RuleDetailsTarget {
+  run?: Run;
+  ruleId: string;
+}
+
+/** Opens the rule details drawer; rule IDs anywhere in the app link to it through this context. */
+export const RuleDetailsContext = createContext<(target: RuleDetailsTarget) => void>(() => {});
@@ -0,0 +1,118 @@
+import type { BaselineState, Result, Run, SarifLog } from '../types/sarif';
+import { DEFAULT_MATCH_OPTIONS, getResultLine, getResultUri, matchResults, type MatchOptions } from './matching';
+
+export interface BaselineDiffEntry {
+  state: BaselineState;
+  result: Result;
+  baselineResult?: Result;
+}
+
+export const BASELINE_STATES: BaselineState[] = ['new', 'updated', 'unchanged', 'absent'];
+
+export const SARIF_SCHEMA_URI = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const groupByRuleId = (results: Result[]) =>
+  results.reduce((acc, result) => {
+    if (!acc[result.ruleId]) {
+      acc[result.ruleId] = [];
+    }
+    acc[result.ruleId].push(result);
+    return acc;
+  }, {} as Record<string, Result[]>);
+
+// A matched result is "unchanged" only when nothing a reader would notice has moved
+const isUnchanged = (current: Result, baseline: Result): boolean =>
+  current.message?.text === baseline.message?.text &&
+  (current.level || '') === (baseline.level || '') &&
+  getResultUri(current) === getResultUri(baseline) &&
+  getResultLine(current) === getResultLine(baseline);
+
+/**
+ * Labels every result of the current scan relative to the baseline scan, following the
+ * SARIF `baselineState` semantics. Baseline results with no counterpart are reported as
+ * `absent`. Both scans are expected to come from the same tool, so matching is per rule.
+ */
+export const computeBaselineDiff = (
+  baselineResults: Result[],
+  currentResults: Result[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): BaselineDiffEntry[] => {
+  const baselineByRule = groupByRuleId(baselineResults);
+  const currentByRule = groupByRuleId(currentResults);
+  const ruleIds = [...new Set([...Object.keys(baselineByRule), ...Object.keys(currentByRule)])].sort();
+
+  return ruleIds.flatMap(ruleId => {
+    const { matched, onlyInA, onlyInB } = matchResults(
+      baselineByRule[ruleId] || [],
+      currentByRule[ruleId] || [],
+      options
+    );
+
+    return [
+      ...onlyInB.map(result => ({ state: 'new' as const, result })),
+      ...matched.map(([baselineResult, result]) => ({
+        state: isUnchanged(result, baselineResult) ? 'unchanged' as const : 'updated' as const,
+        result,
+        baselineResult,
+      })),
+      ...onlyInA.map(result => ({ state: 'absent' as const, result })),
+    ];
+  });
+};
+
+export const countBaselineStates = (entries: BaselineDiffEntry[]): Record<BaselineState, number> =>
+  entries.reduce((acc, { state }) => {
+    acc[state]++;
+    return acc;
+  }, { new: 0, unchanged: 0, updated: 0, absent: 0 } as Record<BaselineState, number>);
+
+/**
+ * Builds a SARIF log of the current run with `baselineState` set on every result. Rule
+ * indexes are pointed at the exported rules, since absent results carry baseline indexes.
+ */
+export const createBaselineSarif = (
+  currentRun: Run,
+  baselineRun: Run,
+  entries: BaselineDiffEntry[]
+): SarifLog => {
+  const currentRuleIds = new Set(currentRun.tool.driver.rules?.map(rule => rule.id));
+  // Absent results may refer to rules the current run no longer declares
+  const missingRules = (baselineRun.tool.driver.rules || []).filter(rule =>
+    !currentRuleIds.has(rule.id) &&
+    entries.some(({ state, result }) => state === 'absent' && result.ruleId === rule.id)
+  );
+
+  const rules = [...(currentRun.tool.driver.rules || []), ...missingRules];
+  const ruleIndexById = new Map<string, number>();
+  rules.forEach((rule, index) => {
+    if (!ruleIndexById.has(rule.id)) ruleIndexById.set(rule.id, index);
+  });
+  const withRuleIndex = (result: Result): Result => {
+    if (result.ruleIndex === undefined && result.rule?.index === undefined) return result;
+    // A rule missing from the exported rules is left to its id
+    const ruleIndex = ruleIndexById.get(result.ruleId);
+    return {
+      ...result,
+      ruleIndex: result.ruleIndex === undefined ? undefined : ruleIndex,
+      rule: result.rule && { ...result.rule, index: ruleIndex },
+    };
+  };
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: '2.1.0',
+    runs: [
+      {
+        ...currentRun,
+        tool: {
+          ...currentRun.tool,
+          driver: {
+            ...currentRun.tool.driver,
+            rules,
+          },
+        },
+        results: entries.map(({ state, result }) => ({ ...withRuleIndex(result), baselineState: state })),
+      },
+    ],
+  };
+};
@@ -0,0 +1,144 @@
+import type { Location, Result, ThreadFlowLocation } from '../types/sarif';
+import { DEFAULT_MATCH_OPTIONS, normalizeUri, sameArtifact, type MatchOptions } from './matching';
+
+export interface FlowStep {
+  uri: string;
+  line: number | null;
+  message: string;
+  nestingLevel: number;
+  kinds: string[];
+  importance?: ThreadFlowLocation['importance'];
+}
+
+/** One thread flow of a result, flattened into the steps a reader walks through. */
+export interface ResultFlow {
+  label: string;
+  message?: string;
+  steps: FlowStep[];
+}
+
+export type PathAgreement = 'same' | 'sameEndpoints' | 'sameSink' | 'different' | 'missing';
+
+export interface FlowComparison {
+  agreement: PathAgreement;
+  /** Steps both flows pass through, in the same order. */
+  sharedSteps: number;
+  /** Indexes into `getResultFlows` of the closest pair of flows. */
+  flowIndexA: number;
+  flowIndexB: number;
+}
+
+export const PATH_AGREEMENT_LABELS: Record<PathAgreement, string> = {
+  same: 'Same path',
+  sameEndpoints: 'Same source and sink',
+  sameSink: 'Same sink',
+  different: 'Different path',
+  missing: 'No path to compare',
+};
+
+export const formatLocation = (location?: Location): string => {
+  const uri = location?.physicalLocation?.artifactLocation?.uri || '';
+  const line = location?.physicalLocation?.region?.startLine;
+  return line ? `${uri}:${line}` : uri;
+};
+
+const toStep = (step: ThreadFlowLocation): FlowStep => ({
+  uri: step.location?.physicalLocation?.artifactLocation?.uri || '',
+  line: step.location?.physicalLocation?.region?.startLine ?? null,
+  message: step.location?.message?.text || '',
+  nestingLevel: step.nestingLevel ?? 0,
+  kinds: step.kinds || [],
+  importance: step.importance,
+});
+
+/**
+ * Flattens `codeFlows[].threadFlows[]` into one list of flows. Steps follow
+ * `executionOrder` when every step has one, and array order otherwise.
+ */
+export const getResultFlows = (result: Result): ResultFlow[] => {
+  const codeFlows = result.codeFlows || [];
+  return codeFlows.flatMap((codeFlow, codeFlowIndex) =>
+    (codeFlow.threadFlows || []).map((threadFlow, threadFlowIndex) => {
+      const locations = threadFlow.locations || [];
+      const ordered = locations.every(step => step.executionOrder !== undefined)
+        ? [...locations].sort((a, b) => (a.executionOrder ?? 0) - (b.executionOrder ?? 0))
+        : locations;
+      const label = codeFlow.threadFlows.length > 1
+        ? `Flow ${codeFlowIndex + 1}, thread ${threadFlow.id ?? threadFlowIndex + 1}`
+        : `Flow ${codeFlowIndex + 1}`;
+      return {
+        label,
+        message: threadFlow.message?.text || codeFlow.message?.text,
+        steps: ordered.map(toStep),
+      };
+    })
+  );
+};
+
+export const countFlowSteps = (result: Result): number =>
+  getResultFlows(result).reduce((sum, flow) => sum + flow.steps.length, 0);
+
+const sameStep = (a: FlowStep, b: FlowStep, options: MatchOptions): boolean => {
+  if (!sameArtifact(normalizeUri(a.uri), normalizeUri(b.uri))) return false;
+  if (a.line === null || b.line === null) return a.line === b.line;
+  return Math.abs(a.line - b.line) <= options.lineTolerance;
+};
+
+// Longest common subsequence of steps; flows are short enough for the quadratic table
+const countSharedSteps = (a: FlowStep[], b: FlowStep[], options: MatchOptions): number => {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const row = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = sameStep(a[i - 1], b[j - 1], options)
+        ? previous[j - 1] + 1
+        : Math.max(previous[j], row[j - 1]);
+    }
+    previous = row;
+  }
+  return previous[b.length];
+};
+
+const AGREEMENT_RANK: PathAgreement[] = ['same', 'sameEndpoints', 'sameSink', 'different', 'missing'];
+
+const compareSteps = (stepsA: FlowStep[], stepsB: FlowStep[], options: MatchOptions) => {
+  const sharedSteps = countSharedSteps(stepsA, stepsB, options);
+  const sameSource = sameStep(stepsA[0], stepsB[0], options);
+  const sameSink = sameStep(stepsA[stepsA.length - 1], stepsB[stepsB.length - 1], options);
+
+  let agreement: PathAgreement = 'different';
+  if (sharedSteps === stepsA.length && sharedSteps === stepsB.length) agreement = 'same';
+  else if (sameSource && sameSink) agreement = 'sameEndpoints';
+  else if (sameSink) agreement = 'sameSink';
+
+  return { agreement, sharedSteps };
+};
+
+/**
+ * Tells whether two matched results report the same taint path. Every flow of one result
+ * is compared with every flow of the other and the closest pair is returned; steps are the
+ * same when they sit on the same artifact within the line tolerance.
+ */
+export const compareResultFlows = (
+  a: Result,
+  b: Result,
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): FlowComparison => {
+  const flowsA = getResultFlows(a);
+  const flowsB = getResultFlows(b);
+
+  let best: FlowComparison = { agreement: 'missing', sharedSteps: 0, flowIndexA: 0, flowIndexB: 0 };
+  flowsA.forEach((flowA, flowIndexA) => {
+    flowsB.forEach((flowB, flowIndexB) => {
+      if (flowA.steps.length === 0 || flowB.steps.length === 0) return;
+      const { agreement, sharedSteps } = compareSteps(flowA.steps, flowB.steps, options);
+      if (
+        AGREEMENT_RANK.indexOf(agreement) < AGREEMENT_RANK.indexOf(best.agreement) ||
+        (agreement === best.agreement && sharedSteps > best.sharedSteps)
+      ) {
+        best = { agreement, sharedSteps, flowIndexA, flowIndexB };
+      }
+    });
+  });
+  return best;
+};
@@ -0,0 +1,216 @@
+import type { Result, Run } from '../types/sarif';
+import { createCWEResolver, getCWEResults, getRuleTags, groupByCWE, type CWEGroups } from './cwe';
+import { createGrouping, DEFAULT_GROUPING, getGroupNames, groupEntries, type GroupingOptions } from './grouping';
+import { DEFAULT_MATCH_OPTIONS, matchResults, type MatchOptions, type MatchOutcome } from './matching';
+import type { RunIndex } from './indexing';
+import type { SarifInput } from './runs';
+import {
+  countBySeverity,
+  createSeverityResolver,
+  getSeverityMapping,
+  sortEntriesByNormalizedSeverity,
+  type NormalizedSeverity,
+  type SeverityMappings,
+} from './severity';
+
+export interface PairComparison {
+  matched: number;
+  onlyInA: number;
+  onlyInB: number;
+  /** Jaccard similarity of the matched findings, as a percentage. */
+  similarity: number;
+}
+
+/** `matrix[i][j]` compares input `i` (A) with input `j` (B). */
+export type SimilarityMatrix = PairComparison[][];
+
+export interface CWESummaryRow {
+  cwe: string;
+  findings: number[];
+  deltas: number[];
+  matrix: SimilarityMatrix;
+  /** Mean similarity over all distinct pairs of inputs. */
+  meanSimilarity: number;
+}
+
+export interface ComparisonSummary {
+  toolNames: string[];
+  /** Header for the grouping column, e.g. "CWE" or "OWASP Top 10 (2021)". */
+  groupLabel: string;
+  cweGroups: CWEGroups[];
+  /** Names of the groups, from the logs' taxonomies or the bundled CWE and OWASP lists. */
+  cweNames: Record<string, string>;
+  /** Distinct CWEs before grouping, e.g. to offer roll-up categories. */
+  cwes: string[];
+  rows: CWESummaryRow[];
+  totals: number[];
+  /** Pairwise comparison over all CWEs combined. */
+  matrix: SimilarityMatrix;
+  meanSimilarity: number;
+}
+
+export interface RuleSummaryRow {
+  ruleId: string;
+  cwes: string[];
+  tags: string[];
+  count: number;
+  severity: NormalizedSeverity;
+}
+
+export interface InputSummary {
+  toolName: string;
+  entries: Array<[string, Result[]]>;
+  rows: RuleSummaryRow[];
+  groupLabel: string;
+  cweGroups: CWEGroups;
+  cweNames: Record<string, string>;
+  cwes: string[];
+  severityCounts: Record<NormalizedSeverity, number>;
+  total: number;
+}
+
+export const summarizeInput = (
+  { run, results, index }: { run?: Run; results: Record<string, Result[]>; index?: RunIndex },
+  groupingOptions: GroupingOptions = DEFAULT_GROUPING,
+  severityMappings: SeverityMappings = {}
+): InputSummary => {
+  const severityResolver = createSeverityResolver(run, getSeverityMapping(severityMappings, run?.tool.driver.name || ''));
+  const entries = sortEntriesByNormalizedSeverity(results, severityResolver);
+  const resolver = createCWEResolver(run, index?.cweByRule);
+  const grouping = createGrouping(groupingOptions);
+  const cweGroups = groupByCWE(entries, resolver);
+
+  return {
+    toolName: run?.tool.driver.name || 'Unknown',
+    entries,
+    rows: entries.map(([ruleId, items]) => {
+      return {
+        ruleId,
+        cwes: resolver.getRuleCWEs(ruleId),
+        tags: getRuleTags(run, ruleId, index?.ruleIndexById),
+        count: items.length,
+        severity: severityResolver.getRuleSeverity(ruleId, items),
+      };
+    }),
+    groupLabel: grouping.label,
+    cweGroups: groupEntries(grouping, entries, run?.tool.driver.name || '', cweGroups),
+    cweNames: getGroupNames(grouping, resolver.names),
+    cwes: Object.keys(cweGroups),
+    severityCounts: countBySeverity(entries.flatMap(([, items]) => items), severityResolver),
+    total: entries.reduce((sum, [, items]) => sum + items.length, 0),
+  };
+};
+
+export const getComparisonHeaders = (toolNames: string[]) => ({
+  findings: toolNames.map(name => `${name} Findings`),
+  deltas: toolNames.slice(1).map((name, i) => `Delta ${toolNames[i]} - ${name}`),
+  overlaps: toolNames.slice(1).flatMap(name => [
+    `Matched ${toolNames[0]} & ${name}`,
+    `Only in ${toolNames[0]} vs ${name}`,
+    `Only in ${name} vs ${toolNames[0]}`,
+  ]),
+  similarity: 'Mean Pairwise Similarity %',
+});
+
+/** Matched, only-in-first and only-in-other counts of every input against the first one, as in the `overlaps` headers. */
+export const getOverlapCounts = (matrix: SimilarityMatrix): number[] =>
+  matrix[0]?.slice(1).flatMap(({ matched, onlyInA, onlyInB }) => [matched, onlyInA, onlyInB]) ?? [];
+
+const toPairComparison = (matched: number, onlyInA: number, onlyInB: number): PairComparison => {
+  const union = matched + onlyInA + onlyInB;
+  return { matched, onlyInA, onlyInB, similarity: union === 0 ? 0 : (matched / union) * 100 };
+};
+
+const buildOutcomes = (resultsPerInput: Result[][], options: MatchOptions): MatchOutcome[][] => {
+  const outcomes: MatchOutcome[][] = resultsPerInput.map(() => []);
+  resultsPerInput.forEach((resultsA, i) => {
+    outcomes[i][i] = { matched: resultsA.map(result => [result, result]), onlyInA: [], onlyInB: [] };
+    resultsPerInput.slice(i + 1).forEach((resultsB, offset) => {
+      const j = i + 1 + offset;
+      const outcome = matchResults(resultsA, resultsB, options);
+      outcomes[i][j] = outcome;
+      outcomes[j][i] = {
+        matched: outcome.matched.map(([a, b]) => [b, a]),
+        onlyInA: outcome.onlyInB,
+        onlyInB: outcome.onlyInA,
+      };
+    });
+  });
+  return outcomes;
+};
+
+const toMatrix = (outcomes: MatchOutcome[][]): SimilarityMatrix =>
+  outcomes.map(row => row.map(({ matched, onlyInA, onlyInB }) =>
+    toPairComparison(matched.length, onlyInA.length, onlyInB.length)
+  ));
+
+// A result with several CWEs is compared once per CWE, so the overall counts use distinct
+// matched pairs, and results only count as unmatched when no CWE matched them
+const combineOutcomes = (outcomes: MatchOutcome[]): PairComparison => {
+  const pairs = new Map<Result, Set<Result>>();
+  const matchedA = new Set<Result>();
+  const matchedB = new Set<Result>();
+  outcomes.forEach(({ matched }) => matched.forEach(([a, b]) => {
+    pairs.set(a, (pairs.get(a) || new Set()).add(b));
+    matchedA.add(a);
+    matchedB.add(b);
+  }));
+  const onlyInA = new Set(outcomes.flatMap(({ onlyInA }) => onlyInA).filter(result => !matchedA.has(result)));
+  const onlyInB = new Set(outcomes.flatMap(({ onlyInB }) => onlyInB).filter(result => !matchedB.has(result)));
+  const matchedCount = [...pairs.values()].reduce((sum, set) => sum + set.size, 0);
+  return toPairComparison(matchedCount, onlyInA.size, onlyInB.size);
+};
+
+const getMeanSimilarity = (matrix: SimilarityMatrix): number => {
+  const pairs = matrix.flatMap((row, i) => row.slice(i + 1));
+  return pairs.length === 0 ? 0 : pairs.reduce((sum, { similarity }) => sum + similarity, 0) / pairs.length;
+};
+
+export const compareInputs = (
+  inputs: SarifInput[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS,
+  groupingOptions: GroupingOptions = DEFAULT_GROUPING
+): ComparisonSummary => {
+  const grouping = createGrouping(groupingOptions);
+  const resolvers = inputs.map(input => createCWEResolver(input.run, input.index.cweByRule));
+  const ungrouped = inputs.map((input, i) => groupByCWE(Object.entries(input.results), resolvers[i]));
+  const cweGroups = ungrouped.map((group, i) =>
+    groupEntries(grouping, Object.entries(inputs[i].results), inputs[i].run.tool.driver.name, group)
+  );
+  const toolNames = inputs.map(input => input.label);
+  const taxonomyNames = resolvers.reduce((acc, { names }) => ({ ...names, ...acc }), {} as Record<string, string>);
+
+  // Get all unique groups
+  const allCWEs = [...new Set(cweGroups.flatMap(group => Object.keys(group)))].sort(grouping.compare);
+
+  const outcomesByCWE = allCWEs.map(cwe => buildOutcomes(cweGroups.map(group => getCWEResults(group, cwe)), options));
+
+  const rows = allCWEs.map((cwe, index) => {
+    const findings = cweGroups.map(group => getCWEResults(group, cwe).length);
+
+    // Calculate deltas between consecutive pairs
+    const deltas = findings.slice(1).map((count, i) => count - findings[i]);
+
+    // Match individual findings between every pair of inputs
+    const matrix = toMatrix(outcomesByCWE[index]);
+
+    return { cwe, findings, deltas, matrix, meanSimilarity: getMeanSimilarity(matrix) };
+  });
+
+  // Findings only match within a group, so the overall matrix combines the per-group outcomes
+  const matrix = toolNames.map((_, i) => toolNames.map((_, j) =>
+    combineOutcomes(outcomesByCWE.map(outcomes => outcomes[i][j]))
+  ));
+
+  return {
+    toolNames,
+    groupLabel: grouping.label,
+    cweGroups,
+    cweNames: getGroupNames(grouping, taxonomyNames),
+    cwes: [...new Set(ungrouped.flatMap(group => Object.keys(group)))],
+    rows,
+    totals: inputs.map(input => Object.values(input.results).reduce((sum, items) => sum + items.length, 0)),
+    matrix,
+    meanSimilarity: getMeanSimilarity(matrix),
+  };
+};
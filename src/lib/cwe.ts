@@ -0,0 +1,154 @@
+import type { ReportingDescriptorReference, Result, Rule, Run, Taxonomy } from '../types/sarif';
+
+export type CWEGroups = Record<string, { ruleId: string; items: Result[] }[]>;
+
+/** Group for rules and results that no CWE could be found for. */
+export const UNMAPPED_CWE = 'Unmapped';
+
+export interface CWEResolver {
+  /** CWEs of a rule: relationships to a CWE taxonomy first, `CWE` tags as a fallback. */
+  getRuleCWEs: (ruleId: string) => string[];
+  /** CWEs of a result: its own `taxa` when they point into a CWE taxonomy, otherwise its rule's. */
+  getResultCWEs: (result: Result) => string[];
+  /** CWE names taken from the run's taxonomies, e.g. `CWE-79` to "Improper Neutralization of ...". */
+  names: Record<string, string>;
+}
+
+// Matches `CWE-79`, `CWE:79`, `cwe_79` and CodeQL's `external/cwe/cwe-079`
+const CWE_PATTERN = /(?:^|[^a-z])cwe[-:_/ ]?0*(\d+)/i;
+
+/** Normalizes a CWE reference to `CWE-<n>`. Bare numbers are accepted when `allowNumber` is set. */
+export const normalizeCWE = (value: string, allowNumber = false): string | null => {
+  const match = value.match(CWE_PATTERN);
+  if (match) return `CWE-${match[1]}`;
+  if (allowNumber && /^\d+$/.test(value.trim())) return `CWE-${Number(value.trim())}`;
+  return null;
+};
+
+export const getCWEsFromTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(tag => normalizeCWE(tag)).filter((cwe): cwe is string => cwe !== null))];
+
+/** Tags of a rule. With the `ruleIndexById` of a `RunIndex` the rule is looked up instead of searched for. */
+export const getRuleTags = (run: Run | undefined, ruleId: string, ruleIndexById?: Record<string, number>): string[] => {
+  const rules = run?.tool.driver.rules;
+  const rule = ruleIndexById ? rules?.[ruleIndexById[ruleId]] : rules?.find(r => r.id === ruleId);
+  return (rule?.id === ruleId && rule.properties?.tags) || [];
+};
+
+const isCWETaxonomy = (taxonomy?: Taxonomy): boolean => /cwe/i.test(taxonomy?.name || '');
+
+/**
+ * Resolves CWEs for the rules and results of a run. Lookups are cached per rule, and a
+ * precomputed rule-to-CWE map (from a `RunIndex`) is used as-is when given.
+ */
+export const createCWEResolver = (run?: Run, cweByRule?: Record<string, string[]>): CWEResolver => {
+  const taxonomies = run?.taxonomies || [];
+  const names: Record<string, string> = {};
+  taxonomies.filter(isCWETaxonomy).forEach(taxonomy => {
+    taxonomy.taxa?.forEach(taxon => {
+      const cwe = normalizeCWE(taxon.id, true);
+      const name = taxon.name || taxon.shortDescription?.text;
+      if (cwe && name && !names[cwe]) {
+        names[cwe] = name;
+      }
+    });
+  });
+
+  const findTaxonomy = (reference: ReportingDescriptorReference): Taxonomy | undefined => {
+    const { toolComponent } = reference;
+    if (!toolComponent) return undefined;
+    if (toolComponent.guid) {
+      const byGuid = taxonomies.find(taxonomy => taxonomy.guid === toolComponent.guid);
+      if (byGuid) return byGuid;
+    }
+    if (toolComponent.name) {
+      // A reference by name may point at a taxonomy the log does not embed
+      return taxonomies.find(taxonomy => taxonomy.name === toolComponent.name) ?? { name: toolComponent.name };
+    }
+    return toolComponent.index !== undefined ? taxonomies[toolComponent.index] : undefined;
+  };
+
+  const resolveReference = (reference: ReportingDescriptorReference): string | null => {
+    const taxonomy = findTaxonomy(reference);
+    if (!isCWETaxonomy(taxonomy)) return null;
+    const id = reference.id ?? (reference.index !== undefined ? taxonomy?.taxa?.[reference.index]?.id : undefined);
+    return id ? normalizeCWE(id, true) : null;
+  };
+
+  const resolveReferences = (references: ReportingDescriptorReference[] = []): string[] =>
+    [...new Set(references.map(resolveReference).filter((cwe): cwe is string => cwe !== null))];
+
+  const rulesById = new Map<string, Rule>();
+  run?.tool.driver.rules?.forEach(rule => {
+    if (!rulesById.has(rule.id)) {
+      rulesById.set(rule.id, rule);
+    }
+  });
+
+  const cache = new Map<string, string[]>(Object.entries(cweByRule || {}));
+  const getRuleCWEs = (ruleId: string): string[] => {
+    const cached = cache.get(ruleId);
+    if (cached) return cached;
+
+    const rule = rulesById.get(ruleId);
+    const fromRelationships = resolveReferences(rule?.relationships?.map(({ target }) => target));
+    const cwes = fromRelationships.length > 0 ? fromRelationships : getCWEsFromTags(rule?.properties?.tags || []);
+    cache.set(ruleId, cwes);
+    return cwes;
+  };
+
+  const getResultCWEs = (result: Result): string[] => {
+    const fromTaxa = resolveReferences(result.taxa);
+    return fromTaxa.length > 0 ? fromTaxa : getRuleCWEs(result.ruleId);
+  };
+
+  return { getRuleCWEs, getResultCWEs, names };
+};
+
+/** Orders CWEs by number, with the unmapped group last. */
+export const compareCWEs = (a: string, b: string): number => {
+  if (a === UNMAPPED_CWE || b === UNMAPPED_CWE) return Number(a === UNMAPPED_CWE) - Number(b === UNMAPPED_CWE);
+  const numberA = Number(a.replace(/\D/g, ''));
+  const numberB = Number(b.replace(/\D/g, ''));
+  return numberA - numberB || a.localeCompare(b);
+};
+
+// Group rule entries by CWE, keeping the order in which the entries are passed in. A result
+// with several CWEs is listed under each of them; one with none goes to the unmapped group.
+export const groupByCWE = (entries: Array<[string, Result[]]>, resolver: CWEResolver): CWEGroups => {
+  const cweGroups: CWEGroups = {};
+  const add = (cwe: string, ruleId: string, items: Result[]) => {
+    if (!cweGroups[cwe]) {
+      cweGroups[cwe] = [];
+    }
+    cweGroups[cwe].push({ ruleId, items });
+  };
+
+  entries.forEach(([ruleId, items]) => {
+    if (!items.some(result => result.taxa?.length)) {
+      const cwes = resolver.getRuleCWEs(ruleId);
+      (cwes.length > 0 ? cwes : [UNMAPPED_CWE]).forEach(cwe => add(cwe, ruleId, items));
+      return;
+    }
+
+    const itemsByCWE = new Map<string, Result[]>();
+    items.forEach(result => {
+      const cwes = resolver.getResultCWEs(result);
+      (cwes.length > 0 ? cwes : [UNMAPPED_CWE]).forEach(cwe => {
+        const cweItems = itemsByCWE.get(cwe) || [];
+        cweItems.push(result);
+        itemsByCWE.set(cwe, cweItems);
+      });
+    });
+    itemsByCWE.forEach((cweItems, cwe) => add(cwe, ruleId, cweItems));
+  });
+
+  return cweGroups;
+};
+
+export const getCWEResults = (group: CWEGroups, cwe: string): Result[] =>
+  group[cwe]?.flatMap(({ items }) => items) || [];
+
+/** Formats a CWE with its taxonomy name when one is known. */
+export const formatCWE = (cwe: string, names: Record<string, string>): string =>
+  names[cwe] ? `${cwe}: ${names[cwe]}` : cwe;
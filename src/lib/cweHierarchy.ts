@@ -0,0 +1,309 @@
+/**
+ * Offline subset of the CWE Research View (CWE-1000): every weakness commonly reported by
+ * static analysis tools, with its ChildOf links up to one of the ten pillars. The first
+ * parent listed is the primary one and is the path used when rolling up.
+ */
+const CWE_ENTRIES: Array<[number, string, number[]]> = [
+  // Pillars
+  [284, 'Improper Access Control', []],
+  [435, 'Improper Interaction Between Multiple Correctly-Behaving Entities', []],
+  [664, 'Improper Control of a Resource Through its Lifetime', []],
+  [682, 'Incorrect Calculation', []],
+  [691, 'Insufficient Control Flow Management', []],
+  [693, 'Protection Mechanism Failure', []],
+  [697, 'Incorrect Comparison', []],
+  [703, 'Improper Check or Handling of Exceptional Conditions', []],
+  [707, 'Improper Neutralization', []],
+  [710, 'Improper Adherence to Coding Standards', []],
+
+  // Improper Neutralization
+  [20, 'Improper Input Validation', [707]],
+  [1284, 'Improper Validation of Specified Quantity in Input', [20]],
+  [1285, 'Improper Validation of Specified Index, Position, or Offset in Input', [20]],
+  [129, 'Improper Validation of Array Index', [1285]],
+  [1287, 'Improper Validation of Specified Type of Input', [20]],
+  [74, "Improper Neutralization of Special Elements in Output Used by a Downstream Component ('Injection')", [707]],
+  [75, 'Failure to Sanitize Special Elements into a Different Plane (Special Element Injection)', [74]],
+  [77, "Improper Neutralization of Special Elements used in a Command ('Command Injection')", [74]],
+  [78, "Improper Neutralization of Special Elements used in an OS Command ('OS Command Injection')", [77]],
+  [88, "Improper Neutralization of Argument Delimiters in a Command ('Argument Injection')", [77]],
+  [917, "Improper Neutralization of Special Elements used in an Expression Language Statement ('Expression Language Injection')", [77]],
+  [79, "Improper Neutralization of Input During Web Page Generation ('Cross-site Scripting')", [74]],
+  [80, 'Improper Neutralization of Script-Related HTML Tags in a Web Page (Basic XSS)', [79]],
+  [83, 'Improper Neutralization of Script in Attributes in a Web Page', [79]],
+  [87, 'Improper Neutralization of Alternate XSS Syntax', [79]],
+  [91, 'XML Injection (aka Blind XPath Injection)', [74]],
+  [643, "Improper Neutralization of Data within XPath Expressions ('XPath Injection')", [943, 91]],
+  [652, "Improper Neutralization of Data within XQuery Expressions ('XQuery Injection')", [943, 91]],
+  [93, "Improper Neutralization of CRLF Sequences ('CRLF Injection')", [74]],
+  [113, "Improper Neutralization of CRLF Sequences in HTTP Headers ('HTTP Request/Response Splitting')", [93, 436]],
+  [94, "Improper Control of Generation of Code ('Code Injection')", [74, 913]],
+  [95, "Improper Neutralization of Directives in Dynamically Evaluated Code ('Eval Injection')", [94]],
+  [1336, 'Improper Neutralization of Special Elements Used in a Template Engine', [94]],
+  [943, 'Improper Neutralization of Special Elements in Data Query Logic', [74]],
+  [89, "Improper Neutralization of Special Elements used in an SQL Command ('SQL Injection')", [943]],
+  [564, 'SQL Injection: Hibernate', [89]],
+  [90, "Improper Neutralization of Special Elements used in an LDAP Query ('LDAP Injection')", [943]],
+  [99, "Improper Control of Resource Identifiers ('Resource Injection')", [74]],
+  [1236, 'Improper Neutralization of Formula Elements in a CSV File', [74]],
+  [116, 'Improper Encoding or Escaping of Output', [707]],
+  [117, 'Improper Output Neutralization for Logs', [116]],
+  [838, 'Inappropriate Encoding for Output Context', [116]],
+  [138, 'Improper Neutralization of Special Elements', [707]],
+  [170, 'Improper Null Termination', [707]],
+
+  // Improper Control of a Resource Through its Lifetime
+  [118, "Incorrect Access of Indexable Resource ('Range Error')", [664]],
+  [119, 'Improper Restriction of Operations within the Bounds of a Memory Buffer', [118]],
+  [125, 'Out-of-bounds Read', [119]],
+  [126, 'Buffer Over-read', [125]],
+  [127, 'Buffer Under-read', [125]],
+  [787, 'Out-of-bounds Write', [119]],
+  [120, "Buffer Copy without Checking Size of Input ('Classic Buffer Overflow')", [787]],
+  [121, 'Stack-based Buffer Overflow', [787]],
+  [122, 'Heap-based Buffer Overflow', [787]],
+  [805, 'Buffer Access with Incorrect Length Value', [119]],
+  [822, 'Untrusted Pointer Dereference', [119]],
+  [824, 'Access of Uninitialized Pointer', [119]],
+  [825, 'Expired Pointer Dereference', [119, 672]],
+  [416, 'Use After Free', [825, 672]],
+  [415, 'Double Free', [825, 672]],
+  [706, 'Use of Incorrectly-Resolved Name or Reference', [664]],
+  [22, "Improper Limitation of a Pathname to a Restricted Directory ('Path Traversal')", [706, 668]],
+  [23, 'Relative Path Traversal', [22]],
+  [36, 'Absolute Path Traversal', [22]],
+  [59, "Improper Link Resolution Before File Access ('Link Following')", [706]],
+  [98, "Improper Control of Filename for Include/Require Statement in PHP Program ('PHP Remote File Inclusion')", [829, 706]],
+  [827, 'Improper Control of Document Type Definition', [706]],
+  [610, 'Externally Controlled Reference to a Resource in Another Sphere', [664]],
+  [15, 'External Control of System or Configuration Setting', [642, 610]],
+  [73, 'External Control of File Name or Path', [610, 642]],
+  [384, 'Session Fixation', [610]],
+  [441, "Unintended Proxy or Intermediary ('Confused Deputy')", [610]],
+  [918, 'Server-Side Request Forgery (SSRF)', [441]],
+  [1021, 'Improper Restriction of Rendered UI Layers or Frames', [441]],
+  [601, "URL Redirection to Untrusted Site ('Open Redirect')", [610]],
+  [611, 'Improper Restriction of XML External Entity Reference', [610]],
+  [668, 'Exposure of Resource to Wrong Sphere', [664]],
+  [134, 'Use of Externally-Controlled Format String', [668]],
+  [200, 'Exposure of Sensitive Information to an Unauthorized Actor', [668]],
+  [201, 'Insertion of Sensitive Information Into Sent Data', [200]],
+  [203, 'Observable Discrepancy', [200]],
+  [209, 'Generation of Error Message Containing Sensitive Information', [200, 755]],
+  [215, 'Insertion of Sensitive Information Into Debugging Code', [200]],
+  [359, 'Exposure of Private Personal Information to an Unauthorized Actor', [200]],
+  [497, 'Exposure of Sensitive System Information to an Unauthorized Control Sphere', [200]],
+  [548, 'Exposure of Information Through Directory Listing', [497]],
+  [538, 'Insertion of Sensitive Information into Externally-Accessible File or Directory', [200]],
+  [532, 'Insertion of Sensitive Information into Log File', [538]],
+  [377, 'Insecure Temporary File', [668]],
+  [524, 'Use of Cache Containing Sensitive Information', [668]],
+  [525, 'Use of Web Browser Cache Containing Sensitive Information', [524]],
+  [552, 'Files or Directories Accessible to External Parties', [668, 285]],
+  [642, 'External Control of Critical State Data', [668]],
+  [669, 'Incorrect Resource Transfer Between Spheres', [664]],
+  [434, 'Unrestricted Upload of File with Dangerous Type', [669]],
+  [494, 'Download of Code Without Integrity Check', [669]],
+  [829, 'Inclusion of Functionality from Untrusted Control Sphere', [669]],
+  [400, 'Uncontrolled Resource Consumption', [664]],
+  [405, 'Asymmetric Resource Consumption (Amplification)', [400]],
+  [407, 'Inefficient Algorithmic Complexity', [405]],
+  [1333, 'Inefficient Regular Expression Complexity', [407]],
+  [776, "Improper Restriction of Recursive Entity References in DTDs ('XML Entity Expansion')", [405, 674]],
+  [770, 'Allocation of Resources Without Limits or Throttling', [400, 665]],
+  [404, 'Improper Resource Shutdown or Release', [664]],
+  [459, 'Incomplete Cleanup', [404]],
+  [772, 'Missing Release of Resource after Effective Lifetime', [404]],
+  [401, 'Missing Release of Memory after Effective Lifetime', [772]],
+  [775, 'Missing Release of File Descriptor or Handle after Effective Lifetime', [772]],
+  [665, 'Improper Initialization', [664]],
+  [908, 'Use of Uninitialized Resource', [665]],
+  [457, 'Use of Uninitialized Variable', [908]],
+  [1188, 'Initialization of a Resource with an Insecure Default', [665]],
+  [666, 'Operation on Resource in Wrong Phase of Lifetime', [664]],
+  [672, 'Operation on a Resource after Expiration or Release', [666]],
+  [613, 'Insufficient Session Expiration', [672]],
+  [662, 'Improper Synchronization', [664, 691]],
+  [667, 'Improper Locking', [662]],
+  [704, 'Incorrect Type Conversion or Cast', [664]],
+  [681, 'Incorrect Conversion between Numeric Types', [704]],
+  [843, "Access of Resource Using Incompatible Type ('Type Confusion')", [704]],
+  [913, 'Improper Control of Dynamically-Managed Code Resources', [664]],
+  [470, "Use of Externally-Controlled Input to Select Classes or Code ('Unsafe Reflection')", [913, 610]],
+  [502, 'Deserialization of Untrusted Data', [913]],
+  [915, 'Improperly Controlled Modification of Dynamically-Determined Object Attributes', [913]],
+  [1321, "Improperly Controlled Modification of Object Prototype Attributes ('Prototype Pollution')", [915]],
+  [221, 'Information Loss or Omission', [664]],
+  [223, 'Omission of Security-relevant Information', [221]],
+  [778, 'Insufficient Logging', [223]],
+  [922, 'Insecure Storage of Sensitive Information', [664]],
+  [312, 'Cleartext Storage of Sensitive Information', [922]],
+  [315, 'Cleartext Storage of Sensitive Information in a Cookie', [312]],
+  [732, 'Incorrect Permission Assignment for Critical Resource', [285, 668]],
+  [276, 'Incorrect Default Permissions', [732]],
+  [1004, "Sensitive Cookie Without 'HttpOnly' Flag", [732]],
+
+  // Improper Access Control
+  [285, 'Improper Authorization', [284]],
+  [862, 'Missing Authorization', [285]],
+  [425, "Direct Request ('Forced Browsing')", [862]],
+  [863, 'Incorrect Authorization', [285]],
+  [639, 'Authorization Bypass Through User-Controlled Key', [863]],
+  [287, 'Improper Authentication', [284]],
+  [306, 'Missing Authentication for Critical Function', [287]],
+  [295, 'Improper Certificate Validation', [287]],
+  [297, 'Improper Validation of Certificate with Host Mismatch', [295, 923]],
+  [1390, 'Weak Authentication', [287]],
+  [307, 'Improper Restriction of Excessive Authentication Attempts', [1390]],
+  [620, 'Unverified Password Change', [1390]],
+  [1391, 'Use of Weak Credentials', [1390]],
+  [798, 'Use of Hard-coded Credentials', [1391, 344]],
+  [259, 'Use of Hard-coded Password', [798]],
+  [321, 'Use of Hard-coded Cryptographic Key', [798]],
+  [522, 'Insufficiently Protected Credentials', [1390, 668]],
+  [256, 'Plaintext Storage of a Password', [522]],
+  [523, 'Unprotected Transport of Credentials', [522]],
+  [269, 'Improper Privilege Management', [284]],
+  [250, 'Execution with Unnecessary Privileges', [269, 657]],
+  [266, 'Incorrect Privilege Assignment', [269]],
+  [1022, 'Use of Web Link to Untrusted Target with window.opener Access', [266]],
+  [282, 'Improper Ownership Management', [284]],
+  [749, 'Exposed Dangerous Method or Function', [284]],
+  [923, 'Improper Restriction of Communication Channel to Intended Endpoints', [284]],
+  [940, 'Improper Verification of Source of a Communication Channel', [923]],
+  [1275, 'Sensitive Cookie with Improper SameSite Attribute', [923]],
+
+  // Protection Mechanism Failure
+  [311, 'Missing Encryption of Sensitive Data', [693]],
+  [319, 'Cleartext Transmission of Sensitive Information', [311]],
+  [614, "Sensitive Cookie in HTTPS Session Without 'Secure' Attribute", [319]],
+  [326, 'Inadequate Encryption Strength', [693]],
+  [328, 'Use of Weak Hash', [326]],
+  [916, 'Use of Password Hash With Insufficient Computational Effort', [328]],
+  [327, 'Use of a Broken or Risky Cryptographic Algorithm', [693]],
+  [780, 'Use of RSA Algorithm without OAEP', [327]],
+  [757, "Selection of Less-Secure Algorithm During Negotiation ('Algorithm Downgrade')", [693]],
+  [330, 'Use of Insufficiently Random Values', [693]],
+  [335, 'Incorrect Usage of Seeds in Pseudo-Random Number Generator (PRNG)', [330]],
+  [338, 'Use of Cryptographically Weak Pseudo-Random Number Generator (PRNG)', [330]],
+  [344, 'Use of Invariant Value in Dynamically Changing Context', [330]],
+  [345, 'Insufficient Verification of Data Authenticity', [693]],
+  [346, 'Origin Validation Error', [345, 284]],
+  [942, 'Permissive Cross-domain Policy with Untrusted Domains', [346]],
+  [1385, 'Missing Origin Validation in WebSockets', [346]],
+  [347, 'Improper Verification of Cryptographic Signature', [345]],
+  [352, 'Cross-Site Request Forgery (CSRF)', [345]],
+  [353, 'Missing Support for Integrity Check', [345]],
+  [807, 'Reliance on Untrusted Inputs in a Security Decision', [693]],
+
+  // Insufficient Control Flow Management
+  [362, "Concurrent Execution using Shared Resource with Improper Synchronization ('Race Condition')", [691]],
+  [367, 'Time-of-check Time-of-use (TOCTOU) Race Condition', [362]],
+  [670, 'Always-Incorrect Control Flow Implementation', [691]],
+  [705, 'Incorrect Control Flow Scoping', [691]],
+  [248, 'Uncaught Exception', [705]],
+  [396, 'Declaration of Catch for Generic Exception', [705]],
+  [397, 'Declaration of Throws for Generic Exception', [705]],
+  [834, 'Excessive Iteration', [691]],
+  [835, "Loop with Unreachable Exit Condition ('Infinite Loop')", [834]],
+  [674, 'Uncontrolled Recursion', [834]],
+  [841, 'Improper Enforcement of Behavioral Workflow', [691]],
+
+  // Improper Check or Handling of Exceptional Conditions
+  [754, 'Improper Check for Unusual or Exceptional Conditions', [703]],
+  [252, 'Unchecked Return Value', [754]],
+  [391, 'Unchecked Error Condition', [754]],
+  [476, 'NULL Pointer Dereference', [754]],
+  [755, 'Improper Handling of Exceptional Conditions', [703]],
+  [390, 'Detection of Error Condition Without Action', [755]],
+
+  // Incorrect Comparison
+  [183, 'Permissive List of Allowed Inputs', [697]],
+  [185, 'Incorrect Regular Expression', [697]],
+  [625, 'Permissive Regular Expression', [185]],
+  [1023, 'Incomplete Comparison with Missing Factors', [697]],
+  [184, 'Incomplete List of Disallowed Inputs', [1023]],
+  [1024, 'Comparison of Incompatible Types', [697]],
+  [1025, 'Comparison Using Wrong Factors', [697]],
+  [595, 'Comparison of Object References Instead of Object Contents', [1025]],
+  [597, 'Use of Wrong Operator in String Comparison', [595]],
+
+  // Incorrect Calculation
+  [131, 'Incorrect Calculation of Buffer Size', [682]],
+  [190, 'Integer Overflow or Wraparound', [682]],
+  [191, 'Integer Underflow (Wrap or Wraparound)', [682]],
+  [193, 'Off-by-one Error', [682]],
+  [369, 'Divide By Zero', [682]],
+
+  // Improper Adherence to Coding Standards
+  [477, 'Use of Obsolete Function', [710]],
+  [489, 'Active Debug Code', [710]],
+  [570, 'Expression is Always False', [710]],
+  [571, 'Expression is Always True', [710]],
+  [657, 'Violation of Secure Design Principles', [710]],
+  [758, 'Reliance on Undefined, Unspecified, or Implementation-Defined Behavior', [710]],
+  [1076, 'Insufficient Adherence to Expected Conventions', [710]],
+  [1078, 'Inappropriate Source Code Style or Formatting', [1076]],
+  [547, 'Use of Hard-coded, Security-relevant Constants', [1078]],
+  [1120, 'Excessive Code Complexity', [710]],
+  [1164, 'Irrelevant Code', [710]],
+  [561, 'Dead Code', [1164]],
+  [563, 'Assignment to Variable without Use', [1164]],
+  [1177, 'Use of Prohibited Code', [710]],
+  [676, 'Use of Potentially Dangerous Function', [1177]],
+
+  // Improper Interaction Between Multiple Correctly-Behaving Entities
+  [436, 'Interpretation Conflict', [435]],
+  [444, "Inconsistent Interpretation of HTTP Requests ('HTTP Request/Response Smuggling')", [436]],
+];
+
+const toId = (id: number) => `CWE-${id}`;
+
+/** Names of the CWEs in the bundled hierarchy. */
+export const CWE_NAMES: Record<string, string> = Object.fromEntries(
+  CWE_ENTRIES.map(([id, name]) => [toId(id), name])
+);
+
+const PARENTS = new Map<string, string[]>(CWE_ENTRIES.map(([id, , parents]) => [toId(id), parents.map(toId)]));
+
+export const isKnownCWE = (cwe: string): boolean => PARENTS.has(cwe);
+
+/**
+ * The primary ancestor chain of a CWE from its pillar down to the CWE itself, e.g.
+ * `CWE-564` gives `CWE-707, CWE-74, CWE-943, CWE-89, CWE-564`. CWEs outside the bundled
+ * hierarchy are their own single-element chain.
+ */
+export const getCWEPath = (cwe: string): string[] => {
+  const path = [cwe];
+  let current = PARENTS.get(cwe)?.[0];
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = PARENTS.get(current)?.[0];
+  }
+  return path;
+};
+
+/** Every ancestor of a CWE along all ChildOf links, nearest first. */
+export const getCWEAncestors = (cwe: string): string[] => {
+  const ancestors: string[] = [];
+  const queue = [...(PARENTS.get(cwe) || [])];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (next !== cwe && !ancestors.includes(next)) {
+      ancestors.push(next);
+      queue.push(...(PARENTS.get(next) || []));
+    }
+  }
+  return ancestors;
+};
+
+/** Rolls a CWE up to its ancestor at `depth` on the primary path; pillars are depth 0. */
+export const rollUpToDepth = (cwe: string, depth: number): string => {
+  if (!isKnownCWE(cwe)) return cwe;
+  const path = getCWEPath(cwe);
+  return path[Math.min(depth, path.length - 1)];
+};
+
+/** Rolls a CWE up to `category` when it is that category or one of its descendants. */
+export const rollUpToCategory = (cwe: string, category: string): string =>
+  cwe === category || getCWEAncestors(cwe).includes(category) ? category : cwe;
@@ -0,0 +1,144 @@
+import { createCWEResolver, UNMAPPED_CWE } from './cwe';
+import { getResultUri } from './matching';
+import type { SarifInput } from './runs';
+import { getInputSeverityResolver, SEVERITIES, type NormalizedSeverity, type SeverityMappings } from './severity';
+
+/** Findings of one input under a tree node. */
+export interface NodeCounts {
+  total: number;
+  severities: Record<NormalizedSeverity, number>;
+  /** Findings per CWE; a finding with several CWEs counts towards each. */
+  cwes: Record<string, number>;
+}
+
+export interface DirectoryNode {
+  /** Segment shown in the tree; chains of single directories are joined, e.g. `src/main/java`. */
+  name: string;
+  /** Repository-relative path of the node, empty for the root. */
+  path: string;
+  isFile: boolean;
+  /** Counts per input, in input order. */
+  counts: NodeCounts[];
+  /** Directories first, then files, each by most findings. */
+  children: DirectoryNode[];
+}
+
+export interface DirectoryTree {
+  root: DirectoryNode;
+  /** Findings per input without an artifact URI, which are not in the tree. */
+  unlocated: number[];
+}
+
+const createCounts = (): NodeCounts => ({
+  total: 0,
+  severities: Object.fromEntries(SEVERITIES.map(severity => [severity, 0])) as Record<NormalizedSeverity, number>,
+  cwes: {},
+});
+
+const createNode = (name: string, path: string, isFile: boolean, inputCount: number): DirectoryNode => ({
+  name,
+  path,
+  isFile,
+  counts: Array.from({ length: inputCount }, createCounts),
+  children: [],
+});
+
+export const getNodeTotal = (node: DirectoryNode): number =>
+  node.counts.reduce((sum, counts) => sum + counts.total, 0);
+
+/** Severity and CWE counts of a node summed over every input. */
+export const sumNodeCounts = (node: DirectoryNode): NodeCounts => {
+  const sum = createCounts();
+  node.counts.forEach(counts => {
+    sum.total += counts.total;
+    SEVERITIES.forEach(severity => {
+      sum.severities[severity] += counts.severities[severity];
+    });
+    Object.entries(counts.cwes).forEach(([cwe, count]) => {
+      sum.cwes[cwe] = (sum.cwes[cwe] || 0) + count;
+    });
+  });
+  return sum;
+};
+
+/** The CWEs with the most findings, most first. */
+export const getTopCWEs = (counts: NodeCounts, limit = 3): Array<[string, number]> =>
+  Object.entries(counts.cwes)
+    .sort(([cweA, a], [cweB, b]) => b - a || cweA.localeCompare(cweB))
+    .slice(0, limit);
+
+const sortTree = (node: DirectoryNode) => {
+  node.children.sort((a, b) =>
+    Number(a.isFile) - Number(b.isFile) || getNodeTotal(b) - getNodeTotal(a) || a.name.localeCompare(b.name));
+  node.children.forEach(sortTree);
+};
+
+// A directory whose only child is a directory is shown as one node
+const compactTree = (node: DirectoryNode): DirectoryNode => {
+  let current = node;
+  while (current.path && current.children.length === 1 && !current.children[0].isFile) {
+    const [child] = current.children;
+    current = { ...child, name: `${current.name}/${child.name}` };
+  }
+  return { ...current, children: current.children.map(compactTree) };
+};
+
+/**
+ * Builds a directory tree of the artifact paths of every input's results, with finding counts
+ * per input at each node. Counts of a directory include everything below it.
+ */
+export const buildDirectoryTree = (inputs: SarifInput[], severityMappings: SeverityMappings = {}): DirectoryTree => {
+  const root = createNode('', '', false, inputs.length);
+  const unlocated = inputs.map(() => 0);
+  // Files and directories may share a path, so the kind is part of the key
+  const nodesByKey = new Map<string, DirectoryNode>();
+
+  inputs.forEach((input, inputIndex) => {
+    const cweResolver = createCWEResolver(input.run, input.index.cweByRule);
+    const severityResolver = getInputSeverityResolver(input, severityMappings);
+
+    Object.values(input.results).flat().forEach(result => {
+      const uri = getResultUri(result);
+      if (!uri) {
+        unlocated[inputIndex]++;
+        return;
+      }
+      const severity = severityResolver.getResultSeverity(result).severity;
+      const resultCWEs = cweResolver.getResultCWEs(result);
+      const cwes = resultCWEs.length > 0 ? resultCWEs : [UNMAPPED_CWE];
+      const segments = uri.split('/').filter(Boolean);
+
+      let node = root;
+      const nodes = [root];
+      segments.forEach((segment, i) => {
+        const isFile = i === segments.length - 1;
+        const path = segments.slice(0, i + 1).join('/');
+        const key = `${isFile ? 'file' : 'dir'}:${path}`;
+        let child = nodesByKey.get(key);
+        if (!child) {
+          child = createNode(segment, path, isFile, inputs.length);
+          nodesByKey.set(key, child);
+          node.children.push(child);
+        }
+        node = child;
+        nodes.push(child);
+      });
+
+      nodes.forEach(({ counts }) => {
+        const target = counts[inputIndex];
+        target.total++;
+        target.severities[severity]++;
+        cwes.forEach(cwe => {
+          target.cwes[cwe] = (target.cwes[cwe] || 0) + 1;
+        });
+      });
+    });
+  });
+
+  sortTree(root);
+  return { root: compactTree(root), unlocated };
+};
+
+/** The path glob, anchored at the repository root, that selects a node and everything below it. */
+export const getNodeGlob = (node: Pick<DirectoryNode, 'path' | 'isFile'>): string =>
+  (node.isFile ? `/${node.path}` : `/${node.path}/**`);
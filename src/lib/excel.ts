@@ -0,0 +1,343 @@
+import * as XLSX from 'xlsx';
+import type { Result } from '../types/sarif';
+import { getComparisonHeaders, getOverlapCounts, type ComparisonSummary, type InputSummary, type SimilarityMatrix } from './comparison';
+import { createCWEResolver, formatCWE, UNMAPPED_CWE } from './cwe';
+import { CWE_NAMES } from './cweHierarchy';
+import { formatRatio, type GroundTruthScores, type Score } from './groundTruth';
+import { DEFAULT_MATCH_OPTIONS, getResultLine, getResultUri, type MatchOptions } from './matching';
+import type { SarifInput } from './runs';
+import { clusterFindings } from './sarifExport';
+import { getInputSeverityResolver, SEVERITIES, type NormalizedSeverity, type SeverityMappings } from './severity';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface WorkbookOptions {
+  severityMappings: SeverityMappings;
+  matchOptions: MatchOptions;
+  /** Scores against expected results, added as a "Ground Truth" sheet. */
+  groundTruth?: GroundTruthScores;
+}
+
+const DEFAULT_WORKBOOK_OPTIONS: WorkbookOptions = {
+  severityMappings: {},
+  matchOptions: DEFAULT_MATCH_OPTIONS,
+};
+
+/** Layout that the community build of SheetJS cannot write, applied by `writeWorkbook`. */
+interface SheetLayout {
+  /** Rows kept visible while scrolling, up to and including the table header. */
+  frozenRows: number;
+  /** Zero-based column holding normalized severities, highlighted per severity. */
+  severityColumn?: number;
+}
+
+// Node's CommonJS interop leaves the bundled zip library on the default export only
+const getCFB = (): typeof XLSX.CFB => XLSX.CFB ?? Reflect.get(XLSX, 'default').CFB;
+
+const sheetLayouts = new WeakMap<XLSX.WorkSheet, SheetLayout>();
+
+interface TableOptions {
+  /** Rows above the table header, e.g. a title. */
+  headerRow?: number;
+  widths?: number[];
+  severityColumn?: number;
+  /** Rows after the table that the autofilter leaves out, e.g. totals. */
+  footerRows?: number;
+}
+
+// Sheet names are limited to 31 characters without []:*?/\ and must be unique
+const toSheetName = (name: string, workbook: XLSX.WorkBook): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, '-').slice(0, 31) || 'Sheet';
+  let sheetName = base;
+  for (let i = 2; workbook.SheetNames.includes(sheetName); i++) {
+    const suffix = ` (${i})`;
+    sheetName = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  return sheetName;
+};
+
+/** Adds a sheet with a frozen header row and an autofilter over the table below it. */
+const appendTable = (
+  workbook: XLSX.WorkBook,
+  name: string,
+  rows: unknown[][],
+  { headerRow = 0, widths, severityColumn, footerRows = 0 }: TableOptions = {}
+): XLSX.WorkSheet => {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  const columnCount = rows[headerRow]?.length ?? 1;
+  sheet['!autofilter'] = {
+    ref: XLSX.utils.encode_range({
+      s: { r: headerRow, c: 0 },
+      e: { r: Math.max(headerRow, rows.length - 1 - footerRows), c: columnCount - 1 },
+    }),
+  };
+  if (widths) {
+    sheet['!cols'] = widths.map(width => ({ width }));
+  }
+  sheetLayouts.set(sheet, { frozenRows: headerRow + 1, severityColumn });
+  XLSX.utils.book_append_sheet(workbook, sheet, toSheetName(name, workbook));
+  return sheet;
+};
+
+const SEVERITY_COLORS: Record<NormalizedSeverity, { font: string; fill: string }> = {
+  critical: { font: 'FF7F1D1D', fill: 'FFFECACA' },
+  high: { font: 'FF991B1B', fill: 'FFFEE2E2' },
+  medium: { font: 'FF854D0E', fill: 'FFFEF9C3' },
+  low: { font: 'FF1E40AF', fill: 'FFDBEAFE' },
+  info: { font: 'FF374151', fill: 'FFF3F4F6' },
+};
+
+const SEVERITY_DXFS = `<dxfs count="${SEVERITIES.length}">${SEVERITIES.map(severity =>
+  `<dxf><font><b/><color rgb="${SEVERITY_COLORS[severity].font}"/></font>` +
+  `<fill><patternFill><bgColor rgb="${SEVERITY_COLORS[severity].fill}"/></patternFill></fill></dxf>`
+).join('')}</dxfs>`;
+
+// Elements that follow `conditionalFormatting` in a worksheet, in schema order
+const AFTER_CONDITIONAL_FORMATTING = /<(dataValidations|hyperlinks|printOptions|pageMargins|pageSetup|headerFooter|rowBreaks|colBreaks|customProperties|cellWatches|ignoredErrors|smartTags|drawing|legacyDrawing|legacyDrawingHF|picture|oleObjects|controls|webPublishItems|tableParts|extLst)\b|<\/worksheet>/;
+
+const applyLayout = (xml: string, sheet: XLSX.WorkSheet, { frozenRows, severityColumn }: SheetLayout): string => {
+  let patched = xml.replace(
+    /<sheetView([^>]*?)\/>/,
+    `<sheetView$1><pane ySplit="${frozenRows}" topLeftCell="A${frozenRows + 1}" activePane="bottomLeft" state="frozen"/></sheetView>`
+  );
+  if (severityColumn !== undefined && sheet['!ref']) {
+    const { e } = XLSX.utils.decode_range(sheet['!ref']);
+    const column = XLSX.utils.encode_col(severityColumn);
+    const rules = SEVERITIES.map((severity, i) =>
+      `<cfRule type="cellIs" dxfId="${i}" priority="${i + 1}" operator="equal"><formula>"${severity}"</formula></cfRule>`
+    ).join('');
+    const formatting = `<conditionalFormatting sqref="${column}${frozenRows + 1}:${column}${e.r + 1}">${rules}</conditionalFormatting>`;
+    const match = AFTER_CONDITIONAL_FORMATTING.exec(patched);
+    const index = match ? match.index : patched.length;
+    patched = patched.slice(0, index) + formatting + patched.slice(index);
+  }
+  return patched;
+};
+
+/**
+ * Writes a workbook as XLSX, adding the frozen header rows and severity highlighting that
+ * SheetJS leaves out by editing the sheet XML in the written archive.
+ */
+export const writeWorkbook = (workbook: XLSX.WorkBook): Uint8Array => {
+  const written = new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx', compression: true }));
+  const CFB = getCFB();
+  const archive = CFB.read(written, { type: 'array' });
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const patch = (path: string, update: (xml: string) => string) => {
+    const entry = CFB.find(archive, path);
+    if (entry) {
+      entry.content = encoder.encode(update(decoder.decode(entry.content)));
+    }
+  };
+
+  // Sheets are written in order as sheet1.xml, sheet2.xml, ...
+  workbook.SheetNames.forEach((name, i) => {
+    const sheet = workbook.Sheets[name];
+    const layout = sheetLayouts.get(sheet);
+    if (layout) {
+      patch(`/xl/worksheets/sheet${i + 1}.xml`, xml => applyLayout(xml, sheet, layout));
+    }
+  });
+  patch('/xl/styles.xml', xml => xml.replace(/<dxfs count="0"\/>/, SEVERITY_DXFS));
+
+  return CFB.write(archive, { fileType: 'zip', type: 'array', compression: true });
+};
+
+const formatFingerprint = (result: Result): string =>
+  Object.entries({ ...result.partialFingerprints, ...result.fingerprints })
+    .map(([key, value]) => `${key}=${value}`)
+    .join('; ');
+
+const FINDING_HEADER = ['Rule ID', 'CWE', 'Severity', 'File', 'Start Line', 'End Line', 'Message', 'Fingerprint'];
+
+/** Adds a sheet listing every finding of an input. */
+const appendFindingsSheet = (workbook: XLSX.WorkBook, name: string, input: SarifInput, severityMappings: SeverityMappings) => {
+  const cweResolver = createCWEResolver(input.run, input.index.cweByRule);
+  const severityResolver = getInputSeverityResolver(input, severityMappings);
+  const rows = Object.values(input.results).flat().map(result => {
+    const region = result.locations?.[0]?.physicalLocation?.region;
+    const cwes = cweResolver.getResultCWEs(result);
+    return [
+      result.ruleId,
+      (cwes.length > 0 ? cwes : [UNMAPPED_CWE]).join(', '),
+      severityResolver.getResultSeverity(result).severity,
+      getResultUri(result),
+      getResultLine(result) ?? '',
+      region?.endLine ?? region?.startLine ?? '',
+      result.message?.text || '',
+      formatFingerprint(result),
+    ];
+  });
+  appendTable(workbook, name, [FINDING_HEADER, ...rows], {
+    widths: [30, 20, 10, 50, 10, 10, 80, 40],
+    severityColumn: 2,
+  });
+};
+
+const scoreToRow = ({ tp, fp, fn, tn, precision, recall, f1 }: Score) =>
+  [tp, fp, fn, tn, formatRatio(precision), formatRatio(recall), formatRatio(f1)];
+
+// One row per CWE and tool, with the overall score of each tool as totals
+const appendGroundTruthSheet = (
+  workbook: XLSX.WorkBook,
+  { cwes, inputs }: GroundTruthScores,
+  cweNames: Record<string, string>
+) => {
+  appendTable(workbook, 'Ground Truth', [
+    ['CWE', 'Name', 'Tool', 'TP', 'FP', 'FN', 'TN', 'Precision', 'Recall', 'F1', 'Unscored Findings'],
+    ...cwes.flatMap(cwe => inputs.map(input =>
+      [cwe, cweNames[cwe] || CWE_NAMES[cwe] || '', input.label, ...scoreToRow(input.byCWE[cwe]), '']
+    )),
+    ...inputs.map(input => ['Overall', '', input.label, ...scoreToRow(input.overall), input.unscoredFindings]),
+  ], {
+    widths: [15, 40, 25, 8, 8, 8, 8, 12, 12, 12, 18],
+    footerRows: inputs.length,
+  });
+};
+
+export const createSummaryWorkbook = (
+  { toolName, rows, total, cweNames, cweGroups, groupLabel }: InputSummary,
+  input?: SarifInput,
+  severityMappings: SeverityMappings = {},
+  groundTruth?: GroundTruthScores
+): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+
+  appendTable(wb, 'Summary', [
+    ['Rule ID', 'CWE', 'Tags', 'Count', 'Severity'],
+    ...rows.map(({ ruleId, cwes, tags, count, severity }) => [
+      ruleId,
+      cwes.map(cwe => formatCWE(cwe, cweNames)).join(', '),
+      tags.join(', '),
+      count,
+      severity,
+    ]),
+    ['TOTAL', '', '', total, ''],
+  ], { widths: [30, 50, 40, 10, 10], severityColumn: 4, footerRows: 1 });
+
+  appendTable(wb, groupLabel, [
+    [groupLabel, 'Name', 'Rules', 'Findings'],
+    ...Object.entries(cweGroups).map(([group, entries]) => [
+      group,
+      cweNames[group] || '',
+      entries.map(({ ruleId }) => ruleId).join(', '),
+      entries.reduce((sum, { items }) => sum + items.length, 0),
+    ]),
+  ], { widths: [15, 50, 40, 10] });
+
+  if (input) {
+    appendFindingsSheet(wb, `Findings ${toolName}`, input, severityMappings);
+  }
+  if (groundTruth) {
+    appendGroundTruthSheet(wb, groundTruth, cweNames);
+  }
+  return wb;
+};
+
+const matrixToRows = (toolNames: string[], matrix: SimilarityMatrix) => [
+  ['', ...toolNames],
+  ...matrix.map((row, i) => [toolNames[i], ...row.map(({ similarity }) => `${similarity.toFixed(1)}%`)])
+];
+
+/** Adds a sheet with one row per finding, matched across inputs or only reported by one. */
+const appendMatchesSheet = (
+  workbook: XLSX.WorkBook,
+  inputs: SarifInput[],
+  summary: ComparisonSummary,
+  matchOptions: MatchOptions
+) => {
+  const { toolNames } = summary;
+  const rows = clusterFindings(inputs, summary, matchOptions).map(cluster => {
+    const reporters = new Set(cluster.map(({ input }) => input));
+    const status = reporters.size === inputs.length
+      ? 'Matched'
+      : reporters.size === 1
+        ? `Only in ${toolNames[cluster[0].input]}`
+        : 'Partially matched';
+    const [{ result }] = cluster;
+    return [
+      status,
+      [...reporters].map(input => toolNames[input]).join(', '),
+      getResultUri(result),
+      getResultLine(result) ?? '',
+      result.message?.text || '',
+      ...toolNames.map((_, input) => [...new Set(
+        cluster.filter(entry => entry.input === input).map(entry => entry.result.ruleId)
+      )].join(', ')),
+    ];
+  });
+  appendTable(workbook, 'Matched & Only-in', [
+    ['Status', 'Reported By', 'File', 'Line', 'Message', ...toolNames.map(name => `${name} Rule`)],
+    ...rows,
+  ], { widths: [25, 40, 50, 8, 80, ...toolNames.map(() => 30)] });
+};
+
+export const createComparisonWorkbook = (
+  summary: ComparisonSummary,
+  inputs: SarifInput[] = [],
+  options: Partial<WorkbookOptions> = {}
+): XLSX.WorkBook => {
+  const { toolNames, rows, totals, matrix, meanSimilarity, cweNames, groupLabel, cweGroups } = summary;
+  const { severityMappings, matchOptions, groundTruth } = { ...DEFAULT_WORKBOOK_OPTIONS, ...options };
+  const headers = getComparisonHeaders(toolNames);
+  const wb = XLSX.utils.book_new();
+
+  appendTable(wb, 'Comparison Summary', [
+    // Title row with tool names
+    ['Tools', toolNames.join(' vs ')],
+    // Empty row for spacing
+    [],
+    // Column headers
+    [groupLabel, 'Name', ...headers.findings, ...headers.deltas, ...headers.overlaps, headers.similarity],
+    // Data rows
+    ...rows.map(({ cwe, findings, deltas, matrix: cweMatrix, meanSimilarity }) => [
+      cwe,
+      cweNames[cwe] || '',
+      ...findings,
+      ...deltas,
+      ...getOverlapCounts(cweMatrix),
+      `${meanSimilarity.toFixed(1)}%`
+    ]),
+    // Totals and overall similarity row
+    [
+      'Total / Overall',
+      '',
+      ...totals,
+      ...Array(headers.deltas.length).fill(''),
+      ...getOverlapCounts(matrix),
+      `${meanSimilarity.toFixed(1)}%`
+    ]
+  ], {
+    headerRow: 2,
+    widths: [15, 40, ...headers.findings.map(() => 15), ...headers.deltas.map(() => 15), ...headers.overlaps.map(() => 15), 15],
+    footerRows: 1,
+  });
+
+  // One row per rule of every input within each group
+  appendTable(wb, `${groupLabel} Breakdown`, [
+    [groupLabel, 'Name', 'Tool', 'Rule ID', 'Findings'],
+    ...rows.flatMap(({ cwe }) => cweGroups.flatMap((groups, input) =>
+      (groups[cwe] || []).map(({ ruleId, items }) => [cwe, cweNames[cwe] || '', toolNames[input], ruleId, items.length])
+    )),
+  ], { widths: [15, 40, 25, 30, 10] });
+
+  // Overall matrix first, then one block per group
+  const matrixData = [
+    ['Overall'],
+    ...matrixToRows(toolNames, matrix),
+    ...rows.flatMap(row => [[''], [formatCWE(row.cwe, cweNames)], ...matrixToRows(toolNames, row.matrix)])
+  ];
+  const matrixSheet = XLSX.utils.aoa_to_sheet(matrixData);
+  matrixSheet['!cols'] = [20, ...toolNames.map(() => 15)].map(width => ({ width }));
+  XLSX.utils.book_append_sheet(wb, matrixSheet, 'Similarity Matrix');
+
+  inputs.forEach((input, i) => appendFindingsSheet(wb, `Findings ${toolNames[i]}`, input, severityMappings));
+  if (inputs.length > 1) {
+    appendMatchesSheet(wb, inputs, summary, matchOptions);
+  }
+  if (groundTruth) {
+    appendGroundTruthSheet(wb, groundTruth, cweNames);
+  }
+  return wb;
+};
@@ -0,0 +1,156 @@
+import type { Result } from '../types/sarif';
+import { createCWEResolver, getRuleTags, UNMAPPED_CWE } from './cwe';
+import { getResultUri } from './matching';
+import type { SarifInput } from './runs';
+import { getInputSeverityResolver, SEVERITIES, type NormalizedSeverity, type SeverityMappings } from './severity';
+
+/** Filter shared by every view. Values within a field are alternatives; fields must all match. */
+export interface ResultFilter {
+  ruleIds: string[];
+  cwes: string[];
+  severities: NormalizedSeverity[];
+  tags: string[];
+  /** Artifact path globs, e.g. `src/**` or `/src/**`; when given, a result must match one. */
+  include: string[];
+  /** Artifact path globs, e.g. `test/**` or `vendor/**`. */
+  exclude: string[];
+  /** Case-insensitive search over `message.text`. */
+  text: string;
+}
+
+export const EMPTY_FILTER: ResultFilter = {
+  ruleIds: [],
+  cwes: [],
+  severities: [],
+  tags: [],
+  include: [],
+  exclude: [],
+  text: '',
+};
+
+export const isFilterActive = (filter: ResultFilter): boolean =>
+  Boolean(filter.text.trim()) || (Object.keys(EMPTY_FILTER) as Array<keyof ResultFilter>)
+    .some(key => key !== 'text' && filter[key].length > 0);
+
+/**
+ * Converts a path glob to a regular expression. `**` crosses directories, `*` and `?` do
+ * not. Globs match on a path segment boundary, so `test/**` also matches `src/test/a.js`
+ * and `*.min.js` matches minified files in any directory. A leading `/` anchors the glob at
+ * the repository root instead, so `/src/**` does not match `lib/src/a.js`.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  let pattern = '';
+  const trimmed = glob.trim().replace(/\\/g, '/');
+  const isAnchored = trimmed.startsWith('/');
+  const normalized = trimmed.replace(/^(\.\/)+/, '').replace(/^\/+/, '');
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === '*' && normalized[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      if (normalized[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`${isAnchored ? '^' : '(?:^|/)'}${pattern}$`, 'i');
+};
+
+/** Builds a result predicate for the inputs of one run. */
+const createResultPredicate = (
+  input: SarifInput,
+  filter: ResultFilter,
+  severityMappings: SeverityMappings
+): ((result: Result) => boolean) => {
+  const ruleIds = new Set(filter.ruleIds);
+  const cwes = new Set(filter.cwes);
+  const severities = new Set(filter.severities);
+  const tags = new Set(filter.tags);
+  const include = filter.include.map(globToRegExp);
+  const exclude = filter.exclude.map(globToRegExp);
+  const text = filter.text.trim().toLowerCase();
+  const cweResolver = createCWEResolver(input.run, input.index.cweByRule);
+  const severityResolver = getInputSeverityResolver(input, severityMappings);
+
+  return result => {
+    if (ruleIds.size > 0 && !ruleIds.has(result.ruleId)) return false;
+    if (severities.size > 0 && !severities.has(severityResolver.getResultSeverity(result).severity)) return false;
+    if (tags.size > 0 && !getRuleTags(input.run, result.ruleId, input.index.ruleIndexById).some(tag => tags.has(tag))) return false;
+    if (cwes.size > 0) {
+      const resultCWEs = cweResolver.getResultCWEs(result);
+      if (!(resultCWEs.length > 0 ? resultCWEs : [UNMAPPED_CWE]).some(cwe => cwes.has(cwe))) return false;
+    }
+    if (include.length > 0 || exclude.length > 0) {
+      const uri = getResultUri(result);
+      if (include.length > 0 && !include.some(pattern => pattern.test(uri))) return false;
+      if (exclude.some(pattern => pattern.test(uri))) return false;
+    }
+    return !text || (result.message?.text || '').toLowerCase().includes(text);
+  };
+};
+
+/** Keeps the results of every input that pass the filter; rules left without results are dropped. */
+export const filterInputs = (
+  inputs: SarifInput[],
+  filter: ResultFilter,
+  severityMappings: SeverityMappings = {}
+): SarifInput[] => {
+  if (!isFilterActive(filter)) return inputs;
+  return inputs.map(input => {
+    const matches = createResultPredicate(input, filter, severityMappings);
+    const results: Record<string, Result[]> = {};
+    Object.entries(input.results).forEach(([ruleId, items]) => {
+      const kept = items.filter(matches);
+      if (kept.length > 0) {
+        results[ruleId] = kept;
+      }
+    });
+    return { ...input, results };
+  });
+};
+
+// Repeated URL parameters, e.g. `?severity=high&severity=critical&exclude=test/**`
+const LIST_PARAMS: Record<Exclude<keyof ResultFilter, 'text'>, string> = {
+  ruleIds: 'rule',
+  cwes: 'cwe',
+  severities: 'severity',
+  tags: 'tag',
+  include: 'include',
+  exclude: 'exclude',
+};
+
+export const filterToSearchParams = (filter: ResultFilter, params = new URLSearchParams()): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  Object.values(LIST_PARAMS).forEach(name => next.delete(name));
+  next.delete('q');
+  (Object.keys(LIST_PARAMS) as Array<keyof typeof LIST_PARAMS>).forEach(key => {
+    filter[key].forEach(value => next.append(LIST_PARAMS[key], value));
+  });
+  if (filter.text.trim()) {
+    next.set('q', filter.text);
+  }
+  return next;
+};
+
+export const filterFromSearchParams = (params: URLSearchParams): ResultFilter => ({
+  ruleIds: params.getAll(LIST_PARAMS.ruleIds),
+  cwes: params.getAll(LIST_PARAMS.cwes),
+  severities: params.getAll(LIST_PARAMS.severities)
+    .filter((severity): severity is NormalizedSeverity => SEVERITIES.includes(severity as NormalizedSeverity)),
+  tags: params.getAll(LIST_PARAMS.tags),
+  include: params.getAll(LIST_PARAMS.include),
+  exclude: params.getAll(LIST_PARAMS.exclude),
+  text: params.get('q') || '',
+});
+
+export const countResults = (inputs: SarifInput[]): number =>
+  inputs.reduce((sum, input) => sum + Object.values(input.results).reduce((count, items) => count + items.length, 0), 0);
@@ -0,0 +1,251 @@
+import { compareCWEs, createCWEResolver, normalizeCWE } from './cwe';
+import { DEFAULT_MATCH_OPTIONS, getResultLine, getResultUri, normalizeUri, sameArtifact, type MatchOptions } from './matching';
+import type { SarifInput } from './runs';
+
+/** One test case of a benchmark: a place that does or does not hold a vulnerability of a CWE. */
+export interface ExpectedResult {
+  /** Artifact path, or a test name such as `BenchmarkTest00001` that matches the file of that name. */
+  file: string;
+  /** Line of the vulnerability; without it any line of the file matches. */
+  line?: number;
+  cwe: string;
+  /** Whether the case is a real vulnerability; findings on other cases are false positives. */
+  real: boolean;
+}
+
+export interface Score {
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+  /** Null when the tool reported nothing on any case, so the ratio is undefined. */
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface InputScore {
+  label: string;
+  overall: Score;
+  byCWE: Record<string, Score>;
+  /** Findings on files no test case mentions, which are not scored. */
+  unscoredFindings: number;
+}
+
+export interface GroundTruthScores {
+  /** CWEs of the test cases, in CWE order. */
+  cwes: string[];
+  caseCount: number;
+  inputs: InputScore[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'tp', 'vulnerable'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'fp', 'safe'];
+
+const parseBoolean = (value: unknown, where: string): boolean => {
+  if (typeof value === 'boolean') return value;
+  const normalized = String(value ?? '').trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  throw new Error(`${where}: expected true or false, got "${String(value ?? '')}"`);
+};
+
+const toExpectedResult = (
+  { file, line, cwe, real }: Record<string, unknown>,
+  where: string
+): ExpectedResult => {
+  if (typeof file !== 'string' || !file.trim()) {
+    throw new Error(`${where}: a file or test name is required`);
+  }
+  const normalizedCWE = normalizeCWE(String(cwe ?? ''), true);
+  if (!normalizedCWE) {
+    throw new Error(`${where}: "${String(cwe ?? '')}" is not a CWE`);
+  }
+  const lineNumber = line === undefined || line === null || line === '' ? undefined : Number(line);
+  if (lineNumber !== undefined && (!Number.isInteger(lineNumber) || lineNumber < 1)) {
+    throw new Error(`${where}: line must be a positive whole number`);
+  }
+  return { file: normalizeUri(file), line: lineNumber, cwe: normalizedCWE, real: parseBoolean(real, where) };
+};
+
+// Splits one CSV line, honouring double-quoted fields with "" escapes
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+const COLUMN_ALIASES: Record<'file' | 'line' | 'cwe' | 'real', string[]> = {
+  file: ['file', 'path', 'uri', 'test name', 'test'],
+  line: ['line', 'start line', 'startline'],
+  cwe: ['cwe'],
+  real: ['real', 'real vulnerability', 'vulnerable', 'is vulnerable', 'expected'],
+};
+
+const parseCsv = (content: string): ExpectedResult[] => {
+  const lines = content.split(/\r?\n/).map((line, index) => ({ line, number: index + 1 })).filter(({ line }) => line.trim());
+  if (lines.length === 0) return [];
+
+  // OWASP Benchmark: `# test name, category, real vulnerability, cwe, Benchmark version: ...`
+  const header = parseCsvLine(lines[0].line.replace(/^#\s*/, '')).map(name => name.toLowerCase().replace(/[_-]/g, ' '));
+  const columns = Object.fromEntries(Object.entries(COLUMN_ALIASES).map(([key, aliases]) =>
+    [key, header.findIndex(name => aliases.includes(name))]
+  )) as Record<keyof typeof COLUMN_ALIASES, number>;
+  if (columns.file < 0 || columns.cwe < 0 || columns.real < 0) {
+    throw new Error('The CSV header needs file (or test name), cwe and real (or real vulnerability) columns');
+  }
+
+  return lines.slice(1).filter(({ line }) => !line.trim().startsWith('#')).map(({ line, number }) => {
+    const fields = parseCsvLine(line);
+    return toExpectedResult({
+      file: fields[columns.file],
+      line: columns.line >= 0 ? fields[columns.line] : undefined,
+      cwe: fields[columns.cwe],
+      real: fields[columns.real],
+    }, `Line ${number}`);
+  });
+};
+
+/**
+ * Reads an expected-results file: an OWASP Benchmark `expectedresults` CSV, a CSV with file,
+ * line, cwe and real columns, or JSON with an array of `{ file, line, cwe, real }` objects
+ * (optionally under `expected`). Throws on anything else.
+ */
+export const parseGroundTruth = (content: string, fileName = ''): ExpectedResult[] => {
+  const trimmed = content.trim();
+  const isJson = /\.json$/i.test(fileName) || trimmed.startsWith('[') || trimmed.startsWith('{');
+  if (!isJson) return parseCsv(content);
+
+  const data: unknown = JSON.parse(trimmed);
+  const entries = Array.isArray(data) ? data : isObject(data) ? data.expected : undefined;
+  if (!Array.isArray(entries)) {
+    throw new Error('Expected results must be an array of { file, line, cwe, real } objects');
+  }
+  return entries.map((entry, index) => {
+    if (!isObject(entry)) throw new Error(`expected[${index}] must be an object`);
+    return toExpectedResult(entry, `expected[${index}]`);
+  });
+};
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  (denominator > 0 ? numerator / denominator : null);
+
+const finishScore = ({ tp, fp, fn, tn }: Pick<Score, 'tp' | 'fp' | 'fn' | 'tn'>): Score => {
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  const f1 = precision !== null && recall !== null && precision + recall > 0
+    ? (2 * precision * recall) / (precision + recall)
+    : null;
+  return { tp, fp, fn, tn, precision, recall, f1 };
+};
+
+const stem = (path: string): string => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+};
+
+// A bare test name matches the file of that name in any directory, with any extension
+const matchesFile = (uri: string, file: string): boolean =>
+  sameArtifact(uri, file) || (!file.includes('/') && !file.includes('.') && stem(uri) === file);
+
+interface Finding {
+  uri: string;
+  line: number | null;
+  cwes: string[];
+}
+
+/**
+ * Scores every input against the expected results. A case counts as detected when the input
+ * has a finding of the case's CWE in its file, within the line tolerance when the case has a
+ * line: a true positive for a real vulnerability, a false positive otherwise. Undetected real
+ * cases are false negatives and undetected safe cases true negatives.
+ */
+export const scoreInputs = (
+  inputs: SarifInput[],
+  expected: ExpectedResult[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): GroundTruthScores => {
+  const cwes = [...new Set(expected.map(({ cwe }) => cwe))].sort(compareCWEs);
+
+  const scores = inputs.map((input): InputScore => {
+    const resolver = createCWEResolver(input.run, input.index.cweByRule);
+    const findingsByStem = new Map<string, Finding[]>();
+    const scoredFindings = new Set<Finding>();
+    Object.values(input.results).flat().forEach(result => {
+      const uri = getResultUri(result);
+      if (!uri) return;
+      const finding = { uri, line: getResultLine(result), cwes: resolver.getResultCWEs(result) };
+      const key = stem(uri);
+      const findings = findingsByStem.get(key);
+      if (findings) {
+        findings.push(finding);
+      } else {
+        findingsByStem.set(key, [finding]);
+      }
+    });
+
+    const counts = Object.fromEntries(cwes.map(cwe => [cwe, { tp: 0, fp: 0, fn: 0, tn: 0 }]));
+    expected.forEach(({ file, line, cwe, real }) => {
+      const inFile = (findingsByStem.get(stem(file)) || []).filter(finding => matchesFile(finding.uri, file));
+      inFile.forEach(finding => scoredFindings.add(finding));
+      const detected = inFile.some(finding =>
+        finding.cwes.includes(cwe) &&
+        (line === undefined || (finding.line !== null && Math.abs(finding.line - line) <= options.lineTolerance))
+      );
+      const count = counts[cwe];
+      if (detected) {
+        count[real ? 'tp' : 'fp']++;
+      } else {
+        count[real ? 'fn' : 'tn']++;
+      }
+    });
+
+    const total = { tp: 0, fp: 0, fn: 0, tn: 0 };
+    Object.values(counts).forEach(count => {
+      total.tp += count.tp;
+      total.fp += count.fp;
+      total.fn += count.fn;
+      total.tn += count.tn;
+    });
+    const findingCount = [...findingsByStem.values()].reduce((sum, findings) => sum + findings.length, 0);
+
+    return {
+      label: input.label,
+      overall: finishScore(total),
+      byCWE: Object.fromEntries(Object.entries(counts).map(([cwe, count]) => [cwe, finishScore(count)])),
+      unscoredFindings: findingCount - scoredFindings.size,
+    };
+  });
+
+  return { cwes, caseCount: expected.length, inputs: scores };
+};
+
+/** Formats a precision, recall or F1 ratio as a percentage, or a dash when undefined. */
+export const formatRatio = (value: number | null): string =>
+  (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
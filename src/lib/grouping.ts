@@ -0,0 +1,185 @@
+import type { Result } from '../types/sarif';
+import { compareCWEs, UNMAPPED_CWE, type CWEGroups } from './cwe';
+import { CWE_NAMES, getCWEAncestors, rollUpToCategory, rollUpToDepth } from './cweHierarchy';
+import { EMPTY_RULE_MAPPING, getEquivalenceNames, groupByMappedRule, type RuleMapping } from './ruleMapping';
+
+export type GroupingMode = 'cwe' | 'owasp2021' | 'top25' | 'mappedRule';
+
+export type RollUp =
+  | { kind: 'none' }
+  | { kind: 'depth'; depth: number }
+  | { kind: 'category'; cwe: string };
+
+export interface GroupingOptions {
+  mode: GroupingMode;
+  /** Only applies to the `cwe` mode. */
+  rollUp: RollUp;
+  /** Only applies to the `mappedRule` mode. */
+  ruleMapping?: RuleMapping;
+}
+
+export interface Grouping {
+  mode: GroupingMode;
+  /** Column header for the group, e.g. "CWE" or "OWASP Top 10 (2021)". */
+  label: string;
+  names: Record<string, string>;
+  getGroup: (cwe: string) => string;
+  compare: (a: string, b: string) => number;
+  /** Set when findings are grouped by rule instead of by CWE. */
+  groupRules?: (entries: Array<[string, Result[]]>, toolName: string) => CWEGroups;
+}
+
+export const DEFAULT_GROUPING: GroupingOptions = { mode: 'cwe', rollUp: { kind: 'none' } };
+
+export const GROUPING_LABELS: Record<GroupingMode, string> = {
+  cwe: 'CWE',
+  owasp2021: 'OWASP Top 10 (2021)',
+  top25: 'CWE Top 25 (2024)',
+  mappedRule: 'Mapped Rule',
+};
+
+const OWASP_TOP_10_2021: Array<[string, string, number[]]> = [
+  ['A01:2021', 'Broken Access Control', [22, 23, 35, 59, 200, 201, 219, 264, 275, 276, 284, 285, 352, 359, 377, 402, 425, 441, 497, 538, 540, 548, 552, 566, 601, 639, 651, 668, 706, 862, 863, 913, 922, 1275]],
+  ['A02:2021', 'Cryptographic Failures', [261, 296, 310, 319, 321, 322, 323, 324, 325, 326, 327, 328, 329, 330, 331, 335, 336, 337, 338, 340, 347, 523, 720, 757, 759, 760, 780, 818, 916]],
+  ['A03:2021', 'Injection', [20, 74, 75, 77, 78, 79, 80, 83, 87, 88, 89, 90, 91, 93, 94, 95, 96, 97, 98, 99, 100, 113, 116, 138, 184, 470, 471, 564, 610, 643, 644, 652, 917]],
+  ['A04:2021', 'Insecure Design', [73, 183, 209, 213, 235, 256, 257, 266, 269, 280, 311, 312, 313, 316, 419, 430, 434, 444, 451, 472, 501, 522, 525, 539, 579, 598, 602, 642, 646, 650, 653, 656, 657, 799, 807, 840, 841, 927, 1021, 1173]],
+  ['A05:2021', 'Security Misconfiguration', [2, 11, 13, 15, 16, 260, 315, 520, 526, 537, 541, 547, 611, 614, 756, 776, 942, 1004, 1032, 1174]],
+  ['A06:2021', 'Vulnerable and Outdated Components', [937, 1035, 1104]],
+  ['A07:2021', 'Identification and Authentication Failures', [255, 259, 287, 288, 290, 294, 295, 297, 300, 302, 304, 306, 307, 346, 384, 521, 613, 620, 640, 798, 940, 1216]],
+  ['A08:2021', 'Software and Data Integrity Failures', [345, 353, 426, 494, 502, 565, 784, 829, 830, 915]],
+  ['A09:2021', 'Security Logging and Monitoring Failures', [117, 223, 532, 778]],
+  ['A10:2021', 'Server-Side Request Forgery (SSRF)', [918]],
+];
+
+const CWE_TOP_25_2024 = [
+  79, 787, 89, 352, 22, 125, 78, 416, 862, 434, 94, 20, 77, 287, 269, 502, 200, 863, 918, 119, 476, 798, 190, 400, 306,
+].map(id => `CWE-${id}`);
+
+/** Group for CWEs outside the OWASP Top 10 or CWE Top 25. */
+export const OTHER_GROUP = 'Other';
+
+const owaspByCWE = new Map<string, string>();
+OWASP_TOP_10_2021.forEach(([category, , cwes]) => {
+  cwes.forEach(id => owaspByCWE.set(`CWE-${id}`, category));
+});
+
+// Look at the CWE itself first, then its ancestors, so a CWE missing from a list still
+// lands in the group of the closest listed parent
+const findListed = (cwe: string, isListed: (candidate: string) => boolean): string | undefined =>
+  [cwe, ...getCWEAncestors(cwe)].find(isListed);
+
+const orderLast = (compare: (a: string, b: string) => number) => (a: string, b: string) => {
+  const lastA = a === UNMAPPED_CWE || a === OTHER_GROUP;
+  const lastB = b === UNMAPPED_CWE || b === OTHER_GROUP;
+  if (lastA || lastB) return Number(lastA) - Number(lastB) || Number(a === UNMAPPED_CWE) - Number(b === UNMAPPED_CWE);
+  return compare(a, b);
+};
+
+const sortGroups = (groups: CWEGroups, compare: (a: string, b: string) => number): CWEGroups =>
+  Object.fromEntries(Object.keys(groups).sort(compare).map(key => [key, groups[key]]));
+
+export const createGrouping = ({ mode, rollUp, ruleMapping = EMPTY_RULE_MAPPING }: GroupingOptions): Grouping => {
+  if (mode === 'mappedRule') {
+    // Equivalences first, in the order they were declared, then unmapped rules by id
+    const order = new Map(ruleMapping.equivalences.map(({ name }, index) => [name, index]));
+    const compare = (a: string, b: string) =>
+      (order.get(a) ?? order.size) - (order.get(b) ?? order.size) || a.localeCompare(b);
+    return {
+      mode,
+      label: GROUPING_LABELS.mappedRule,
+      names: getEquivalenceNames(ruleMapping),
+      getGroup: cwe => cwe,
+      compare,
+      groupRules: (entries, toolName) => sortGroups(groupByMappedRule(entries, toolName, ruleMapping), compare),
+    };
+  }
+
+
+  if (mode === 'owasp2021') {
+    return {
+      mode,
+      label: GROUPING_LABELS.owasp2021,
+      names: Object.fromEntries(OWASP_TOP_10_2021.map(([category, name]) => [category, name])),
+      getGroup: cwe => {
+        if (cwe === UNMAPPED_CWE) return cwe;
+        const listed = findListed(cwe, candidate => owaspByCWE.has(candidate));
+        return listed ? owaspByCWE.get(listed)! : OTHER_GROUP;
+      },
+      compare: orderLast((a, b) => a.localeCompare(b)),
+    };
+  }
+
+  if (mode === 'top25') {
+    return {
+      mode,
+      label: GROUPING_LABELS.top25,
+      names: Object.fromEntries(CWE_TOP_25_2024.map((cwe, rank) => [cwe, `#${rank + 1} ${CWE_NAMES[cwe] || ''}`.trim()])),
+      getGroup: cwe => {
+        if (cwe === UNMAPPED_CWE) return cwe;
+        return findListed(cwe, candidate => CWE_TOP_25_2024.includes(candidate)) ?? OTHER_GROUP;
+      },
+      compare: orderLast((a, b) => CWE_TOP_25_2024.indexOf(a) - CWE_TOP_25_2024.indexOf(b)),
+    };
+  }
+
+  return {
+    mode,
+    label: GROUPING_LABELS.cwe,
+    names: CWE_NAMES,
+    getGroup: cwe => {
+      if (cwe === UNMAPPED_CWE) return cwe;
+      if (rollUp.kind === 'depth') return rollUpToDepth(cwe, rollUp.depth);
+      if (rollUp.kind === 'category') return rollUpToCategory(cwe, rollUp.cwe);
+      return cwe;
+    },
+    compare: compareCWEs,
+  };
+};
+
+/**
+ * Re-keys CWE groups by the grouping, merging the results of a rule that end up in the
+ * same group. A result listed under several CWEs that map to one group is counted once.
+ */
+export const regroup = (groups: CWEGroups, grouping: Grouping): CWEGroups => {
+  const keys = Object.keys(groups);
+  if (keys.every(cwe => grouping.getGroup(cwe) === cwe)) {
+    return sortGroups(groups, grouping.compare);
+  }
+
+  const merged = new Map<string, Map<string, Set<Result>>>();
+  Object.entries(groups).forEach(([cwe, entries]) => {
+    const key = grouping.getGroup(cwe);
+    const byRule = merged.get(key) || new Map<string, Set<Result>>();
+    entries.forEach(({ ruleId, items }) => {
+      const results = byRule.get(ruleId) || new Set<Result>();
+      items.forEach(result => results.add(result));
+      byRule.set(ruleId, results);
+    });
+    merged.set(key, byRule);
+  });
+
+  const regrouped: CWEGroups = {};
+  [...merged.keys()].sort(grouping.compare).forEach(key => {
+    regrouped[key] = [...merged.get(key)!.entries()].map(([ruleId, items]) => ({ ruleId, items: [...items] }));
+  });
+  return regrouped;
+};
+
+/**
+ * Group names along with CWE names, so the CWEs of a rule keep theirs in the OWASP and
+ * Top 25 views. CWE names from the logs' own taxonomies win over the bundled ones.
+ */
+export const getGroupNames = (grouping: Grouping, taxonomyNames: Record<string, string>): Record<string, string> =>
+  ({ ...CWE_NAMES, ...taxonomyNames, ...(grouping.mode === 'cwe' ? {} : grouping.names) });
+
+/** Groups the rule entries of one tool; `cweGroups` are its entries grouped by CWE. */
+export const groupEntries = (
+  grouping: Grouping,
+  entries: Array<[string, Result[]]>,
+  toolName: string,
+  cweGroups: CWEGroups
+): CWEGroups => grouping.groupRules ? grouping.groupRules(entries, toolName) : regroup(cweGroups, grouping);
+
+/** Every hierarchy ancestor of the given CWEs, to offer as roll-up categories. */
+export const getRollUpCategories = (cwes: string[]): string[] =>
+  [...new Set(cwes.flatMap(getCWEAncestors))].sort(compareCWEs);
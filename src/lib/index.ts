@@ -0,0 +1,112 @@
+import type { SarifLog } from '../types/sarif';
+import { compareInputs, summarizeInput } from './comparison';
+import { createComparisonWorkbook, createSummaryWorkbook } from './excel';
+import { DEFAULT_GROUPING, type GroupingOptions } from './grouping';
+import { scoreInputs, type ExpectedResult } from './groundTruth';
+import { DEFAULT_MATCH_OPTIONS, type MatchOptions } from './matching';
+import { createComparisonReport } from './report';
+import { getComparisonInputs, type RunMode } from './runs';
+import { createMergedSarif, type MergedSarifMode } from './sarifExport';
+import { filterInputsBySeverity, type NormalizedSeverity, type SeverityMappings } from './severity';
+
+export * from './baseline';
+export * from './codeFlows';
+export * from './comparison';
+export * from './cwe';
+export * from './cweHierarchy';
+export * from './directoryTree';
+export * from './excel';
+export * from './filters';
+export * from './groundTruth';
+export * from './grouping';
+export * from './matching';
+export * from './markdown';
+export * from './paths';
+export * from './report';
+export * from './ruleCatalog';
+export * from './ruleMapping';
+export * from './runs';
+export * from './sarifExport';
+export * from './severity';
+export * from './snippets';
+export * from './triage';
+export * from './trends';
+export * from './validation';
+export type * from '../types/sarif';
+
+export interface CompareOptions extends MatchOptions {
+  runMode: RunMode;
+  grouping: GroupingOptions;
+  /** Findings below this normalized severity are left out. */
+  minSeverity: NormalizedSeverity;
+  severityMappings: SeverityMappings;
+}
+
+export const DEFAULT_COMPARE_OPTIONS: CompareOptions = {
+  ...DEFAULT_MATCH_OPTIONS,
+  runMode: 'separate',
+  grouping: DEFAULT_GROUPING,
+  minSeverity: 'info',
+  severityMappings: {},
+};
+
+const prepareComparison = (logs: SarifLog[], options: Partial<CompareOptions>) => {
+  const { runMode, grouping, minSeverity, severityMappings, ...matchOptions } = { ...DEFAULT_COMPARE_OPTIONS, ...options };
+  const inputs = filterInputsBySeverity(getComparisonInputs(logs, runMode), minSeverity, severityMappings);
+  return { inputs, summary: compareInputs(inputs, matchOptions, grouping), matchOptions, severityMappings };
+};
+
+/** Compares parsed SARIF logs the same way the web UI does. */
+export const compareSarifLogs = (logs: SarifLog[], options: Partial<CompareOptions> = {}) =>
+  prepareComparison(logs, options).summary;
+
+/** Merges compared SARIF logs into one log, as the merged SARIF export of the web UI does. */
+export const mergeSarifLogs = (logs: SarifLog[], mode: MergedSarifMode, options: Partial<CompareOptions> = {}) => {
+  const { inputs, summary, matchOptions } = prepareComparison(logs, options);
+  return createMergedSarif(inputs, summary, mode, matchOptions);
+};
+
+/** Builds the model of the HTML and Markdown reports of compared SARIF logs. */
+export const createSarifReport = (logs: SarifLog[], options: Partial<CompareOptions & { title: string }> = {}) => {
+  const { title, ...compareOptions } = options;
+  const { inputs, summary, matchOptions, severityMappings } = prepareComparison(logs, compareOptions);
+  return createComparisonReport(inputs, summary, { matchOptions, severityMappings, ...(title ? { title } : {}) });
+};
+
+/** Scores every input of the logs against expected results, as the ground truth columns of the web UI do. */
+export const scoreSarifLogs = (logs: SarifLog[], expected: ExpectedResult[], options: Partial<CompareOptions> = {}) => {
+  const { runMode, minSeverity, severityMappings, ...matchOptions } = { ...DEFAULT_COMPARE_OPTIONS, ...options };
+  const inputs = filterInputsBySeverity(getComparisonInputs(logs, runMode), minSeverity, severityMappings);
+  return scoreInputs(inputs, expected, { lineTolerance: matchOptions.lineTolerance });
+};
+
+/** Summarizes every input of a single SARIF log the same way the web UI does. */
+export const summarizeSarifLog = (log: SarifLog, options: Partial<CompareOptions> = {}) => {
+  const { runMode, grouping, minSeverity, severityMappings } = { ...DEFAULT_COMPARE_OPTIONS, ...options };
+  return filterInputsBySeverity(getComparisonInputs([log], runMode), minSeverity, severityMappings)
+    .map(input => summarizeInput(input, grouping, severityMappings));
+};
+
+/**
+ * Builds the Excel workbook of SARIF logs: the summary of the first input of a single log,
+ * or the comparison of several logs. With expected results, a ground truth sheet is added.
+ * Throws when a single log gives no input to summarize.
+ */
+export const createSarifWorkbook = (
+  logs: SarifLog[],
+  options: Partial<CompareOptions & { expected: ExpectedResult[] }> = {}
+) => {
+  const { expected, ...compareOptions } = options;
+  if (logs.length === 1) {
+    const { runMode, minSeverity, severityMappings, lineTolerance } = { ...DEFAULT_COMPARE_OPTIONS, ...compareOptions };
+    const [input] = filterInputsBySeverity(getComparisonInputs(logs, runMode), minSeverity, severityMappings);
+    if (!input) {
+      throw new Error('The SARIF log has no runs to summarize');
+    }
+    const groundTruth = expected ? scoreInputs([input], expected, { lineTolerance }) : undefined;
+    return createSummaryWorkbook(summarizeInput(input, options.grouping, severityMappings), input, severityMappings, groundTruth);
+  }
+  const { inputs, summary, matchOptions, severityMappings } = prepareComparison(logs, compareOptions);
+  const groundTruth = expected ? scoreInputs(inputs, expected, matchOptions) : undefined;
+  return createComparisonWorkbook(summary, inputs, { matchOptions, severityMappings, groundTruth });
+};
@@ -0,0 +1,42 @@
+import type { Result, Run, SarifLog } from '../types/sarif';
+import { createCWEResolver } from './cwe';
+import { getResultUri } from './matching';
+
+/** Lookups computed once per run so views don't have to rescan results on every render. */
+export interface RunIndex {
+  resultsByRule: Record<string, Result[]>;
+  ruleIndexById: Record<string, number>;
+  cweByRule: Record<string, string[]>;
+  resultCountByUri: Record<string, number>;
+}
+
+export const buildRunIndex = (run: Run): RunIndex => {
+  const resultsByRule: Record<string, Result[]> = {};
+  const resultCountByUri: Record<string, number> = {};
+
+  (run.results || []).forEach(result => {
+    if (!resultsByRule[result.ruleId]) {
+      resultsByRule[result.ruleId] = [];
+    }
+    resultsByRule[result.ruleId].push(result);
+
+    const uri = getResultUri(result);
+    if (uri) {
+      resultCountByUri[uri] = (resultCountByUri[uri] || 0) + 1;
+    }
+  });
+
+  const ruleIndexById: Record<string, number> = {};
+  const cweByRule: Record<string, string[]> = {};
+  const resolver = createCWEResolver(run);
+  run.tool.driver.rules?.forEach((rule, index) => {
+    if (ruleIndexById[rule.id] === undefined) {
+      ruleIndexById[rule.id] = index;
+      cweByRule[rule.id] = resolver.getRuleCWEs(rule.id);
+    }
+  });
+
+  return { resultsByRule, ruleIndexById, cweByRule, resultCountByUri };
+};
+
+export const indexSarifLog = (log: SarifLog): RunIndex[] => (log.runs || []).map(buildRunIndex);
@@ -0,0 +1,170 @@
+/**
+ * A small Markdown parser for rule help text. It covers what SARIF producers write in
+ * `help.markdown` (headings, paragraphs, lists, quotes, fenced code, emphasis, inline code and
+ * links) and returns a tree rather than HTML, so embedded HTML is never interpreted.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  /** `href` is null when the target is not a web or mail link. */
+  | { type: 'link'; href: string | null; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownBlock[] };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/** Returns a link target that is safe to follow, or null for `javascript:`, data and relative URLs. */
+export const sanitizeHref = (href: string): string | null => {
+  try {
+    const url = new URL(href.trim());
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// Alternatives in order of precedence; images are shown as links to the image
+const INLINE_PATTERN = new RegExp([
+  '`([^`]+)`',
+  '\\*\\*(.+?)\\*\\*',
+  '__(.+?)__',
+  '\\*([^*\\s][^*]*?)\\*',
+  '(?<![\\w])_([^_\\s][^_]*?)_(?![\\w])',
+  '!?\\[([^\\]]*)\\]\\(\\s*<?([^)\\s>]+)>?(?:\\s+"[^"]*")?\\s*\\)',
+  '<((?:https?|mailto):[^>\\s]+)>',
+].join('|'), 'g');
+
+export const parseInlineMarkdown = (source: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+  const pushText = (text: string) => {
+    if (!text) return;
+    const previous = nodes[nodes.length - 1];
+    if (previous?.type === 'text') {
+      previous.text += text;
+    } else {
+      nodes.push({ type: 'text', text });
+    }
+  };
+
+  for (const match of source.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    pushText(source.slice(last, index));
+    const [, code, strong, strongAlt, em, emAlt, linkText, linkHref, autolink] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInlineMarkdown(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInlineMarkdown(em ?? emAlt) });
+    } else if (linkHref !== undefined) {
+      const children = parseInlineMarkdown(linkText || linkHref);
+      nodes.push({ type: 'link', href: sanitizeHref(linkHref), children });
+    } else if (autolink !== undefined) {
+      nodes.push({ type: 'link', href: sanitizeHref(autolink), children: [{ type: 'text', text: autolink }] });
+    }
+    last = index + match[0].length;
+  }
+  pushText(source.slice(last));
+  return nodes;
+};
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim() || RULE.test(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[2] || undefined, text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInlineMarkdown(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, '$1'));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[] = [];
+      // Nested items are flattened; indented lines continue the item above them
+      while (i < lines.length && lines[i].trim()) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item) {
+          items.push(item[2]);
+        } else {
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items: items.map(parseInlineMarkdown) });
+      continue;
+    }
+
+    // An indented block is code
+    if (/^( {4}|\t)/.test(line)) {
+      const code: string[] = [];
+      while (i < lines.length && (/^( {4}|\t)/.test(lines[i]) || !lines[i].trim())) {
+        code.push(lines[i].replace(/^( {4}|\t)/, ''));
+        i++;
+      }
+      blocks.push({ type: 'code', text: code.join('\n').trimEnd() });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && lines[i].trim() &&
+      !FENCE.test(lines[i]) && !HEADING.test(lines[i]) && !QUOTE.test(lines[i]) && !LIST_ITEM.test(lines[i])
+    ) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInlineMarkdown(paragraph.join(' ')) });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,150 @@
+import type { Result } from '../types/sarif';
+
+export interface MatchOptions {
+  /** Maximum distance in lines between two results reported on the same artifact. */
+  lineTolerance: number;
+}
+
+export interface MatchOutcome {
+  matched: Array<[Result, Result]>;
+  onlyInA: Result[];
+  onlyInB: Result[];
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+  lineTolerance: 3,
+};
+
+export const normalizeUri = (uri?: string): string => {
+  if (!uri) return '';
+  let normalized = uri.trim().replace(/\\/g, '/');
+  normalized = normalized.replace(/^file:\/\/(localhost)?/i, '');
+  try {
+    normalized = decodeURIComponent(normalized);
+  } catch {
+    // Keep the raw value when the URI contains malformed escapes
+  }
+  return normalized.replace(/^(\.\/)+/, '').replace(/^\/+/, '');
+};
+
+export const getResultUri = (result: Result): string =>
+  normalizeUri(result.locations?.[0]?.physicalLocation?.artifactLocation?.uri);
+
+export const getResultLine = (result: Result): number | null =>
+  result.locations?.[0]?.physicalLocation?.region?.startLine ?? null;
+
+const getFingerprintEntries = (result: Result): string[] => [
+  ...Object.entries(result.fingerprints || {}).map(([key, value]) => `fp:${key}=${value}`),
+  ...Object.entries(result.partialFingerprints || {}).map(([key, value]) => `pfp:${key}=${value}`),
+];
+
+const getFileName = (uri: string): string => uri.slice(uri.lastIndexOf('/') + 1);
+
+// Two paths are considered the same artifact when one is a suffix of the other on a
+// path segment boundary, so `src/a.js` lines up with `/home/runner/work/app/src/a.js`.
+export const sameArtifact = (uriA: string, uriB: string): boolean => {
+  if (uriA === uriB) return true;
+  if (!uriA || !uriB) return false;
+  const [shorter, longer] = uriA.length < uriB.length ? [uriA, uriB] : [uriB, uriA];
+  return longer.endsWith(`/${shorter}`);
+};
+
+const locationDistance = (a: Result, b: Result, options: MatchOptions): number | null => {
+  const uriA = getResultUri(a);
+  const uriB = getResultUri(b);
+
+  if (!uriA && !uriB) {
+    // Location-less results only line up when they describe the same rule and message
+    return a.ruleId === b.ruleId && a.message?.text === b.message?.text ? 0 : null;
+  }
+  if (!sameArtifact(uriA, uriB)) return null;
+
+  const lineA = getResultLine(a);
+  const lineB = getResultLine(b);
+  if (lineA === null || lineB === null) {
+    return lineA === lineB ? 0 : null;
+  }
+
+  const distance = Math.abs(lineA - lineB);
+  return distance <= options.lineTolerance ? distance : null;
+};
+
+/**
+ * Pairs up results from two scans that describe the same finding. Callers are expected
+ * to pass results that already share a category (rule or CWE). Fingerprints are used
+ * first; remaining results are paired by artifact and start line within the tolerance.
+ */
+export const matchResults = (
+  resultsA: Result[],
+  resultsB: Result[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): MatchOutcome => {
+  const matched: Array<[Result, Result]> = [];
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+
+  // Pass 1: fingerprints
+  const fingerprintIndex = new Map<string, number[]>();
+  resultsB.forEach((result, index) => {
+    getFingerprintEntries(result).forEach(entry => {
+      const indices = fingerprintIndex.get(entry) || [];
+      indices.push(index);
+      fingerprintIndex.set(entry, indices);
+    });
+  });
+
+  resultsA.forEach((result, indexA) => {
+    for (const entry of getFingerprintEntries(result)) {
+      const indexB = fingerprintIndex.get(entry)?.find(i => !usedB.has(i));
+      if (indexB !== undefined) {
+        matched.push([result, resultsB[indexB]]);
+        usedA.add(indexA);
+        usedB.add(indexB);
+        break;
+      }
+    }
+  });
+
+  // Pass 2: normalized location, closest line wins and same rule breaks ties
+  const fileNameIndex = new Map<string, number[]>();
+  resultsB.forEach((result, index) => {
+    if (usedB.has(index)) return;
+    const fileName = getFileName(getResultUri(result));
+    const indices = fileNameIndex.get(fileName) || [];
+    indices.push(index);
+    fileNameIndex.set(fileName, indices);
+  });
+
+  resultsA.forEach((result, indexA) => {
+    if (usedA.has(indexA)) return;
+
+    let best: { index: number; distance: number; sameRule: boolean } | null = null;
+    for (const indexB of fileNameIndex.get(getFileName(getResultUri(result))) || []) {
+      if (usedB.has(indexB)) continue;
+      const candidate = resultsB[indexB];
+      const distance = locationDistance(result, candidate, options);
+      if (distance === null) continue;
+
+      const sameRule = candidate.ruleId === result.ruleId;
+      if (
+        !best ||
+        distance < best.distance ||
+        (distance === best.distance && sameRule && !best.sameRule)
+      ) {
+        best = { index: indexB, distance, sameRule };
+      }
+    }
+
+    if (best) {
+      matched.push([result, resultsB[best.index]]);
+      usedA.add(indexA);
+      usedB.add(best.index);
+    }
+  });
+
+  return {
+    matched,
+    onlyInA: resultsA.filter((_, index) => !usedA.has(index)),
+    onlyInB: resultsB.filter((_, index) => !usedB.has(index)),
+  };
+};
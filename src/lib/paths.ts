@@ -0,0 +1,266 @@
+import type { ArtifactLocation, Location, Result, Run, SarifLog } from '../types/sarif';
+import { normalizeUri } from './matching';
+
+export interface PathRewrite {
+  /** Regular expression matched against the normalized path. */
+  pattern: string;
+  /** Replacement, which may refer to groups as `$1`. */
+  replacement: string;
+}
+
+/** How the artifact paths of one input file are made repository-relative. */
+export interface PathRules {
+  /** Leading directories to remove, e.g. `/home/runner/work/app/app/`. */
+  stripPrefixes: string[];
+  /** Rewrites applied in order after the prefixes are stripped. */
+  rewrites: PathRewrite[];
+}
+
+/** Path rules keyed by input file name; rules under `ALL_FILES` apply to every file. */
+export type PathRulesByFile = Record<string, PathRules>;
+
+export const ALL_FILES = '*';
+
+export const EMPTY_PATH_RULES: PathRules = { stripPrefixes: [], rewrites: [] };
+
+export const isPathRulesEmpty = ({ stripPrefixes, rewrites }: PathRules): boolean =>
+  stripPrefixes.length === 0 && rewrites.length === 0;
+
+/** Rules of a file, after the rules for all files. */
+export const getFilePathRules = (rules: PathRulesByFile, fileName: string): PathRules => {
+  const common = rules[ALL_FILES] ?? EMPTY_PATH_RULES;
+  const own = fileName === ALL_FILES ? EMPTY_PATH_RULES : rules[fileName] ?? EMPTY_PATH_RULES;
+  return {
+    stripPrefixes: [...common.stripPrefixes, ...own.stripPrefixes],
+    rewrites: [...common.rewrites, ...own.rewrites],
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Reads path rules from JSON, throwing on anything that is not a rules object. */
+export const parsePathRules = (data: unknown): PathRulesByFile => {
+  if (!isObject(data)) {
+    throw new Error('Path rules must be an object keyed by file name');
+  }
+  const rules: PathRulesByFile = {};
+  Object.entries(data).forEach(([fileName, value]) => {
+    if (!isObject(value)) {
+      throw new Error(`Rules for "${fileName}" must be an object`);
+    }
+    const stripPrefixes = value.stripPrefixes ?? [];
+    const rewrites = value.rewrites ?? [];
+    if (!Array.isArray(stripPrefixes) || stripPrefixes.some(prefix => typeof prefix !== 'string')) {
+      throw new Error(`stripPrefixes of "${fileName}" must be an array of strings`);
+    }
+    if (!Array.isArray(rewrites) || rewrites.some(rewrite =>
+      !isObject(rewrite) || typeof rewrite.pattern !== 'string' || typeof rewrite.replacement !== 'string')) {
+      throw new Error(`rewrites of "${fileName}" must be an array of { pattern, replacement } objects`);
+    }
+    rewrites.forEach(({ pattern }) => {
+      const error = validateRewritePattern(pattern);
+      if (error) {
+        throw new Error(`Invalid rewrite pattern "${pattern}" for "${fileName}": ${error}`);
+      }
+    });
+    rules[fileName] = { stripPrefixes, rewrites };
+  });
+  return rules;
+};
+
+/** Returns why a rewrite pattern is not a valid regular expression, or null. */
+export const validateRewritePattern = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+// SARIF producers without `originalUriBaseIds` sometimes leave the base in the URI itself
+const PLACEHOLDER_PREFIX = /^%([A-Za-z0-9_]+)%\//;
+
+const joinUri = (base: string, uri: string): string => {
+  if (!base) return uri;
+  return base.endsWith('/') ? `${base}${uri}` : `${base}/${uri}`;
+};
+
+/**
+ * Resolves an artifact location against its top-most base, following `uriBaseId` through
+ * `run.originalUriBaseIds`. A URI relative to `%SRCROOT%` therefore stays relative to the
+ * source root, wherever the root was on the machine that ran the tool. A `%BASE%/` placeholder
+ * left in the URI becomes its `uriBaseId`.
+ */
+export const resolveArtifactLocation = (location: ArtifactLocation, run?: Run): ArtifactLocation => {
+  let { uri, uriBaseId } = location;
+  const placeholder = uriBaseId ? null : uri.match(PLACEHOLDER_PREFIX);
+  if (placeholder) {
+    uri = uri.slice(placeholder[0].length);
+    uriBaseId = placeholder[1];
+  }
+  const seen = new Set<string>();
+  while (uriBaseId && !seen.has(uriBaseId)) {
+    seen.add(uriBaseId);
+    const base = run?.originalUriBaseIds?.[uriBaseId];
+    // A base that has a base of its own is a subdirectory of it
+    if (!base?.uriBaseId) break;
+    uri = joinUri(base.uri || '', uri);
+    uriBaseId = base.uriBaseId;
+  }
+  return { ...location, uri, uriBaseId };
+};
+
+/** The URI of an artifact location below its top-most base, see `resolveArtifactLocation`. */
+export const resolveArtifactUri = (location: ArtifactLocation, run?: Run): string =>
+  resolveArtifactLocation(location, run).uri;
+
+/**
+ * Builds a function that maps a URI to a repository-relative path with the given rules. A URI
+ * no rule applies to is returned as it is; a rewritten one is percent-encoded again.
+ */
+export const createPathNormalizer = ({ stripPrefixes, rewrites }: PathRules): ((uri: string) => string) => {
+  const prefixes = stripPrefixes
+    .map(prefix => normalizeUri(prefix).replace(/\/+$/, ''))
+    .filter(Boolean)
+    // The longest prefix wins when several match
+    .sort((a, b) => b.length - a.length);
+  const compiled = rewrites
+    .filter(({ pattern }) => pattern && !validateRewritePattern(pattern))
+    .map(({ pattern, replacement }) => ({ pattern: new RegExp(pattern), replacement }));
+
+  return uri => {
+    const original = normalizeUri(uri);
+    let path = original;
+    const prefix = prefixes.find(candidate => path === candidate || path.startsWith(`${candidate}/`));
+    if (prefix) {
+      path = path.slice(prefix.length + 1);
+    }
+    compiled.forEach(({ pattern, replacement }) => {
+      path = path.replace(pattern, replacement);
+    });
+    return prefix || path !== original ? encodeURI(normalizeUri(path)) : uri;
+  };
+};
+
+/**
+ * An artifact location that means the same outside its run: an `index` into `run.artifacts` is
+ * replaced by the artifact's location, and a top-most base with a URI is joined into the URI.
+ * A base the run does not define is kept, as consumers may know it by name.
+ */
+export const detachArtifactLocation = (location: ArtifactLocation, run?: Run): ArtifactLocation => {
+  const { index, ...rest } = location;
+  const artifact = index !== undefined ? run?.artifacts?.[index]?.location : undefined;
+  const { uri, uriBaseId, ...resolved } = resolveArtifactLocation({ ...artifact, ...rest }, run);
+  const base = uriBaseId ? run?.originalUriBaseIds?.[uriBaseId] : undefined;
+  return base?.uri ? { ...resolved, uri: joinUri(base.uri, uri || '') } : { ...resolved, uri, uriBaseId };
+};
+
+/** Copies a result with every location, related location and code flow step mapped. */
+export const mapResultLocations = (result: Result, map: (location: Location) => Location): Result => ({
+  ...result,
+  locations: result.locations?.map(map),
+  relatedLocations: result.relatedLocations?.map(map),
+  codeFlows: result.codeFlows?.map(codeFlow => ({
+    ...codeFlow,
+    threadFlows: codeFlow.threadFlows.map(threadFlow => ({
+      ...threadFlow,
+      locations: threadFlow.locations.map(step => (step.location ? { ...step, location: map(step.location) } : step)),
+    })),
+  })),
+});
+
+// Normalized copies of results point back at the results as written in the log
+const originalResults = new WeakMap<Result, Result>();
+
+/** The result as written in its log, before `normalizeLogPaths` changed its paths. */
+export const getOriginalResult = (result: Result): Result => originalResults.get(result) ?? result;
+
+/**
+ * Returns a copy of a log with every artifact URI resolved against its base and normalized
+ * with the rules, or the log itself when no location changes. Other fields of the artifact
+ * locations, such as `index`, are kept.
+ */
+export const normalizeLogPaths = (log: SarifLog, rules: PathRules = EMPTY_PATH_RULES): SarifLog => {
+  const normalize = createPathNormalizer(rules);
+  let changed = false;
+
+  const normalizeRun = (run: Run): Run => {
+    const normalizeLocation = (location: Location): Location => {
+      const artifactLocation = location.physicalLocation?.artifactLocation;
+      if (!artifactLocation?.uri) return location;
+      const resolved = resolveArtifactLocation(artifactLocation, run);
+      const uri = normalize(resolved.uri);
+      if (uri === artifactLocation.uri && resolved.uriBaseId === artifactLocation.uriBaseId) return location;
+      changed = true;
+      return {
+        ...location,
+        physicalLocation: { ...location.physicalLocation, artifactLocation: { ...resolved, uri } },
+      };
+    };
+
+    const normalizeResult = (result: Result): Result => {
+      const normalized = mapResultLocations(result, normalizeLocation);
+      originalResults.set(normalized, getOriginalResult(result));
+      return normalized;
+    };
+
+    return { ...run, results: (run.results || []).map(normalizeResult) };
+  };
+
+  const normalized = { ...log, runs: log.runs.map(normalizeRun) };
+  return changed ? normalized : log;
+};
+
+/** A few distinct artifact URIs of a log as written and as normalized, to preview rules. */
+export const previewPathRules = (
+  log: SarifLog,
+  rules: PathRules,
+  limit = 5
+): Array<{ original: string; normalized: string }> => {
+  const normalize = createPathNormalizer(rules);
+  const preview = new Map<string, string>();
+  for (const run of log.runs) {
+    for (const result of run.results || []) {
+      const artifactLocation = result.locations?.[0]?.physicalLocation?.artifactLocation;
+      if (!artifactLocation?.uri) continue;
+      const original = artifactLocation.uriBaseId
+        ? `${artifactLocation.uriBaseId}/${artifactLocation.uri}`
+        : artifactLocation.uri;
+      if (!preview.has(original)) {
+        preview.set(original, normalize(resolveArtifactUri(artifactLocation, run)));
+        if (preview.size >= limit) {
+          return [...preview.entries()].map(([key, value]) => ({ original: key, normalized: value }));
+        }
+      }
+    }
+  }
+  return [...preview.entries()].map(([key, value]) => ({ original: key, normalized: value }));
+};
+
+const isAbsolute = (uri: string) => /^(file:|\/|[A-Za-z]:[\\/])/.test(uri);
+
+/**
+ * Suggests a prefix to strip: the directory shared by every absolute artifact URI of a log,
+ * such as the checkout directory of a CI runner.
+ */
+export const suggestStripPrefix = (log: SarifLog): string | null => {
+  let common: string[] | null = null;
+  for (const run of log.runs) {
+    for (const result of run.results || []) {
+      const artifactLocation = result.locations?.[0]?.physicalLocation?.artifactLocation;
+      if (!artifactLocation?.uri || artifactLocation.uriBaseId || !isAbsolute(artifactLocation.uri)) continue;
+      const directories = normalizeUri(artifactLocation.uri).split('/').slice(0, -1);
+      if (common === null) {
+        common = directories;
+      } else {
+        let i = 0;
+        while (i < common.length && common[i] === directories[i]) i++;
+        common = common.slice(0, i);
+      }
+      if (common.length === 0) return null;
+    }
+  }
+  return common && common.length > 0 ? `/${common.join('/')}/` : null;
+};
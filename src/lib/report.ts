@@ -0,0 +1,375 @@
+import type { Result } from '../types/sarif';
+import { getComparisonHeaders, getOverlapCounts, type ComparisonSummary, type SimilarityMatrix } from './comparison';
+import { getCWEResults } from './cwe';
+import { DEFAULT_MATCH_OPTIONS, getResultLine, getResultUri, matchResults, type MatchOptions } from './matching';
+import type { SarifInput } from './runs';
+import { compareSeverities, getInputSeverityResolver, type NormalizedSeverity, type SeverityMappings } from './severity';
+
+export interface ReportFinding {
+  tool: string;
+  ruleId: string;
+  severity: NormalizedSeverity;
+  /** Groups of the comparison the finding falls in. */
+  groups: string[];
+  location: string;
+  message: string;
+}
+
+export interface ReportGroup {
+  group: string;
+  name: string;
+  findings: number[];
+  deltas: number[];
+  /** Matched and unmatched findings of every input against the first one, see `getOverlapCounts`. */
+  overlaps: number[];
+  meanSimilarity: number;
+  /** Findings per rule of every input within the group. */
+  rules: Array<{ input: number; ruleId: string; count: number }>;
+}
+
+/** Everything a report shows, so the HTML and Markdown reports and the web UI agree. */
+export interface ComparisonReport {
+  title: string;
+  generatedAt: string;
+  toolNames: string[];
+  groupLabel: string;
+  groups: ReportGroup[];
+  totals: number[];
+  matrix: SimilarityMatrix;
+  meanSimilarity: number;
+  /** Findings of the other inputs that the first input, as the baseline, did not report. */
+  newFindings: ReportFinding[];
+  newFindingCount: number;
+}
+
+export interface ReportOptions {
+  title: string;
+  severityMappings: SeverityMappings;
+  matchOptions: MatchOptions;
+  /** Most severe new findings kept in the report. */
+  maxNewFindings: number;
+}
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  title: 'SARIF Comparison Report',
+  severityMappings: {},
+  matchOptions: DEFAULT_MATCH_OPTIONS,
+  maxNewFindings: 50,
+};
+
+const formatLocation = (result: Result): string => {
+  const uri = getResultUri(result);
+  const line = getResultLine(result);
+  return line === null ? uri : `${uri}:${line}`;
+};
+
+// Matches every other input against the first one group by group; a result with several
+// CWEs is only new when none of its groups matched it
+const findNewFindings = (
+  inputs: SarifInput[],
+  summary: ComparisonSummary,
+  options: ReportOptions
+): ReportFinding[] => {
+  const [baseline, ...others] = summary.cweGroups;
+  if (!baseline) return [];
+  const groups = [...new Set(summary.cweGroups.flatMap(group => Object.keys(group)))];
+
+  return others.flatMap((cweGroups, offset) => {
+    const input = inputs[offset + 1];
+    const resolver = getInputSeverityResolver(input, options.severityMappings);
+    const matched = new Set<Result>();
+    const unmatched = new Map<Result, string[]>();
+    groups.forEach(group => {
+      const outcome = matchResults(getCWEResults(baseline, group), getCWEResults(cweGroups, group), options.matchOptions);
+      outcome.matched.forEach(([, result]) => matched.add(result));
+      outcome.onlyInB.forEach(result => unmatched.set(result, [...(unmatched.get(result) || []), group]));
+    });
+    return [...unmatched.entries()]
+      .filter(([result]) => !matched.has(result))
+      .map(([result, resultGroups]) => ({
+        tool: input.label,
+        ruleId: result.ruleId,
+        severity: resolver.getResultSeverity(result).severity,
+        groups: resultGroups,
+        location: formatLocation(result),
+        message: result.message?.text || '',
+      }));
+  });
+};
+
+/** Builds the report model of a comparison computed with `compareInputs`. */
+export const createComparisonReport = (
+  inputs: SarifInput[],
+  summary: ComparisonSummary,
+  options: Partial<ReportOptions> = {}
+): ComparisonReport => {
+  const reportOptions = { ...DEFAULT_REPORT_OPTIONS, ...options };
+  const newFindings = findNewFindings(inputs, summary, reportOptions)
+    .sort((a, b) => compareSeverities(a.severity, b.severity) || a.location.localeCompare(b.location));
+
+  return {
+    title: reportOptions.title,
+    generatedAt: new Date().toISOString(),
+    toolNames: summary.toolNames,
+    groupLabel: summary.groupLabel,
+    groups: summary.rows.map(({ cwe, findings, deltas, matrix, meanSimilarity }) => ({
+      group: cwe,
+      name: summary.cweNames[cwe] || '',
+      findings,
+      deltas,
+      overlaps: getOverlapCounts(matrix),
+      meanSimilarity,
+      rules: summary.cweGroups.flatMap((cweGroups, input) =>
+        (cweGroups[cwe] || []).map(({ ruleId, items }) => ({ input, ruleId, count: items.length }))
+      ),
+    })),
+    totals: summary.totals,
+    matrix: summary.matrix,
+    meanSimilarity: summary.meanSimilarity,
+    newFindings: newFindings.slice(0, reportOptions.maxNewFindings),
+    newFindingCount: newFindings.length,
+  };
+};
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const HTML_STYLES = `
+body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111827; background: #f9fafb; margin: 0; padding: 2rem; }
+main { max-width: 1100px; margin: 0 auto; }
+h1 { font-size: 1.75rem; margin: 0 0 .25rem; }
+h2 { font-size: 1.25rem; margin: 2rem 0 .75rem; }
+.meta { color: #6b7280; font-size: .875rem; }
+.cards { display: flex; flex-wrap: wrap; gap: 1rem; margin-top: 1.5rem; }
+.card { background: #fff; border-radius: .5rem; box-shadow: 0 1px 3px rgba(0,0,0,.1); padding: 1rem 1.25rem; min-width: 160px; }
+.card .value { font-size: 1.5rem; font-weight: 700; }
+.card .label { color: #6b7280; font-size: .875rem; }
+table { width: 100%; border-collapse: collapse; background: #fff; border-radius: .5rem; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,.1); font-size: .875rem; }
+th { background: #f3f4f6; color: #6b7280; font-size: .75rem; text-transform: uppercase; letter-spacing: .05em; text-align: left; }
+th, td { padding: .5rem .75rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+tr.total td { background: #f9fafb; font-weight: 600; }
+.positive { color: #dc2626; }
+.negative { color: #16a34a; }
+.badge { display: inline-block; padding: .1rem .5rem; border-radius: 9999px; font-size: .75rem; font-weight: 600; text-transform: capitalize; }
+.critical { background: #fee2e2; color: #991b1b; }
+.high { background: #fee2e2; color: #dc2626; }
+.medium { background: #fef9c3; color: #a16207; }
+.low { background: #dbeafe; color: #1d4ed8; }
+.info { background: #f3f4f6; color: #4b5563; }
+details { background: #fff; border-radius: .5rem; box-shadow: 0 1px 3px rgba(0,0,0,.1); margin-bottom: .5rem; }
+summary { cursor: pointer; padding: .75rem 1rem; font-weight: 600; }
+details table { box-shadow: none; border-radius: 0; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: .8125rem; }
+`;
+
+const htmlTable = (header: string[], rows: string[][], rowClasses: string[] = []): string =>
+  `<table><thead><tr>${header.map(cell => `<th>${cell}</th>`).join('')}</tr></thead><tbody>` +
+  rows.map((row, i) => `<tr${rowClasses[i] ? ` class="${rowClasses[i]}"` : ''}>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('') +
+  '</tbody></table>';
+
+const htmlDelta = (delta: number) =>
+  `<span class="${delta > 0 ? 'positive' : delta < 0 ? 'negative' : ''}">${formatDelta(delta)}</span>`;
+
+/** Renders a report as a single HTML page with inline styles and no external resources. */
+export const renderHtmlReport = (report: ComparisonReport): string => {
+  const { toolNames, groupLabel, groups, totals, matrix, meanSimilarity, newFindings, newFindingCount } = report;
+  const headers = getComparisonHeaders(toolNames);
+  const names = toolNames.map(escapeHtml);
+
+  const cards = [
+    ...toolNames.map((name, i) => [String(totals[i]), `${escapeHtml(name)} findings`]),
+    [formatPercent(meanSimilarity), 'Mean pairwise similarity'],
+    [String(newFindingCount), `New findings vs ${escapeHtml(toolNames[0] || '')}`],
+  ].map(([value, label]) => `<div class="card"><div class="value">${value}</div><div class="label">${label}</div></div>`).join('');
+
+  const summaryTable = htmlTable(
+    [
+      escapeHtml(groupLabel),
+      'Name',
+      ...headers.findings.map(escapeHtml),
+      ...headers.deltas.map(escapeHtml),
+      ...headers.overlaps.map(escapeHtml),
+      headers.similarity,
+    ],
+    [
+      ...groups.map(({ group, name, findings, deltas, overlaps, meanSimilarity: groupSimilarity }) => [
+        escapeHtml(group),
+        escapeHtml(name),
+        ...findings.map(String),
+        ...deltas.map(htmlDelta),
+        ...overlaps.map(String),
+        formatPercent(groupSimilarity),
+      ]),
+      [
+        'Total / Overall',
+        '',
+        ...totals.map(String),
+        ...headers.deltas.map(() => ''),
+        ...getOverlapCounts(matrix).map(String),
+        formatPercent(meanSimilarity),
+      ],
+    ],
+    [...groups.map(() => ''), 'total']
+  );
+
+  const matrixTable = htmlTable(
+    ['', ...names],
+    matrix.map((row, i) => [names[i], ...row.map(({ similarity, matched }, j) =>
+      (i === j ? '—' : `${formatPercent(similarity)} <span class="meta">(${matched} matched)</span>`))])
+  );
+
+  const breakdowns = groups.map(({ group, name, findings, rules }) => {
+    const title = escapeHtml(name ? `${group}: ${name}` : group);
+    const table = htmlTable(
+      ['Tool', 'Rule ID', 'Findings'],
+      rules.map(({ input, ruleId, count }) => [names[input], `<code>${escapeHtml(ruleId)}</code>`, String(count)])
+    );
+    return `<details><summary>${title} <span class="meta">(${findings.join(' / ')})</span></summary>${table}</details>`;
+  }).join('');
+
+  const findingsTable = newFindings.length === 0
+    ? '<p class="meta">No new findings.</p>'
+    : htmlTable(
+      ['Severity', 'Tool', 'Rule ID', escapeHtml(groupLabel), 'Location', 'Message'],
+      newFindings.map(({ severity, tool, ruleId, groups: findingGroups, location, message }) => [
+        `<span class="badge ${severity}">${severity}</span>`,
+        escapeHtml(tool),
+        `<code>${escapeHtml(ruleId)}</code>`,
+        escapeHtml(findingGroups.join(', ')),
+        `<code>${escapeHtml(location)}</code>`,
+        escapeHtml(message),
+      ])
+    );
+  const shownNote = newFindingCount > newFindings.length
+    ? `<p class="meta">The ${newFindings.length} most severe of ${newFindingCount} new findings are listed.</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">${names.join(' vs ')} · generated ${escapeHtml(report.generatedAt)}</p>
+<div class="cards">${cards}</div>
+<h2>Comparison Summary</h2>
+${summaryTable}
+<h2>Pairwise Similarity</h2>
+${matrixTable}
+<h2>Breakdown by ${escapeHtml(groupLabel)}</h2>
+${breakdowns}
+<h2>Top New Findings</h2>
+${shownNote}
+${findingsTable}
+</main>
+</body>
+</html>
+`;
+};
+
+export interface MarkdownReportOptions {
+  /** Groups with the most findings kept in the summary table. */
+  maxGroups: number;
+  maxNewFindings: number;
+}
+
+export const DEFAULT_MARKDOWN_REPORT_OPTIONS: MarkdownReportOptions = {
+  maxGroups: 15,
+  maxNewFindings: 10,
+};
+
+const escapeMarkdown = (text: string): string => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+// The fence is longer than any run of backticks in the text, which a code span cannot escape
+const markdownCode = (text: string): string => {
+  const escaped = escapeMarkdown(text);
+  const fence = '`'.repeat(Math.max(0, ...(escaped.match(/`+/g) || []).map(run => run.length)) + 1);
+  const padding = /^`|`$/.test(escaped) ? ' ' : '';
+  return `${fence}${padding}${escaped}${padding}${fence}`;
+};
+
+const markdownTable = (header: string[], rows: Array<Array<string | number>>): string =>
+  [header, header.map(() => '---'), ...rows].map(row => `| ${row.join(' | ')} |`).join('\n');
+
+/** Renders a compact report that fits a pull request comment. */
+export const renderMarkdownReport = (
+  report: ComparisonReport,
+  options: Partial<MarkdownReportOptions> = {}
+): string => {
+  const { maxGroups, maxNewFindings } = { ...DEFAULT_MARKDOWN_REPORT_OPTIONS, ...options };
+  const { toolNames, groupLabel, groups, totals, matrix, meanSimilarity, newFindings, newFindingCount } = report;
+  const headers = getComparisonHeaders(toolNames);
+  const names = toolNames.map(escapeMarkdown);
+
+  const shownGroups = [...groups]
+    .sort((a, b) => b.findings.reduce((sum, n) => sum + n, 0) - a.findings.reduce((sum, n) => sum + n, 0))
+    .slice(0, maxGroups);
+  const shownGroupSet = new Set(shownGroups);
+  const summaryRows: Array<Array<string | number>> = [
+    // Keep the comparison's group order for the groups that are shown
+    ...groups.filter(group => shownGroupSet.has(group)).map(({ group, name, findings, deltas, overlaps, meanSimilarity: groupSimilarity }) => [
+      escapeMarkdown(name ? `${group}: ${truncate(name, 40)}` : group),
+      ...findings,
+      ...deltas.map(formatDelta),
+      ...overlaps,
+      formatPercent(groupSimilarity),
+    ]),
+    [
+      '**Total**',
+      ...totals.map(total => `**${total}**`),
+      ...headers.deltas.map(() => ''),
+      ...getOverlapCounts(matrix).map(count => `**${count}**`),
+      `**${formatPercent(meanSimilarity)}**`,
+    ],
+  ];
+
+  const sections = [
+    `## ${escapeMarkdown(report.title)}`,
+    `${names.join(' vs ')} · mean pairwise similarity **${formatPercent(meanSimilarity)}** · **${newFindingCount}** new findings vs ${names[0] || ''}`,
+    markdownTable([
+      escapeMarkdown(groupLabel),
+      ...headers.findings.map(escapeMarkdown),
+      ...headers.deltas.map(escapeMarkdown),
+      ...headers.overlaps.map(escapeMarkdown),
+      'Similarity',
+    ], summaryRows),
+  ];
+  if (groups.length > shownGroups.length) {
+    sections.push(`_${groups.length - shownGroups.length} more groups with fewer findings are not shown._`);
+  }
+  if (toolNames.length > 2) {
+    sections.push(markdownTable(
+      ['', ...names],
+      matrix.map((row, i) => [names[i], ...row.map(({ similarity }, j) => (i === j ? '—' : formatPercent(similarity)))])
+    ));
+  }
+  if (newFindings.length > 0) {
+    const shown = newFindings.slice(0, maxNewFindings);
+    sections.push(
+      `### Top new findings (${shown.length} of ${newFindingCount})`,
+      markdownTable(
+        ['Severity', 'Tool', 'Rule', 'Location', 'Message'],
+        shown.map(({ severity, tool, ruleId, location, message }) => [
+          severity,
+          escapeMarkdown(tool),
+          markdownCode(ruleId),
+          markdownCode(location),
+          // Truncating may cut a code span of the message in half
+          escapeMarkdown(truncate(message, 120)).replace(/`/g, '\\`'),
+        ])
+      )
+    );
+  }
+  return sections.join('\n\n') + '\n';
+};
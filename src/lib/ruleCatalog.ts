@@ -0,0 +1,85 @@
+import { compareCWEs, createCWEResolver, UNMAPPED_CWE } from './cwe';
+import { CWE_NAMES } from './cweHierarchy';
+import type { SarifInput } from './runs';
+
+/**
+ * `reported`: the tool has findings for the CWE. `silent`: it has rules for the CWE but no
+ * findings. `unsupported`: it has no rule for the CWE, so zero findings say nothing about the code.
+ */
+export type CatalogStatus = 'reported' | 'silent' | 'unsupported';
+
+export interface CatalogCell {
+  /** Rules of the tool that map to the CWE. */
+  ruleIds: string[];
+  findings: number;
+  status: CatalogStatus;
+}
+
+export interface CatalogRow {
+  cwe: string;
+  /** One cell per input, in input order. */
+  cells: CatalogCell[];
+}
+
+export interface CatalogTool {
+  label: string;
+  ruleCount: number;
+  /** Rules with at least one finding. */
+  firedRuleCount: number;
+}
+
+export interface RuleCatalog {
+  tools: CatalogTool[];
+  rows: CatalogRow[];
+  cweNames: Record<string, string>;
+}
+
+/**
+ * Compares the rules each input declares in `tool.driver.rules` with the findings it reported,
+ * per CWE, to tell a CWE a tool cannot detect apart from one it found nothing for.
+ */
+export const buildRuleCatalog = (inputs: SarifInput[]): RuleCatalog => {
+  const cweNames: Record<string, string> = { ...CWE_NAMES };
+  const rulesByCWE = inputs.map(() => new Map<string, string[]>());
+  const findingsByCWE = inputs.map(() => new Map<string, number>());
+
+  const tools = inputs.map((input, i): CatalogTool => {
+    const resolver = createCWEResolver(input.run, input.index.cweByRule);
+    Object.assign(cweNames, resolver.names);
+    const rules = input.run.tool.driver.rules || [];
+
+    rules.forEach(rule => {
+      const cwes = resolver.getRuleCWEs(rule.id);
+      (cwes.length > 0 ? cwes : [UNMAPPED_CWE]).forEach(cwe => {
+        rulesByCWE[i].set(cwe, [...(rulesByCWE[i].get(cwe) || []), rule.id]);
+      });
+    });
+
+    Object.values(input.results).flat().forEach(result => {
+      const cwes = resolver.getResultCWEs(result);
+      (cwes.length > 0 ? cwes : [UNMAPPED_CWE]).forEach(cwe => {
+        findingsByCWE[i].set(cwe, (findingsByCWE[i].get(cwe) || 0) + 1);
+      });
+    });
+
+    return {
+      label: input.label,
+      ruleCount: rules.length,
+      firedRuleCount: rules.filter(rule => (input.results[rule.id]?.length ?? 0) > 0).length,
+    };
+  });
+
+  const cwes = [...new Set([...rulesByCWE, ...findingsByCWE].flatMap(map => [...map.keys()]))].sort(compareCWEs);
+  const rows = cwes.map((cwe): CatalogRow => ({
+    cwe,
+    cells: inputs.map((_, i) => {
+      const ruleIds = rulesByCWE[i].get(cwe) || [];
+      const findings = findingsByCWE[i].get(cwe) || 0;
+      // Findings of rules missing from the catalog still show the tool can detect the CWE
+      const status: CatalogStatus = findings > 0 ? 'reported' : ruleIds.length > 0 ? 'silent' : 'unsupported';
+      return { ruleIds, findings, status };
+    }),
+  }));
+
+  return { tools, rows, cweNames };
+};
@@ -0,0 +1,107 @@
+import type { Result } from '../types/sarif';
+import type { CWEGroups } from './cwe';
+
+export interface RuleReference {
+  /** `tool.driver.name` of the run the rule belongs to. */
+  tool: string;
+  ruleId: string;
+}
+
+/** Rules of different tools that report the same kind of finding. */
+export interface RuleEquivalence {
+  name: string;
+  rules: RuleReference[];
+}
+
+export interface RuleMapping {
+  version: 1;
+  equivalences: RuleEquivalence[];
+}
+
+export const EMPTY_RULE_MAPPING: RuleMapping = { version: 1, equivalences: [] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Reads a rule mapping from parsed JSON, throwing on anything that is not one. */
+export const parseRuleMapping = (data: unknown): RuleMapping => {
+  if (!isObject(data) || !Array.isArray(data.equivalences)) {
+    throw new Error('A rule mapping must be an object with an "equivalences" array');
+  }
+  const equivalences = data.equivalences.map((equivalence, index): RuleEquivalence => {
+    if (!isObject(equivalence) || typeof equivalence.name !== 'string' || !Array.isArray(equivalence.rules)) {
+      throw new Error(`equivalences[${index}] must have a string name and a rules array`);
+    }
+    const rules = equivalence.rules.map((rule, ruleIndex): RuleReference => {
+      if (!isObject(rule) || typeof rule.tool !== 'string' || typeof rule.ruleId !== 'string') {
+        throw new Error(`equivalences[${index}].rules[${ruleIndex}] must have string tool and ruleId properties`);
+      }
+      return { tool: rule.tool, ruleId: rule.ruleId };
+    });
+    return { name: equivalence.name, rules };
+  });
+  return { version: 1, equivalences };
+};
+
+/** Merges imported equivalences into a mapping; equivalences with the same name are combined. */
+export const mergeRuleMappings = (base: RuleMapping, imported: RuleMapping): RuleMapping => {
+  const equivalences = base.equivalences.map(equivalence => ({ ...equivalence, rules: [...equivalence.rules] }));
+  imported.equivalences.forEach(equivalence => {
+    const existing = equivalences.find(({ name }) => name === equivalence.name);
+    if (!existing) {
+      equivalences.push({ ...equivalence, rules: [...equivalence.rules] });
+      return;
+    }
+    equivalence.rules.forEach(rule => {
+      if (!existing.rules.some(r => r.tool === rule.tool && r.ruleId === rule.ruleId)) {
+        existing.rules.push(rule);
+      }
+    });
+  });
+  return { version: 1, equivalences };
+};
+
+export const formatRuleReference = ({ tool, ruleId }: RuleReference): string => `${tool}: ${ruleId}`;
+
+/** Equivalence names keyed by `tool` and rule, for looking up the group of a result. */
+const indexEquivalences = (mapping: RuleMapping): Map<string, string> => {
+  const index = new Map<string, string>();
+  mapping.equivalences.forEach(({ name, rules }) => {
+    rules.forEach(rule => {
+      const key = JSON.stringify([rule.tool, rule.ruleId]);
+      if (!index.has(key)) {
+        index.set(key, name);
+      }
+    });
+  });
+  return index;
+};
+
+/**
+ * Groups the rule entries of one tool by mapped rule. Rules in an equivalence are listed
+ * under its name; other rules keep their own id, so runs of the same tool still line up.
+ */
+export const groupByMappedRule = (
+  entries: Array<[string, Result[]]>,
+  toolName: string,
+  mapping: RuleMapping
+): CWEGroups => {
+  const index = indexEquivalences(mapping);
+  const groups: CWEGroups = {};
+  entries.forEach(([ruleId, items]) => {
+    const group = index.get(JSON.stringify([toolName, ruleId])) ?? ruleId;
+    if (!groups[group]) {
+      groups[group] = [];
+    }
+    groups[group].push({ ruleId, items });
+  });
+  return groups;
+};
+
+/** Describes each equivalence by its rules, e.g. "Semgrep: a; CodeQL: b, c". */
+export const getEquivalenceNames = (mapping: RuleMapping): Record<string, string> =>
+  Object.fromEntries(mapping.equivalences.map(({ name, rules }) => {
+    const byTool = new Map<string, string[]>();
+    rules.forEach(({ tool, ruleId }) => byTool.set(tool, [...(byTool.get(tool) || []), ruleId]));
+    return [name, [...byTool.entries()].map(([tool, ruleIds]) => `${tool}: ${ruleIds.join(', ')}`).join('; ')];
+  }));
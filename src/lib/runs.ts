@@ -0,0 +1,117 @@
+import type { Result, Rule, Run, SarifLog } from '../types/sarif';
+import { buildRunIndex, type RunIndex } from './indexing';
+
+export type RunMode = 'separate' | 'merged';
+
+/** A single comparison column: one run (or several merged runs) with results grouped by rule. */
+export interface SarifInput {
+  label: string;
+  run: Run;
+  results: Record<string, Result[]>;
+  index: RunIndex;
+}
+
+/** Combines all runs of a log into one run, keeping the first definition of each rule. */
+export const mergeRuns = (runs: Run[]): Run => {
+  const toolNames = [...new Set(runs.map(run => run.tool.driver.name))];
+  const rules = new Map<string, Rule>();
+  runs.forEach(run => {
+    run.tool.driver.rules?.forEach(rule => {
+      if (!rules.has(rule.id)) {
+        rules.set(rule.id, rule);
+      }
+    });
+  });
+
+  return {
+    ...runs[0],
+    tool: {
+      ...runs[0]?.tool,
+      driver: {
+        ...runs[0]?.tool.driver,
+        name: toolNames.join(' + '),
+        rules: [...rules.values()],
+      },
+    },
+    results: runs.flatMap(run => run.results || []),
+    taxonomies: runs.flatMap(run => run.taxonomies || []),
+  };
+};
+
+/** Combines precomputed run indexes the same way `mergeRuns` combines the runs. */
+export const mergeRunIndexes = (merged: Run, indexes: RunIndex[]): RunIndex => {
+  const resultsByRule: Record<string, Result[]> = {};
+  const cweByRule: Record<string, string[]> = {};
+  const resultCountByUri: Record<string, number> = {};
+
+  indexes.forEach(index => {
+    Object.entries(index.resultsByRule).forEach(([ruleId, results]) => {
+      resultsByRule[ruleId] = [...(resultsByRule[ruleId] || []), ...results];
+    });
+    Object.entries(index.cweByRule).forEach(([ruleId, cwe]) => {
+      if (!(ruleId in cweByRule)) {
+        cweByRule[ruleId] = cwe;
+      }
+    });
+    Object.entries(index.resultCountByUri).forEach(([uri, count]) => {
+      resultCountByUri[uri] = (resultCountByUri[uri] || 0) + count;
+    });
+  });
+
+  const ruleIndexById: Record<string, number> = {};
+  merged.tool.driver.rules?.forEach((rule, i) => {
+    ruleIndexById[rule.id] = i;
+  });
+
+  return { resultsByRule, ruleIndexById, cweByRule, resultCountByUri };
+};
+
+const createInput = (label: string, run: Run, index: RunIndex = buildRunIndex(run)): SarifInput => ({
+  label,
+  run,
+  results: index.resultsByRule,
+  index,
+});
+
+/**
+ * Turns the uploaded logs into comparison inputs. In `separate` mode every run becomes its
+ * own input, attributed to its `tool.driver.name`; in `merged` mode each log becomes one.
+ * Indexes built while parsing (one per run) are reused instead of regrouping the results.
+ */
+export const getComparisonInputs = (
+  logs: SarifLog[],
+  mode: RunMode,
+  indexes: Array<RunIndex[] | undefined> = []
+): SarifInput[] => {
+  const entries = logs.flatMap((log, logIndex) => {
+    const runs = log.runs || [];
+    // Index each run on its own so references into its taxonomies still resolve after merging
+    const runIndexes = indexes[logIndex] ?? runs.map(buildRunIndex);
+    if (mode === 'merged' || runs.length <= 1) {
+      const run = runs.length === 1 ? runs[0] : mergeRuns(runs);
+      const index = runs.length === 1 ? runIndexes[0] : mergeRunIndexes(run, runIndexes);
+      return [{ name: run.tool.driver.name, logIndex, runIndex: null as number | null, run, index }];
+    }
+    return runs.map((run, runIndex) => ({
+      name: run.tool.driver.name,
+      logIndex,
+      runIndex,
+      run,
+      index: runIndexes[runIndex],
+    }));
+  });
+
+  // Disambiguate inputs sharing a tool name, e.g. two scans from the same tool
+  const nameCounts = entries.reduce((acc, { name }) => {
+    acc[name] = (acc[name] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return entries.map(({ name, logIndex, runIndex, run, index }) => {
+    const suffix = runIndex === null ? `file ${logIndex + 1}` : `file ${logIndex + 1}, run ${runIndex + 1}`;
+    return createInput(nameCounts[name] > 1 ? `${name} (${suffix})` : name, run, index);
+  });
+};
+
+export const hasMultipleRuns = (logs: SarifLog[]): boolean =>
+  logs.some(log => (log.runs || []).length > 1);
@@ -0,0 +1,206 @@
+import type { Location, ReportingDescriptorReference, Result, Rule, Run, SarifLog } from '../types/sarif';
+import { SARIF_SCHEMA_URI } from './baseline';
+import type { ComparisonSummary } from './comparison';
+import { getCWEResults } from './cwe';
+import { DEFAULT_MATCH_OPTIONS, matchResults, type MatchOptions } from './matching';
+import { detachArtifactLocation, mapResultLocations } from './paths';
+import { formatRuleReference } from './ruleMapping';
+import type { SarifInput } from './runs';
+
+/** `runs` keeps one run per input; `deduplicated` reports every matched finding once. */
+export type MergedSarifMode = 'runs' | 'deduplicated';
+
+export const MERGED_TOOL_NAME = 'SARIF Compare';
+
+/** Results of several inputs that describe the same finding. */
+export type FindingCluster = Array<{ input: number; result: Result }>;
+
+interface ClusterNode {
+  input: number;
+  result: Result;
+  parent: ClusterNode;
+}
+
+// Random version 4 UUID; `crypto.randomUUID` is missing outside secure contexts
+const createGuid = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+const findRoot = (node: ClusterNode): ClusterNode => {
+  while (node.parent !== node) {
+    node.parent = node.parent.parent;
+    node = node.parent;
+  }
+  return node;
+};
+
+/**
+ * Collects the results of all inputs into clusters of the same finding, matching every pair
+ * of inputs within each group of the comparison the way the similarity matrix does. Clusters
+ * are ordered by their first result, in input order.
+ */
+export const clusterFindings = (
+  inputs: SarifInput[],
+  summary: ComparisonSummary,
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): FindingCluster[] => {
+  // Keyed per input, as the same log may be compared with itself
+  const nodes = inputs.map((input, i) => {
+    const byResult = new Map<Result, ClusterNode>();
+    Object.values(input.results).flat().forEach(result => {
+      const node = { input: i, result } as ClusterNode;
+      node.parent = node;
+      byResult.set(result, node);
+    });
+    return byResult;
+  });
+
+  const groups = [...new Set(summary.cweGroups.flatMap(group => Object.keys(group)))];
+  groups.forEach(group => {
+    const resultsPerInput = summary.cweGroups.map(cweGroups => getCWEResults(cweGroups, group));
+    resultsPerInput.forEach((resultsA, i) => {
+      resultsPerInput.slice(i + 1).forEach((resultsB, offset) => {
+        const j = i + 1 + offset;
+        matchResults(resultsA, resultsB, options).matched.forEach(([a, b]) => {
+          const rootA = findRoot(nodes[i].get(a)!);
+          const rootB = findRoot(nodes[j].get(b)!);
+          if (rootA !== rootB) {
+            rootB.parent = rootA;
+          }
+        });
+      });
+    });
+  });
+
+  const clusters = new Map<ClusterNode, FindingCluster>();
+  nodes.forEach(byResult => byResult.forEach(node => {
+    const root = findRoot(node);
+    clusters.set(root, [...(clusters.get(root) || []), { input: node.input, result: node.result }]);
+  }));
+  return [...clusters.values()];
+};
+
+const getReporters = (inputs: SarifInput[], cluster: Array<{ input: number }>): string[] =>
+  [...new Set(cluster.map(({ input }) => inputs[input].label))];
+
+const createRunsLog = (
+  inputs: SarifInput[],
+  clusters: FindingCluster[]
+): SarifLog => {
+  const exported = inputs.map(() => new Map<Result, Result>());
+  clusters.forEach(cluster => {
+    const reportedBy = getReporters(inputs, cluster);
+    // Only findings reported by more than one input need a shared id
+    const correlationGuid = cluster.length > 1 ? createGuid() : undefined;
+    cluster.forEach(({ input, result }) => {
+      exported[input].set(result, {
+        ...result,
+        guid: createGuid(),
+        correlationGuid,
+        properties: { ...result.properties, reportedBy },
+      });
+    });
+  });
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: '2.1.0',
+    runs: inputs.map((input, i): Run => ({
+      ...input.run,
+      results: Object.values(input.results).flat().map(result => exported[i].get(result)!),
+    })),
+  };
+};
+
+// Taxonomies of all inputs share one list, so an index into an input's own list moves along
+const shiftTaxonomyIndex = (reference: ReportingDescriptorReference, offset: number): ReportingDescriptorReference =>
+  (reference.toolComponent?.index !== undefined
+    ? { ...reference, toolComponent: { ...reference.toolComponent, index: reference.toolComponent.index + offset } }
+    : reference);
+
+const shiftRuleTaxonomies = (rule: Rule, offset: number): Rule => (rule.relationships
+  ? {
+    ...rule,
+    relationships: rule.relationships.map(relationship => ({
+      ...relationship,
+      target: shiftTaxonomyIndex(relationship.target, offset),
+    })),
+  }
+  : rule);
+
+const createDeduplicatedLog = (
+  inputs: SarifInput[],
+  clusters: FindingCluster[]
+): SarifLog => {
+  const ruleIndexes = inputs.map(input => new Map(input.run.tool.driver.rules?.map((rule, i) => [rule.id, i])));
+  const taxonomyOffsets = inputs.map((_, i) =>
+    inputs.slice(0, i).reduce((offset, { run }) => offset + (run.taxonomies?.length || 0), 0));
+
+  const results = clusters.map((cluster): Result => {
+    const [{ input, result }, ...matches] = cluster;
+    const { run } = inputs[input];
+    const matchedRules = [...new Set(matches
+      .filter(match => match.input !== input || match.result.ruleId !== result.ruleId)
+      .map(match => formatRuleReference({ tool: inputs[match.input].label, ruleId: match.result.ruleId })))];
+    // The merged run has neither the input's artifacts nor its bases, so locations name their files directly
+    const detach = (location: Location): Location => {
+      const artifactLocation = location.physicalLocation?.artifactLocation;
+      if (!artifactLocation) return location;
+      return {
+        ...location,
+        physicalLocation: { ...location.physicalLocation, artifactLocation: detachArtifactLocation(artifactLocation, run) },
+      };
+    };
+    return {
+      ...mapResultLocations(result, detach),
+      taxa: result.taxa?.map(reference => shiftTaxonomyIndex(reference, taxonomyOffsets[input])),
+      ruleIndex: undefined,
+      // Rules live in one extension per input, as rule ids of different tools may clash
+      rule: { id: result.ruleId, index: ruleIndexes[input].get(result.ruleId), toolComponent: { index: input } },
+      guid: createGuid(),
+      properties: {
+        ...result.properties,
+        reportedBy: getReporters(inputs, cluster),
+        ...(matchedRules.length > 0 ? { matchedRules } : {}),
+      },
+    };
+  });
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: { name: MERGED_TOOL_NAME },
+          extensions: inputs.map(({ label, run }, i) => ({
+            ...run.tool.driver,
+            name: label,
+            rules: run.tool.driver.rules?.map(rule => shiftRuleTaxonomies(rule, taxonomyOffsets[i])),
+          })),
+        },
+        results,
+        taxonomies: inputs.flatMap(({ run }) => run.taxonomies || []),
+      },
+    ],
+  };
+};
+
+/**
+ * Builds one SARIF log out of compared inputs. Every result records the inputs that reported
+ * it in `properties.reportedBy`. With one run per input, results of the same finding share a
+ * `correlationGuid`; the deduplicated run keeps the first input's result of each finding.
+ */
+export const createMergedSarif = (
+  inputs: SarifInput[],
+  summary: ComparisonSummary,
+  mode: MergedSarifMode = 'runs',
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): SarifLog => {
+  const clusters = clusterFindings(inputs, summary, options);
+  return mode === 'runs' ? createRunsLog(inputs, clusters) : createDeduplicatedLog(inputs, clusters);
+};
@@ -0,0 +1,249 @@
+import type { Result, Rule, Run } from '../types/sarif';
+import type { SarifInput } from './runs';
+
+/** Severity shared by all tools, derived from scores, ranks and levels. */
+export type NormalizedSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+/** Normalized severities, most severe first. */
+export const SEVERITIES: NormalizedSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+export interface SeverityMapping {
+  /** Lowest score (0-10) for each severity; lower scores are `info`. */
+  scoreThresholds: Record<Exclude<NormalizedSeverity, 'info'>, number>;
+  /** Read `rank` (0-100) as a score divided by ten when there is no `security-severity`. */
+  useRank: boolean;
+  /** Severity of each `problem.severity` value, e.g. CodeQL's `recommendation`. */
+  problemSeverity: Record<string, NormalizedSeverity>;
+  /** Severity of each SARIF level. */
+  levels: Record<string, NormalizedSeverity>;
+  /** Steps to lower the severity by for a rule's `precision`, e.g. `low: 1`. */
+  precisionDowngrade: Record<string, number>;
+}
+
+/** Overrides of a tool's mapping; each nested record only overrides the keys it lists. */
+export interface SeverityMappingOverride {
+  scoreThresholds?: Partial<SeverityMapping['scoreThresholds']>;
+  useRank?: boolean;
+  problemSeverity?: Record<string, NormalizedSeverity>;
+  levels?: Record<string, NormalizedSeverity>;
+  precisionDowngrade?: Record<string, number>;
+}
+
+/** Mapping overrides keyed by tool name; tools without one use the default mapping. */
+export type SeverityMappings = Record<string, SeverityMappingOverride>;
+
+// Thresholds follow GitHub code scanning's reading of `security-severity`
+export const DEFAULT_SEVERITY_MAPPING: SeverityMapping = {
+  scoreThresholds: { critical: 9, high: 7, medium: 4, low: 0.1 },
+  useRank: true,
+  problemSeverity: { error: 'high', warning: 'medium', recommendation: 'low' },
+  levels: { error: 'high', warning: 'medium', note: 'low', info: 'info', none: 'info' },
+  precisionDowngrade: { low: 1 },
+};
+
+export const getSeverityMapping = (mappings: SeverityMappings, toolName: string): SeverityMapping => {
+  const override = mappings[toolName] ?? {};
+  return {
+    scoreThresholds: { ...DEFAULT_SEVERITY_MAPPING.scoreThresholds, ...override.scoreThresholds },
+    useRank: override.useRank ?? DEFAULT_SEVERITY_MAPPING.useRank,
+    problemSeverity: { ...DEFAULT_SEVERITY_MAPPING.problemSeverity, ...override.problemSeverity },
+    levels: { ...DEFAULT_SEVERITY_MAPPING.levels, ...override.levels },
+    precisionDowngrade: { ...DEFAULT_SEVERITY_MAPPING.precisionDowngrade, ...override.precisionDowngrade },
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSeverity = (value: unknown): value is NormalizedSeverity => SEVERITIES.includes(value as NormalizedSeverity);
+
+const isNonNegative = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const readRecord = <T>(value: unknown, where: string, isValid: (entry: unknown) => entry is T, expected: string) => {
+  if (!isObject(value)) {
+    throw new Error(`${where} must be an object`);
+  }
+  Object.entries(value).forEach(([key, entry]) => {
+    if (!isValid(entry)) throw new Error(`${where}.${key} must be ${expected}`);
+  });
+  return value as Record<string, T>;
+};
+
+/** Reads per-tool severity mappings from parsed JSON, throwing on anything that is not one. */
+export const parseSeverityMappings = (data: unknown): SeverityMappings => {
+  if (!isObject(data)) {
+    throw new Error('Severity mappings must be an object keyed by tool name');
+  }
+  return Object.fromEntries(Object.entries(data).map(([toolName, mapping]) => {
+    if (!isObject(mapping)) {
+      throw new Error(`The mapping of "${toolName}" must be an object`);
+    }
+    const override: SeverityMappingOverride = {};
+    Object.entries(mapping).forEach(([key, value]) => {
+      const where = `${toolName}.${key}`;
+      switch (key) {
+        case 'scoreThresholds': {
+          const thresholds = readRecord(value, where, isNonNegative, 'a non-negative number');
+          const unknown = Object.keys(thresholds).find(severity => !isSeverity(severity) || severity === 'info');
+          if (unknown) throw new Error(`${where}.${unknown} is not one of critical, high, medium, low`);
+          override.scoreThresholds = thresholds;
+          break;
+        }
+        case 'useRank':
+          if (typeof value !== 'boolean') throw new Error(`${where} must be true or false`);
+          override.useRank = value;
+          break;
+        case 'problemSeverity':
+        case 'levels':
+          override[key] = readRecord(value, where, isSeverity, `one of ${SEVERITIES.join(', ')}`);
+          break;
+        case 'precisionDowngrade':
+          override.precisionDowngrade = readRecord(value, where, isNonNegative, 'a non-negative number');
+          break;
+        default:
+          throw new Error(`${where} is not a severity mapping setting`);
+      }
+    });
+    return [toolName, override];
+  }));
+};
+
+export interface ResolvedSeverity {
+  severity: NormalizedSeverity;
+  /** What the severity was derived from, e.g. "security-severity 8.8". */
+  basis: string;
+}
+
+export interface SeverityResolver {
+  getResultSeverity: (result: Result) => ResolvedSeverity;
+  /** Highest severity among a rule's results, or the rule's own when it has none. */
+  getRuleSeverity: (ruleId: string, items: Result[]) => NormalizedSeverity;
+}
+
+const parseScore = (value: unknown): number | null => {
+  const score = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(score) && score >= 0 && score <= 10 ? score : null;
+};
+
+export const compareSeverities = (a: NormalizedSeverity, b: NormalizedSeverity): number =>
+  SEVERITIES.indexOf(a) - SEVERITIES.indexOf(b);
+
+export const isAtLeast = (severity: NormalizedSeverity, minimum: NormalizedSeverity): boolean =>
+  compareSeverities(severity, minimum) <= 0;
+
+/**
+ * Resolves normalized severities for the results of a run. A `security-severity` score wins,
+ * then `rank`, then the rule's `problem.severity`, then the SARIF level (`warning` when
+ * absent, as the spec defaults it); the rule's `precision` may lower the outcome.
+ */
+export const createSeverityResolver = (run?: Run, mapping: SeverityMapping = DEFAULT_SEVERITY_MAPPING): SeverityResolver => {
+  const rulesById = new Map<string, Rule>();
+  run?.tool.driver.rules?.forEach(rule => {
+    if (!rulesById.has(rule.id)) {
+      rulesById.set(rule.id, rule);
+    }
+  });
+
+  const fromScore = (score: number): NormalizedSeverity =>
+    SEVERITIES.find(severity => severity !== 'info' && score >= mapping.scoreThresholds[severity]) ?? 'info';
+
+  const getBaseSeverity = (result: Result, rule?: Rule): ResolvedSeverity => {
+    const score = parseScore(result.properties?.['security-severity']) ?? parseScore(rule?.properties?.['security-severity']);
+    if (score !== null) {
+      return { severity: fromScore(score), basis: `security-severity ${score}` };
+    }
+
+    const rank = result.rank ?? rule?.defaultConfiguration?.rank;
+    if (mapping.useRank && typeof rank === 'number' && rank >= 0) {
+      return { severity: fromScore(rank / 10), basis: `rank ${rank}` };
+    }
+
+    const problemSeverity = rule?.properties?.['problem.severity']?.toLowerCase();
+    if (problemSeverity && mapping.problemSeverity[problemSeverity]) {
+      return { severity: mapping.problemSeverity[problemSeverity], basis: `problem.severity ${problemSeverity}` };
+    }
+
+    const level = (result.level || rule?.defaultConfiguration?.level || 'warning').toLowerCase();
+    return { severity: mapping.levels[level] ?? 'medium', basis: `level ${level}` };
+  };
+
+  const resolveSeverity = (result: Result): ResolvedSeverity => {
+    const rule = rulesById.get(result.ruleId);
+    const resolved = getBaseSeverity(result, rule);
+    const precision = rule?.properties?.precision?.toLowerCase();
+    const steps = precision ? mapping.precisionDowngrade[precision] || 0 : 0;
+    if (steps <= 0) return resolved;
+
+    const index = Math.min(SEVERITIES.length - 1, SEVERITIES.indexOf(resolved.severity) + steps);
+    return { severity: SEVERITIES[index], basis: `${resolved.basis}, precision ${precision}` };
+  };
+
+  const cache = new WeakMap<Result, ResolvedSeverity>();
+  const getResultSeverity = (result: Result): ResolvedSeverity => {
+    let resolved = cache.get(result);
+    if (!resolved) {
+      resolved = resolveSeverity(result);
+      cache.set(result, resolved);
+    }
+    return resolved;
+  };
+
+  const getRuleSeverity = (ruleId: string, items: Result[]): NormalizedSeverity => {
+    if (items.length === 0) {
+      return getResultSeverity({ ruleId, message: { text: '' } }).severity;
+    }
+    return items
+      .map(result => getResultSeverity(result).severity)
+      .reduce((highest, severity) => (compareSeverities(severity, highest) < 0 ? severity : highest));
+  };
+
+  return { getResultSeverity, getRuleSeverity };
+};
+
+/** Orders rules by their highest normalized severity, most severe first. */
+export const sortEntriesByNormalizedSeverity = (
+  results: Record<string, Result[]>,
+  resolver: SeverityResolver
+): Array<[string, Result[]]> => {
+  const entries = Object.entries(results);
+  const severities = new Map(entries.map(([ruleId, items]) => [ruleId, resolver.getRuleSeverity(ruleId, items)]));
+  return entries.sort(([ruleIdA], [ruleIdB]) => compareSeverities(severities.get(ruleIdA)!, severities.get(ruleIdB)!));
+};
+
+export const countBySeverity = (results: Result[], resolver: SeverityResolver): Record<NormalizedSeverity, number> => {
+  const counts = Object.fromEntries(SEVERITIES.map(severity => [severity, 0])) as Record<NormalizedSeverity, number>;
+  results.forEach(result => {
+    counts[resolver.getResultSeverity(result).severity]++;
+  });
+  return counts;
+};
+
+export const getInputSeverityResolver = (input: SarifInput, mappings: SeverityMappings): SeverityResolver =>
+  createSeverityResolver(input.run, getSeverityMapping(mappings, input.run.tool.driver.name));
+
+/** Finding counts per normalized severity, one record per input. */
+export const getSeverityBreakdown = (
+  inputs: SarifInput[],
+  mappings: SeverityMappings = {}
+): Array<Record<NormalizedSeverity, number>> =>
+  inputs.map(input => countBySeverity(Object.values(input.results).flat(), getInputSeverityResolver(input, mappings)));
+
+/** Drops findings below `minimum`, so tools are compared at the same severity level. */
+export const filterInputsBySeverity = (
+  inputs: SarifInput[],
+  minimum: NormalizedSeverity,
+  mappings: SeverityMappings = {}
+): SarifInput[] => {
+  if (minimum === 'info') return inputs;
+  return inputs.map(input => {
+    const resolver = getInputSeverityResolver(input, mappings);
+    const results: Record<string, Result[]> = {};
+    Object.entries(input.results).forEach(([ruleId, items]) => {
+      const kept = items.filter(result => isAtLeast(resolver.getResultSeverity(result).severity, minimum));
+      if (kept.length > 0) {
+        results[ruleId] = kept;
+      }
+    });
+    return { ...input, results };
+  });
+};
@@ -0,0 +1,119 @@
+import type { Location, Region } from '../types/sarif';
+
+export interface SnippetLine {
+  /** 1-based line number in the artifact, when known. */
+  number: number | null;
+  text: string;
+  highlighted: boolean;
+  /** 1-based column where the highlight starts on this line. */
+  highlightStart?: number;
+  /** 1-based column just past the highlight, as in SARIF `endColumn`. */
+  highlightEnd?: number;
+}
+
+export interface SourceSnippet {
+  lines: SnippetLine[];
+  /** Where the text came from: a local file, or a snippet embedded in the log. */
+  origin: 'file' | 'contextRegion' | 'region';
+}
+
+export const SNIPPET_CONTEXT_LINES = 3;
+
+const splitLines = (text: string): string[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+const highlightLine = (
+  lineNumber: number,
+  region: Region,
+  columnOffset = 0
+): Pick<SnippetLine, 'highlighted' | 'highlightStart' | 'highlightEnd'> => {
+  const startLine = region.startLine;
+  const endLine = region.endLine ?? startLine;
+  if (lineNumber < startLine || lineNumber > endLine) return { highlighted: false };
+  return {
+    highlighted: true,
+    highlightStart: lineNumber === startLine && region.startColumn ? region.startColumn - columnOffset : undefined,
+    highlightEnd: lineNumber === endLine && region.endColumn ? region.endColumn - columnOffset : undefined,
+  };
+};
+
+/** Cuts the lines of `region` out of a whole file, with some lines of context around them. */
+export const getSnippetFromSource = (
+  text: string,
+  region: Region,
+  contextLines = SNIPPET_CONTEXT_LINES
+): SourceSnippet | null => {
+  const lines = splitLines(text);
+  const endLine = region.endLine ?? region.startLine;
+  if (region.startLine > lines.length) return null;
+
+  const first = Math.max(1, region.startLine - contextLines);
+  const last = Math.min(lines.length, endLine + contextLines);
+  return {
+    origin: 'file',
+    lines: lines.slice(first - 1, last).map((line, index) => ({
+      number: first + index,
+      text: line,
+      ...highlightLine(first + index, region),
+    })),
+  };
+};
+
+/**
+ * Builds a snippet from the text the tool embedded in the log. `contextRegion.snippet` is
+ * preferred since it shows surrounding lines; the flagged region is highlighted inside it.
+ */
+export const getEmbeddedSnippet = (location?: Location): SourceSnippet | null => {
+  const region = location?.physicalLocation?.region;
+  const contextRegion = location?.physicalLocation?.contextRegion;
+
+  if (contextRegion?.snippet) {
+    const firstLine = contextRegion.startLine ?? region?.startLine ?? null;
+    return {
+      origin: 'contextRegion',
+      lines: splitLines(contextRegion.snippet.text).map((line, index) => {
+        const number = firstLine === null ? null : firstLine + index;
+        // The first line of the context may start mid-line
+        const columnOffset = index === 0 && contextRegion.startColumn ? contextRegion.startColumn - 1 : 0;
+        return {
+          number,
+          text: line,
+          ...(region && number !== null ? highlightLine(number, region, columnOffset) : { highlighted: false }),
+        };
+      }),
+    };
+  }
+
+  if (region?.snippet) {
+    return {
+      origin: 'region',
+      lines: splitLines(region.snippet.text).map((line, index) => ({
+        number: region.startLine ? region.startLine + index : null,
+        text: line,
+        highlighted: true,
+      })),
+    };
+  }
+
+  return null;
+};
+
+/** Prefers the real file contents when they are available and falls back to embedded snippets. */
+export const getLocationSnippet = (
+  location: Location | undefined,
+  sourceText?: string | null,
+  contextLines = SNIPPET_CONTEXT_LINES
+): SourceSnippet | null => {
+  const region = location?.physicalLocation?.region;
+  if (sourceText != null && region?.startLine) {
+    const snippet = getSnippetFromSource(sourceText, region, contextLines);
+    if (snippet) return snippet;
+  }
+  return getEmbeddedSnippet(location);
+};
+
+export const hasEmbeddedSnippet = (location?: Location): boolean =>
+  Boolean(location?.physicalLocation?.region?.snippet || location?.physicalLocation?.contextRegion?.snippet);
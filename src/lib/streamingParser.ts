@@ -0,0 +1,214 @@
+import type { Result } from '../types/sarif';
+
+// `capture` reads an object, array or string element of a results array, `scalar` a number, boolean or null
+type Mode = 'skeleton' | 'skip' | 'capture' | 'scalar';
+
+interface Frame {
+  type: 'object' | 'array';
+  /** Key under which this container sits in its parent object. */
+  key?: string;
+  expectKey: boolean;
+  lastKey?: string;
+  objectCount: number;
+}
+
+export interface SarifStreamParser {
+  /** Feeds the next chunk of text. */
+  write: (chunk: string) => void;
+  /** Finishes parsing and returns the whole document with every result in place. */
+  end: () => unknown;
+}
+
+/**
+ * Incremental parser for SARIF logs. Every element of `runs[i].results` is parsed on its own
+ * as soon as its closing brace arrives and handed to `onResults`, so callers can show
+ * results while the rest of the file is still being read. Everything outside the results
+ * arrays is kept as a small "skeleton" document that is parsed once at the end. Elements
+ * that are not objects are not handed out but stay in the document, so validation sees them.
+ */
+export const createSarifStreamParser = (
+  onResults: (runIndex: number, results: Result[]) => void
+): SarifStreamParser => {
+  const stack: Frame[] = [];
+  const skeleton: string[] = [];
+  const resultsByRun: unknown[][] = [];
+
+  let mode: Mode = 'skeleton';
+  let inString = false;
+  let escaped = false;
+  let keyBuffer: string[] | null = null;
+  let segmentStartOfKey = 0;
+  let capture: string[] = [];
+  let captureDepth = 0;
+  let firstChunk = true;
+
+  const isResultsArray = () =>
+    stack.length === 4 &&
+    stack[1].type === 'array' && stack[1].key === 'runs' &&
+    stack[3].type === 'array' && stack[3].key === 'results';
+
+  const currentRunIndex = () => stack[1].objectCount - 1;
+
+  const write = (input: string) => {
+    let chunk = input;
+    if (firstChunk) {
+      chunk = chunk.replace(/^\uFEFF/, '');
+      firstChunk = false;
+    }
+
+    let segmentStart = 0;
+    const flush = (end: number) => {
+      if (end > segmentStart) {
+        if (mode === 'skeleton') skeleton.push(chunk.slice(segmentStart, end));
+        else if (mode === 'capture' || mode === 'scalar') capture.push(chunk.slice(segmentStart, end));
+      }
+      segmentStart = end;
+    };
+    const batches = new Map<number, Result[]>();
+    const finishElement = (end: number) => {
+      flush(end);
+      const runIndex = currentRunIndex();
+      const element: unknown = JSON.parse(capture.join(''));
+      resultsByRun[runIndex].push(element);
+      if (typeof element === 'object' && element !== null && !Array.isArray(element)) {
+        const batch = batches.get(runIndex) || [];
+        batch.push(element as Result);
+        batches.set(runIndex, batch);
+      }
+      capture = [];
+      mode = 'skip';
+    };
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (mode === 'capture' && captureDepth === 0) {
+            finishElement(i + 1);
+          } else if (keyBuffer) {
+            keyBuffer.push(chunk.slice(segmentStartOfKey, i));
+            const frame = stack[stack.length - 1];
+            frame.lastKey = JSON.parse(`"${keyBuffer.join('')}"`);
+            frame.expectKey = false;
+            keyBuffer = null;
+          }
+        }
+        continue;
+      }
+
+      if (mode === 'capture') {
+        if (char === '"') {
+          inString = true;
+        } else if (char === '{' || char === '[') {
+          captureDepth++;
+        } else if (char === '}' || char === ']') {
+          captureDepth--;
+          if (captureDepth === 0) {
+            finishElement(i + 1);
+          }
+        }
+        continue;
+      }
+
+      if (mode === 'scalar') {
+        if (char === ',' || char === ']' || /\s/.test(char)) {
+          finishElement(i);
+          // The delimiter is read again in skip mode, e.g. to close the array
+          i--;
+        }
+        continue;
+      }
+
+      if (mode === 'skip') {
+        if (char === '{' || char === '[') {
+          flush(i);
+          mode = 'capture';
+          captureDepth = 1;
+        } else if (char === '"') {
+          flush(i);
+          mode = 'capture';
+          captureDepth = 0;
+          inString = true;
+        } else if (char === ']') {
+          flush(i);
+          mode = 'skeleton';
+          stack.pop();
+        } else if (char !== ',' && !/\s/.test(char)) {
+          flush(i);
+          mode = 'scalar';
+        }
+        continue;
+      }
+
+      // Skeleton mode: track structure and object keys
+      const frame = stack[stack.length - 1];
+      switch (char) {
+        case '"':
+          inString = true;
+          if (frame?.type === 'object' && frame.expectKey) {
+            keyBuffer = [];
+            segmentStartOfKey = i + 1;
+          }
+          break;
+        case '{':
+        case '[':
+          if (frame?.type === 'array' && char === '{') {
+            frame.objectCount++;
+          }
+          stack.push({
+            type: char === '{' ? 'object' : 'array',
+            key: frame?.type === 'object' ? frame.lastKey : undefined,
+            expectKey: char === '{',
+            objectCount: 0,
+          });
+          if (isResultsArray()) {
+            flush(i + 1);
+            mode = 'skip';
+            resultsByRun[currentRunIndex()] ??= [];
+          }
+          break;
+        case '}':
+        case ']':
+          stack.pop();
+          break;
+        case ',':
+          if (frame?.type === 'object') {
+            frame.expectKey = true;
+          }
+          break;
+      }
+    }
+
+    // Keys split across chunks keep their first part
+    if (keyBuffer) {
+      keyBuffer.push(chunk.slice(segmentStartOfKey));
+      segmentStartOfKey = 0;
+    }
+    flush(chunk.length);
+
+    batches.forEach((results, runIndex) => onResults(runIndex, results));
+  };
+
+  const end = (): unknown => {
+    if (mode !== 'skeleton' || stack.length > 0 || inString) {
+      throw new SyntaxError('Unexpected end of JSON input');
+    }
+    const data = JSON.parse(skeleton.join(''));
+    const runs: unknown[] = Array.isArray(data?.runs) ? data.runs : [];
+    resultsByRun.forEach((results, runIndex) => {
+      const run = runs[runIndex] as { results?: unknown[] } | undefined;
+      if (run && Array.isArray(run.results)) {
+        run.results = results;
+      }
+    });
+    return data;
+  };
+
+  return { write, end };
+};
@@ -0,0 +1,77 @@
+import type { SarifLog } from '../types/sarif';
+import { compareCWEs, createCWEResolver, groupByCWE, getCWEResults } from './cwe';
+import { getComparisonInputs } from './runs';
+import { countBySeverity, getInputSeverityResolver, SEVERITIES, type NormalizedSeverity, type SeverityMappings } from './severity';
+
+/** Finding counts of one scan, kept with the scan so trends do not need to re-read its log. */
+export interface ScanSnapshot {
+  total: number;
+  byCWE: Record<string, number>;
+  bySeverity: Record<NormalizedSeverity, number>;
+}
+
+export interface ScanPoint {
+  /** ISO date, e.g. `2024-05-01`. */
+  scanDate: string;
+  commit?: string;
+  snapshot: ScanSnapshot;
+}
+
+export type TrendMetric = 'total' | 'cwe' | 'severity';
+
+export interface TrendSeries {
+  name: string;
+  values: number[];
+}
+
+/** Counts the findings of a log with all of its runs merged, as one scan of a project. */
+export const snapshotLog = (log: SarifLog, severityMappings: SeverityMappings = {}): ScanSnapshot => {
+  const [input] = getComparisonInputs([log], 'merged');
+
+  const results = Object.values(input.results).flat();
+  const cweGroups = groupByCWE(Object.entries(input.results), createCWEResolver(input.run, input.index.cweByRule));
+  return {
+    total: results.length,
+    byCWE: Object.fromEntries(Object.keys(cweGroups).map(cwe => [cwe, getCWEResults(cweGroups, cwe).length])),
+    bySeverity: countBySeverity(results, getInputSeverityResolver(input, severityMappings)),
+  };
+};
+
+const byDate = (a: ScanPoint, b: ScanPoint) => a.scanDate.localeCompare(b.scanDate);
+
+/** Orders scans by date, oldest first, as the x axis of a trend chart. */
+export const sortScanPoints = <T extends ScanPoint>(scans: T[]): T[] => [...scans].sort(byDate);
+
+/**
+ * Builds one series per line of the chart. CWE series are limited to the CWEs with the most
+ * findings at any point, with the rest summed up as "Other CWEs".
+ */
+export const getTrendSeries = (scans: ScanPoint[], metric: TrendMetric, maxSeries = 8): TrendSeries[] => {
+  const sorted = sortScanPoints(scans);
+  if (metric === 'total') {
+    return [{ name: 'Total findings', values: sorted.map(({ snapshot }) => snapshot.total) }];
+  }
+  if (metric === 'severity') {
+    return SEVERITIES.map(severity => ({
+      name: severity,
+      values: sorted.map(({ snapshot }) => snapshot.bySeverity[severity] || 0),
+    }));
+  }
+
+  const peaks = new Map<string, number>();
+  sorted.forEach(({ snapshot }) => {
+    Object.entries(snapshot.byCWE).forEach(([cwe, count]) => peaks.set(cwe, Math.max(peaks.get(cwe) || 0, count)));
+  });
+  const ranked = [...peaks.entries()].sort(([cweA, a], [cweB, b]) => b - a || compareCWEs(cweA, cweB)).map(([cwe]) => cwe);
+  const shown = ranked.slice(0, maxSeries).sort(compareCWEs);
+  const rest = ranked.slice(maxSeries);
+
+  const series = shown.map(cwe => ({ name: cwe, values: sorted.map(({ snapshot }) => snapshot.byCWE[cwe] || 0) }));
+  if (rest.length > 0) {
+    series.push({
+      name: 'Other CWEs',
+      values: sorted.map(({ snapshot }) => rest.reduce((sum, cwe) => sum + (snapshot.byCWE[cwe] || 0), 0)),
+    });
+  }
+  return series;
+};
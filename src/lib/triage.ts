@@ -0,0 +1,148 @@
+import type { Result, SarifLog, Suppression } from '../types/sarif';
+import { getOriginalResult } from './paths';
+import type { SarifInput } from './runs';
+
+export type TriageState = 'falsePositive' | 'acceptedRisk' | 'fixed';
+
+export const TRIAGE_STATES: TriageState[] = ['falsePositive', 'acceptedRisk', 'fixed'];
+
+export const TRIAGE_LABELS: Record<TriageState, string> = {
+  falsePositive: 'False positive',
+  acceptedRisk: 'Accepted risk',
+  fixed: 'Fixed',
+};
+
+export interface TriageDecision {
+  state: TriageState;
+  justification: string;
+  /** ISO timestamp of the last change. */
+  updatedAt: string;
+}
+
+/** Decisions keyed by `getTriageKey`. */
+export type TriageDecisions = Record<string, TriageDecision>;
+
+export interface TriageFile {
+  version: 1;
+  decisions: TriageDecisions;
+}
+
+const formatFingerprints = (fingerprints: Record<string, string> = {}): string =>
+  Object.entries(fingerprints).sort(([a], [b]) => a.localeCompare(b)).map(([key, value]) => `${key}=${value}`).join(',');
+
+/**
+ * Stable key of a finding, so a decision carries over to later scans of the same code.
+ * Fingerprints are preferred; without them the rule, the artifact URI as written in the log
+ * (so path rules can change), the start of the region and the message are used.
+ */
+export const getTriageKey = (result: Result): string => {
+  const fingerprints = formatFingerprints(result.fingerprints);
+  if (fingerprints) return `${result.ruleId}|fp|${fingerprints}`;
+  const partialFingerprints = formatFingerprints(result.partialFingerprints);
+  if (partialFingerprints) return `${result.ruleId}|pfp|${partialFingerprints}`;
+  const physicalLocation = getOriginalResult(result).locations?.[0]?.physicalLocation;
+  const region = physicalLocation?.region;
+  const start = region ? `${region.startLine ?? ''}:${region.startColumn ?? ''}` : '';
+  return `${result.ruleId}|loc|${physicalLocation?.artifactLocation?.uri || ''}|${start}|${result.message?.text || ''}`;
+};
+
+/** Suppressions a result carries itself, e.g. from `// nosemgrep` comments or an earlier export. */
+const hasAcceptedSuppression = (result: Result): boolean =>
+  Boolean(result.suppressions?.some(({ status }) => status === undefined || status === 'accepted'));
+
+/** A result is suppressed when it has been triaged or its log already suppresses it. */
+export const isSuppressed = (result: Result, decisions: TriageDecisions): boolean =>
+  Boolean(decisions[getTriageKey(result)]) || hasAcceptedSuppression(result);
+
+export const countSuppressed = (inputs: SarifInput[], decisions: TriageDecisions): number =>
+  inputs.reduce((sum, input) =>
+    sum + Object.values(input.results).reduce((count, items) =>
+      count + items.filter(result => isSuppressed(result, decisions)).length, 0), 0);
+
+/** Drops suppressed results from every input; rules left without results are dropped. */
+export const excludeSuppressed = (inputs: SarifInput[], decisions: TriageDecisions): SarifInput[] =>
+  inputs.map(input => {
+    const results: Record<string, Result[]> = {};
+    Object.entries(input.results).forEach(([ruleId, items]) => {
+      const kept = items.filter(result => !isSuppressed(result, decisions));
+      if (kept.length > 0) {
+        results[ruleId] = kept;
+      }
+    });
+    return { ...input, results };
+  });
+
+/** Decisions on results of the inputs, e.g. to share them along with those inputs. */
+export const pickInputDecisions = (inputs: SarifInput[], decisions: TriageDecisions): TriageDecisions => {
+  const picked: TriageDecisions = {};
+  inputs.forEach(input => Object.values(input.results).flat().forEach(result => {
+    const key = getTriageKey(result);
+    if (decisions[key]) {
+      picked[key] = decisions[key];
+    }
+  }));
+  return picked;
+};
+
+export const countTriageStates = (decisions: TriageDecisions): Record<TriageState, number> =>
+  Object.values(decisions).reduce((acc, { state }) => {
+    acc[state]++;
+    return acc;
+  }, { falsePositive: 0, acceptedRisk: 0, fixed: 0 } as Record<TriageState, number>);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Reads exported decisions, throwing on anything that is not a triage file. */
+export const parseTriageFile = (data: unknown): TriageDecisions => {
+  if (!isObject(data) || !isObject(data.decisions)) {
+    throw new Error('A triage file must be an object with a "decisions" object');
+  }
+  const decisions: TriageDecisions = {};
+  Object.entries(data.decisions).forEach(([key, decision]) => {
+    if (!isObject(decision) || !TRIAGE_STATES.includes(decision.state as TriageState)) {
+      throw new Error(`Decision "${key}" must have a state of ${TRIAGE_STATES.join(', ')}`);
+    }
+    decisions[key] = {
+      state: decision.state as TriageState,
+      justification: typeof decision.justification === 'string' ? decision.justification : '',
+      updatedAt: typeof decision.updatedAt === 'string' ? decision.updatedAt : new Date(0).toISOString(),
+    };
+  });
+  return decisions;
+};
+
+export const createTriageFile = (decisions: TriageDecisions): TriageFile => ({ version: 1, decisions });
+
+/** Merges imported decisions; the more recent decision on a finding wins. */
+export const mergeTriageDecisions = (base: TriageDecisions, imported: TriageDecisions): TriageDecisions => {
+  const merged = { ...base };
+  Object.entries(imported).forEach(([key, decision]) => {
+    if (!merged[key] || merged[key].updatedAt < decision.updatedAt) {
+      merged[key] = decision;
+    }
+  });
+  return merged;
+};
+
+const toSuppression = ({ state, justification }: TriageDecision): Suppression => ({
+  kind: 'external',
+  status: 'accepted',
+  justification: justification ? `${TRIAGE_LABELS[state]}: ${justification}` : TRIAGE_LABELS[state],
+});
+
+/**
+ * Copies a log with a `result.suppressions` entry added for every result triaged as a false
+ * positive or accepted risk. SARIF has no suppression status for fixed findings, so those
+ * are left as they are.
+ */
+export const applyTriageToLog = (log: SarifLog, decisions: TriageDecisions): SarifLog => ({
+  ...log,
+  runs: log.runs.map(run => ({
+    ...run,
+    results: run.results?.map(result => {
+      const decision = decisions[getTriageKey(result)];
+      return decision && decision.state !== 'fixed' ? { ...result, suppressions: [...(result.suppressions || []), toSuppression(decision)] } : result;
+    }),
+  })),
+});
@@ -0,0 +1,418 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv-draft-04';
+import addFormats from 'ajv-formats';
+import type { CodeFlow, Location, Result, Rule, Run, SarifLog, ThreadFlowLocation } from '../types/sarif';
+import sarifSchema from './schemas/sarif-schema-2.1.0.json';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  /** JSON path of the offending value, e.g. `$.runs[0].results[3].message.text`. */
+  path: string;
+  message: string;
+  severity: ValidationSeverity;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  /** The log with lenient fixes applied; only set when there are no errors. */
+  log?: SarifLog;
+}
+
+export const SARIF_VERSION = '2.1.0';
+
+const LEVELS = ['none', 'note', 'warning', 'error'];
+const BASELINE_STATES = ['new', 'unchanged', 'updated', 'absent'];
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+let schemaValidator: ValidateFunction | undefined;
+
+// Compiled on first use, as compiling the schema takes a moment
+const getSchemaValidator = (): ValidateFunction => {
+  if (!schemaValidator) {
+    // The schema's `language` pattern has a stray `]` that is only valid without the unicode flag
+    const ajv = new Ajv({ allErrors: true, strict: false, unicodeRegExp: false });
+    addFormats(ajv);
+    schemaValidator = ajv.compile(sarifSchema);
+  }
+  return schemaValidator;
+};
+
+// JSON pointer of ajv, e.g. `/runs/0/results`, as a JSON path such as `$.runs[0].results`
+const toJsonPath = (pointer: string): string =>
+  '$' + pointer.split('/').slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map(segment => (/^\d+$/.test(segment)
+      ? `[${segment}]`
+      : /^[A-Za-z_$][\w$]*$/.test(segment) ? `.${segment}` : `[${JSON.stringify(segment)}]`))
+    .join('');
+
+const toSchemaIssue = ({ instancePath, keyword, params, message }: ErrorObject): { path: string; message: string } => {
+  const path = toJsonPath(instancePath);
+  switch (keyword) {
+    case 'required':
+      return { path: `${path}.${params.missingProperty}`, message: 'Required by the SARIF 2.1.0 schema but missing' };
+    case 'additionalProperties':
+      return { path: `${path}.${params.additionalProperty}`, message: 'Not a property the SARIF 2.1.0 schema allows here' };
+    case 'enum':
+      return { path, message: `Must be one of ${(params.allowedValues as unknown[]).map(String).join(', ')} by the SARIF 2.1.0 schema` };
+    default:
+      return { path, message: `Does not match the SARIF 2.1.0 schema: ${message}` };
+  }
+};
+
+// The path itself and every path that contains it, e.g. `$.runs[0].tool` and `$.runs[0]`
+const getEnclosingPaths = (path: string): string[] => {
+  const paths = [path];
+  for (let i = path.length - 1; i > 0; i--) {
+    if (path[i] === '.' || path[i] === '[') paths.push(path.slice(0, i));
+  }
+  return paths;
+};
+
+// Keywords about which properties an object needs, which a check of one of them already covers
+const OBJECT_KEYWORDS = ['required', 'anyOf', 'oneOf'];
+
+/**
+ * Validates a parsed JSON document against the bundled SARIF 2.1.0 schema, then checks the
+ * parts this app relies on. Problems that would break the app (missing `runs`,
+ * `tool.driver.name`, a non-array `results`) are errors; malformed optional parts are
+ * warnings and are repaired or dropped in the returned log so it can still be loaded
+ * leniently. Other schema violations are warnings, as the app does not depend on them.
+ */
+export const validateSarif = (data: unknown): ValidationReport => {
+  const issues: ValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ path, message, severity: 'error' });
+  const warning = (path: string, message: string) => issues.push({ path, message, severity: 'warning' });
+
+  const validateLocation = (location: unknown, path: string): Location | null => {
+    if (!isObject(location)) {
+      warning(path, 'Location must be an object; it was ignored');
+      return null;
+    }
+    const physicalLocation = location.physicalLocation;
+    if (physicalLocation === undefined) return location as Location;
+    if (!isObject(physicalLocation)) {
+      warning(`${path}.physicalLocation`, 'physicalLocation must be an object; it was ignored');
+      return { ...location, physicalLocation: undefined } as Location;
+    }
+
+    const artifactLocation = physicalLocation.artifactLocation;
+    if (artifactLocation !== undefined && (!isObject(artifactLocation) || typeof artifactLocation.uri !== 'string')) {
+      warning(`${path}.physicalLocation.artifactLocation.uri`, 'Artifact location should have a string uri');
+    }
+
+    let patchedLocation = location as Location;
+    (['region', 'contextRegion'] as const).forEach(key => {
+      const region = physicalLocation[key];
+      const regionPath = `${path}.physicalLocation.${key}`;
+      if (region === undefined) return;
+      if (!isObject(region)) {
+        warning(regionPath, `${key} must be an object; it was ignored`);
+        patchedLocation = {
+          ...patchedLocation,
+          physicalLocation: { ...patchedLocation.physicalLocation, [key]: undefined },
+        };
+        return;
+      }
+      // Lines are used for matching, so a region with an unusable start line is dropped
+      if (region.startLine !== undefined && !isPositiveInteger(region.startLine)) {
+        warning(`${regionPath}.startLine`, 'startLine must be an integer greater than or equal to 1; the region was ignored');
+        patchedLocation = {
+          ...patchedLocation,
+          physicalLocation: { ...patchedLocation.physicalLocation, [key]: undefined },
+        };
+        return;
+      }
+      const patchedRegion: JsonObject = { ...region };
+      if (region.endLine !== undefined && !isPositiveInteger(region.endLine)) {
+        warning(`${regionPath}.endLine`, 'endLine must be an integer greater than or equal to 1; it was ignored');
+        patchedRegion.endLine = undefined;
+      } else if (isPositiveInteger(region.startLine) && isPositiveInteger(region.endLine) && region.endLine < region.startLine) {
+        warning(`${regionPath}.endLine`, 'endLine is before startLine; it was ignored');
+        patchedRegion.endLine = undefined;
+      }
+      if (region.snippet !== undefined && (!isObject(region.snippet) || typeof region.snippet.text !== 'string')) {
+        warning(`${regionPath}.snippet`, 'Snippet must have a string text; it was ignored');
+        patchedRegion.snippet = undefined;
+      }
+      patchedLocation = {
+        ...patchedLocation,
+        physicalLocation: { ...patchedLocation.physicalLocation, [key]: patchedRegion },
+      };
+    });
+    return patchedLocation;
+  };
+
+  const validateCodeFlow = (codeFlow: unknown, path: string): CodeFlow | null => {
+    if (!isObject(codeFlow) || !Array.isArray(codeFlow.threadFlows)) {
+      warning(path, 'Code flow must be an object with a threadFlows array; it was ignored');
+      return null;
+    }
+    const threadFlows = codeFlow.threadFlows.flatMap((threadFlow, threadIndex) => {
+      const threadPath = `${path}.threadFlows[${threadIndex}]`;
+      if (!isObject(threadFlow) || !Array.isArray(threadFlow.locations)) {
+        warning(threadPath, 'Thread flow must be an object with a locations array; it was ignored');
+        return [];
+      }
+      const locations = threadFlow.locations.flatMap((step, stepIndex): ThreadFlowLocation[] => {
+        const stepPath = `${threadPath}.locations[${stepIndex}]`;
+        if (!isObject(step)) {
+          warning(stepPath, 'Thread flow location must be an object; it was ignored');
+          return [];
+        }
+        const patchedStep: JsonObject = { ...step };
+        if (step.nestingLevel !== undefined && !(Number.isInteger(step.nestingLevel) && (step.nestingLevel as number) >= 0)) {
+          warning(`${stepPath}.nestingLevel`, 'nestingLevel must be a non-negative integer; it was ignored');
+          patchedStep.nestingLevel = undefined;
+        }
+        if (step.location !== undefined) {
+          patchedStep.location = validateLocation(step.location, `${stepPath}.location`) ?? undefined;
+        }
+        return [patchedStep as ThreadFlowLocation];
+      });
+      return [{ ...threadFlow, locations }];
+    });
+    return { ...codeFlow, threadFlows } as CodeFlow;
+  };
+
+  const validateRule = (rule: unknown, path: string): Rule | null => {
+    if (!isObject(rule)) {
+      warning(path, 'Rule must be an object; it was ignored');
+      return null;
+    }
+    if (typeof rule.id !== 'string') {
+      warning(`${path}.id`, 'Rule is missing the required string id; it was ignored');
+      return null;
+    }
+    const patched: JsonObject = { ...rule };
+    const level = isObject(rule.defaultConfiguration) ? rule.defaultConfiguration.level : undefined;
+    if (level !== undefined && !LEVELS.includes(level as string)) {
+      warning(`${path}.defaultConfiguration.level`, `Level must be one of ${LEVELS.join(', ')}`);
+    }
+    const tags = isObject(rule.properties) ? rule.properties.tags : undefined;
+    if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+      warning(`${path}.properties.tags`, 'Tags must be an array of strings; they were ignored');
+      patched.properties = { ...(rule.properties as JsonObject), tags: [] };
+    }
+    if (rule.relationships !== undefined && (!Array.isArray(rule.relationships) || rule.relationships.some(r => !isObject(r) || !isObject(r.target)))) {
+      warning(`${path}.relationships`, 'relationships must be an array of objects with a target; they were ignored');
+      patched.relationships = undefined;
+    }
+    return patched as unknown as Rule;
+  };
+
+  // `rules` keeps the driver's positions, with null for dropped rules; `ruleIndexes` maps them to the kept rules
+  const validateResult = (
+    result: unknown,
+    path: string,
+    rules: Array<Rule | null>,
+    ruleIndexes: Array<number | undefined>
+  ): Result | null => {
+    if (!isObject(result)) {
+      error(path, 'Result must be an object');
+      return null;
+    }
+    const patched: JsonObject = { ...result };
+
+    if (!isObject(result.message)) {
+      warning(`${path}.message`, 'Result is missing the required message; an empty message was used');
+      patched.message = { text: '' };
+    } else if (typeof result.message.text !== 'string') {
+      warning(`${path}.message.text`, 'Message has no text; an empty message was used');
+      patched.message = { ...result.message, text: '' };
+    }
+
+    const ruleReference = isObject(result.rule) ? result.rule : undefined;
+    if (typeof result.ruleIndex === 'number') {
+      patched.ruleIndex = ruleIndexes[result.ruleIndex];
+    }
+    if (ruleReference && typeof ruleReference.index === 'number') {
+      patched.rule = { ...ruleReference, index: ruleIndexes[ruleReference.index] };
+    }
+    if (typeof result.ruleId !== 'string') {
+      const ruleId = typeof ruleReference?.id === 'string'
+        ? ruleReference.id
+        : typeof ruleReference?.index === 'number'
+          ? rules[ruleReference.index]?.id
+          : typeof result.ruleIndex === 'number' ? rules[result.ruleIndex]?.id : undefined;
+      if (ruleId) {
+        patched.ruleId = ruleId;
+      } else {
+        warning(`${path}.ruleId`, 'Result does not identify its rule; it was grouped under "unknown"');
+        patched.ruleId = 'unknown';
+      }
+    }
+
+    if (result.level !== undefined && !LEVELS.includes(result.level as string)) {
+      warning(`${path}.level`, `Level must be one of ${LEVELS.join(', ')}`);
+    }
+    if (result.rank !== undefined && (typeof result.rank !== 'number' || result.rank < -1 || result.rank > 100)) {
+      warning(`${path}.rank`, 'rank must be a number from -1 to 100; it was ignored');
+      patched.rank = undefined;
+    }
+    if (result.suppressions !== undefined && (!Array.isArray(result.suppressions) || result.suppressions.some(s => !isObject(s) || typeof s.kind !== 'string'))) {
+      warning(`${path}.suppressions`, 'suppressions must be an array of objects with a kind; they were ignored');
+      patched.suppressions = undefined;
+    }
+    if (result.baselineState !== undefined && !BASELINE_STATES.includes(result.baselineState as string)) {
+      warning(`${path}.baselineState`, `baselineState must be one of ${BASELINE_STATES.join(', ')}`);
+    }
+
+    if (result.locations !== undefined) {
+      if (!Array.isArray(result.locations)) {
+        warning(`${path}.locations`, 'locations must be an array; it was ignored');
+        patched.locations = undefined;
+      } else {
+        patched.locations = result.locations
+          .map((location, index) => validateLocation(location, `${path}.locations[${index}]`))
+          .filter((location): location is Location => location !== null);
+      }
+    }
+
+    if (result.relatedLocations !== undefined) {
+      if (!Array.isArray(result.relatedLocations)) {
+        warning(`${path}.relatedLocations`, 'relatedLocations must be an array; it was ignored');
+        patched.relatedLocations = undefined;
+      } else {
+        patched.relatedLocations = result.relatedLocations
+          .map((location, index) => validateLocation(location, `${path}.relatedLocations[${index}]`))
+          .filter((location): location is Location => location !== null);
+      }
+    }
+
+    if (result.codeFlows !== undefined) {
+      if (!Array.isArray(result.codeFlows)) {
+        warning(`${path}.codeFlows`, 'codeFlows must be an array; it was ignored');
+        patched.codeFlows = undefined;
+      } else {
+        patched.codeFlows = result.codeFlows
+          .map((codeFlow, index) => validateCodeFlow(codeFlow, `${path}.codeFlows[${index}]`))
+          .filter((codeFlow): codeFlow is CodeFlow => codeFlow !== null);
+      }
+    }
+
+    if (result.taxa !== undefined && (!Array.isArray(result.taxa) || result.taxa.some(taxon => !isObject(taxon)))) {
+      warning(`${path}.taxa`, 'taxa must be an array of objects; it was ignored');
+      patched.taxa = undefined;
+    }
+
+    (['fingerprints', 'partialFingerprints'] as const).forEach(key => {
+      const value = result[key];
+      if (value !== undefined && (!isObject(value) || Object.values(value).some(v => typeof v !== 'string'))) {
+        warning(`${path}.${key}`, `${key} must map names to strings; it was ignored`);
+        patched[key] = undefined;
+      }
+    });
+
+    return patched as unknown as Result;
+  };
+
+  const validateRun = (run: unknown, path: string): Run | null => {
+    if (!isObject(run)) {
+      error(path, 'Run must be an object');
+      return null;
+    }
+    if (!isObject(run.tool)) {
+      error(`${path}.tool`, 'Run is missing the required tool object');
+      return null;
+    }
+    const driver = run.tool.driver;
+    if (!isObject(driver)) {
+      error(`${path}.tool.driver`, 'Tool is missing the required driver object');
+      return null;
+    }
+    if (typeof driver.name !== 'string') {
+      error(`${path}.tool.driver.name`, 'Driver is missing the required string name');
+      return null;
+    }
+
+    let rules: Rule[] | undefined;
+    let rulesByIndex: Array<Rule | null> = [];
+    const ruleIndexes: Array<number | undefined> = [];
+    if (driver.rules !== undefined) {
+      if (!Array.isArray(driver.rules)) {
+        warning(`${path}.tool.driver.rules`, 'rules must be an array; it was ignored');
+      } else {
+        rulesByIndex = driver.rules.map((rule, index) => validateRule(rule, `${path}.tool.driver.rules[${index}]`));
+        const kept: Rule[] = [];
+        rulesByIndex.forEach(rule => {
+          ruleIndexes.push(rule ? kept.push(rule) - 1 : undefined);
+        });
+        rules = kept;
+      }
+    }
+
+    let taxonomies = run.taxonomies;
+    if (taxonomies !== undefined && (!Array.isArray(taxonomies) || taxonomies.some(taxonomy => !isObject(taxonomy)))) {
+      warning(`${path}.taxonomies`, 'taxonomies must be an array of objects; it was ignored');
+      taxonomies = undefined;
+    }
+
+    let results: Result[] = [];
+    if (run.results === undefined || run.results === null) {
+      warning(`${path}.results`, 'Run has no results array; it was treated as empty');
+    } else if (!Array.isArray(run.results)) {
+      error(`${path}.results`, 'results must be an array');
+      return null;
+    } else {
+      results = run.results
+        .map((result, index) => validateResult(result, `${path}.results[${index}]`, rulesByIndex, ruleIndexes))
+        .filter((result): result is Result => result !== null);
+    }
+
+    return {
+      ...run,
+      tool: { ...run.tool, driver: { ...driver, name: driver.name, rules } },
+      results,
+      taxonomies,
+    } as Run;
+  };
+
+  if (!isObject(data)) {
+    error('$', 'A SARIF log must be a JSON object');
+    return { issues };
+  }
+  const validateSchema = getSchemaValidator();
+  const schemaErrors = validateSchema(data) ? [] : validateSchema.errors ?? [];
+  if (data.version !== SARIF_VERSION) {
+    error('$.version', `Expected version "${SARIF_VERSION}", found ${JSON.stringify(data.version)}`);
+  }
+  if (!Array.isArray(data.runs)) {
+    error('$.runs', 'A SARIF log must contain a runs array');
+    return { issues };
+  }
+  if (data.runs.length === 0) {
+    warning('$.runs', 'The log contains no runs');
+  }
+
+  const runs = data.runs
+    .map((run, index) => validateRun(run, `$.runs[${index}]`))
+    .filter((run): run is Run => run !== null);
+
+  // Schema violations the checks above already reported, repaired or dropped are not listed twice
+  const reported = new Set(issues.map(issue => issue.path));
+  const reportedObjects = new Set(issues.map(issue => getEnclosingPaths(issue.path)[1]));
+  const schemaIssues = new Map<string, ValidationIssue>();
+  schemaErrors.forEach(schemaError => {
+    const { path, message } = toSchemaIssue(schemaError);
+    const isCovered = getEnclosingPaths(path).some(parent => reported.has(parent)) ||
+      (OBJECT_KEYWORDS.includes(schemaError.keyword) && reportedObjects.has(toJsonPath(schemaError.instancePath)));
+    if (!isCovered && !schemaIssues.has(`${path}|${message}`)) {
+      schemaIssues.set(`${path}|${message}`, { path, message, severity: 'warning' });
+    }
+  });
+  issues.push(...schemaIssues.values());
+
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+  return {
+    issues,
+    log: hasErrors ? undefined : { ...data, version: SARIF_VERSION, runs } as SarifLog,
+  };
+};
@@ -1,4 +1,5 @@
 export interface SarifLog {
+  $schema?: string;
   version: string;
   runs: Run[];
 }
@@ -9,43 +10,168 @@ export interface Run {
       name: string;
       rules?: Rule[];
     };
+    /** Further tool components, e.g. the tools whose results a merged run carries. */
+    extensions?: Array<{
+      name: string;
+      rules?: Rule[];
+    }>;
   };
   results: Result[];
+  taxonomies?: Taxonomy[];
+  /** Base URIs that `artifactLocation.uriBaseId` refers to, e.g. `%SRCROOT%`. */
+  originalUriBaseIds?: Record<string, Partial<ArtifactLocation>>;
+  /** Files the run refers to; `artifactLocation.index` points into this list. */
+  artifacts?: Artifact[];
 }
 
-export interface Rule {
+export interface Artifact {
+  location?: ArtifactLocation;
+}
+
+/** A `toolComponent` describing a taxonomy such as CWE. */
+export interface Taxonomy {
+  name: string;
+  guid?: string;
+  taxa?: Taxon[];
+}
+
+export interface Taxon {
   id: string;
   name?: string;
   shortDescription?: {
     text: string;
   };
+}
+
+export interface ReportingDescriptorReference {
+  id?: string;
+  index?: number;
+  guid?: string;
+  toolComponent?: {
+    name?: string;
+    index?: number;
+    guid?: string;
+  };
+}
+
+export interface RuleRelationship {
+  target: ReportingDescriptorReference;
+  kinds?: string[];
+}
+
+/** A `multiformatMessageString`: plain text, optionally also as Markdown. */
+export interface MultiformatMessage {
+  text: string;
+  markdown?: string;
+}
+
+export interface Rule {
+  id: string;
+  name?: string;
+  shortDescription?: MultiformatMessage;
+  fullDescription?: MultiformatMessage;
+  help?: MultiformatMessage;
+  helpUri?: string;
+  /** Message templates referred to by `result.message.id`, with `{0}`-style placeholders. */
+  messageStrings?: Record<string, MultiformatMessage>;
   defaultConfiguration?: {
     level?: string;
+    rank?: number;
   };
   properties?: {
     tags?: string[];
+    /** CVSS-style score from 0 to 10 as a string, used by CodeQL and GitHub code scanning. */
+    'security-severity'?: string;
+    precision?: string;
+    'problem.severity'?: string;
   };
+  relationships?: RuleRelationship[];
 }
 
 export interface Result {
   ruleId: string;
+  ruleIndex?: number;
+  rule?: ReportingDescriptorReference;
+  guid?: string;
+  /** Shared by results of different runs that describe the same finding. */
+  correlationGuid?: string;
   message: {
     text: string;
   };
   locations?: Location[];
   level?: string;
+  rank?: number;
+  fingerprints?: Record<string, string>;
+  partialFingerprints?: Record<string, string>;
+  baselineState?: BaselineState;
+  codeFlows?: CodeFlow[];
+  relatedLocations?: Location[];
+  taxa?: ReportingDescriptorReference[];
+  properties?: {
+    'security-severity'?: string;
+    /** Labels of the compared inputs that reported the finding, set by a merged export. */
+    reportedBy?: string[];
+    /** Rules of the other inputs that reported the finding, set by a deduplicated export. */
+    matchedRules?: string[];
+  };
+  suppressions?: Suppression[];
+}
+
+export interface Suppression {
+  kind: 'inSource' | 'external';
+  status?: 'accepted' | 'underReview' | 'rejected';
+  justification?: string;
 }
 
+export type BaselineState = 'new' | 'unchanged' | 'updated' | 'absent';
+
 export interface Location {
+  id?: number;
+  message?: {
+    text: string;
+  };
   physicalLocation?: {
-    artifactLocation?: {
-      uri: string;
-    };
-    region?: {
-      startLine: number;
-      startColumn?: number;
-      endLine?: number;
-      endColumn?: number;
-    };
+    artifactLocation?: ArtifactLocation;
+    region?: Region;
+    contextRegion?: Region;
+  };
+}
+
+export interface ArtifactLocation {
+  uri: string;
+  uriBaseId?: string;
+  index?: number;
+}
+
+export interface Region {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+  snippet?: {
+    text: string;
+  };
+}
+
+export interface CodeFlow {
+  message?: {
+    text: string;
   };
+  threadFlows: ThreadFlow[];
+}
+
+export interface ThreadFlow {
+  id?: string;
+  message?: {
+    text: string;
+  };
+  locations: ThreadFlowLocation[];
+}
+
+export interface ThreadFlowLocation {
+  location?: Location;
+  nestingLevel?: number;
+  executionOrder?: number;
+  kinds?: string[];
+  importance?: 'important' | 'essential' | 'unimportant';
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { filterFromSearchParams, filterToSearchParams, type ResultFilter } from '../lib/filters';
+
+export const readFilterFromUrl = (): ResultFilter =>
+  filterFromSearchParams(new URLSearchParams(window.location.search));
+
+/** Replaces the filter parameters of the current URL, keeping any others, without adding history entries. */
+export const writeFilterToUrl = (filter: ResultFilter) => {
+  const search = filterToSearchParams(filter, new URLSearchParams(window.location.search)).toString();
+  const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+  if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+};
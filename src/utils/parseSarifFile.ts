@@ -0,0 +1,54 @@
+import type { RunIndex } from '../lib/indexing';
+import type { ValidationReport } from '../lib/validation';
+import type { ParseProgress, ParseResponse } from '../workers/sarifWorker';
+
+export type { ParseProgress };
+
+export interface ParsedSarif {
+  report: ValidationReport;
+  indexes: RunIndex[];
+}
+
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing was cancelled');
+    this.name = 'ParseCancelledError';
+  }
+}
+
+/**
+ * Parses, validates and indexes a SARIF file in a Web Worker so large logs don't block
+ * the UI. `cancel` stops the worker immediately and rejects the promise.
+ */
+export const parseSarifFile = (file: File, onProgress: (progress: ParseProgress) => void) => {
+  const worker = new Worker(new URL('../workers/sarifWorker.ts', import.meta.url), { type: 'module' });
+  let rejectPromise: (error: Error) => void = () => {};
+
+  const promise = new Promise<ParsedSarif>((resolve, reject) => {
+    rejectPromise = reject;
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message);
+      } else if (message.type === 'done') {
+        worker.terminate();
+        resolve({ report: message.report, indexes: message.indexes });
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The parser worker failed'));
+    };
+    worker.postMessage({ file });
+  });
+
+  const cancel = () => {
+    worker.terminate();
+    rejectPromise(new ParseCancelledError());
+  };
+
+  return { promise, cancel };
+};
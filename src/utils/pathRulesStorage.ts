@@ -0,0 +1,44 @@
+import { parsePathRules, type PathRulesByFile } from '../lib/paths';
+
+const RULES_KEY = 'sarif-compare:path-rules';
+const PROJECT_KEY = 'sarif-compare:path-project';
+
+// Rules of every project, keyed by project name
+const loadAllPathRules = (): Record<string, PathRulesByFile> => {
+  try {
+    const stored = localStorage.getItem(RULES_KEY);
+    const data = stored ? JSON.parse(stored) : {};
+    return Object.fromEntries(Object.entries(data).map(([project, rules]) => [project, parsePathRules(rules)]));
+  } catch {
+    // Start over when storage is unavailable or holds something unreadable
+    return {};
+  }
+};
+
+export const listPathRuleProjects = (): string[] => Object.keys(loadAllPathRules()).sort();
+
+export const loadPathRules = (project: string): PathRulesByFile => loadAllPathRules()[project] ?? {};
+
+export const savePathRules = (project: string, rules: PathRulesByFile) => {
+  try {
+    localStorage.setItem(RULES_KEY, JSON.stringify({ ...loadAllPathRules(), [project]: rules }));
+  } catch {
+    // Storage may be full or disabled; the rules still apply to this session
+  }
+};
+
+export const loadPathProject = (): string => {
+  try {
+    return localStorage.getItem(PROJECT_KEY) || 'default';
+  } catch {
+    return 'default';
+  }
+};
+
+export const savePathProject = (project: string) => {
+  try {
+    localStorage.setItem(PROJECT_KEY, project);
+  } catch {
+    // The project only needs to be remembered across sessions
+  }
+};
@@ -0,0 +1,21 @@
+import { EMPTY_RULE_MAPPING, parseRuleMapping, type RuleMapping } from '../lib/ruleMapping';
+
+const STORAGE_KEY = 'sarif-compare:rule-mapping';
+
+export const loadRuleMapping = (): RuleMapping => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseRuleMapping(JSON.parse(stored)) : EMPTY_RULE_MAPPING;
+  } catch {
+    // Start over when storage is unavailable or holds something unreadable
+    return EMPTY_RULE_MAPPING;
+  }
+};
+
+export const saveRuleMapping = (mapping: RuleMapping) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mapping));
+  } catch {
+    // Storage may be full or disabled; the mapping still applies to this session
+  }
+};
@@ -0,0 +1,88 @@
+import type { SarifLog } from '../types/sarif';
+import type { ScanPoint } from '../lib/trends';
+
+/** A scan kept in the history; the log itself is stored separately and loaded on demand. */
+export interface StoredScan extends ScanPoint {
+  id: number;
+  project: string;
+  fileName: string;
+  savedAt: string;
+}
+
+export type NewScan = Omit<StoredScan, 'id' | 'savedAt'>;
+
+const DB_NAME = 'sarif-compare';
+const DB_VERSION = 1;
+const SCANS = 'scans';
+const LOGS = 'logs';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const scans = db.createObjectStore(SCANS, { keyPath: 'id', autoIncrement: true });
+      scans.createIndex('project', 'project');
+      db.createObjectStore(LOGS);
+    };
+    database = promisify(request);
+    // Allow a later call to retry, e.g. after the user re-enables storage
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+export const supportsScanHistory = (): boolean => typeof indexedDB !== 'undefined';
+
+export const saveScan = async (scan: NewScan, log: SarifLog): Promise<StoredScan> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SCANS, LOGS], 'readwrite');
+  const record = { ...scan, savedAt: new Date().toISOString() };
+  const id = await promisify(transaction.objectStore(SCANS).add(record)) as number;
+  transaction.objectStore(LOGS).put(log, id);
+  await transactionDone(transaction);
+  return { ...record, id };
+};
+
+export const listScans = async (project?: string): Promise<StoredScan[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(SCANS).objectStore(SCANS);
+  return promisify(project === undefined ? store.getAll() : store.index('project').getAll(project));
+};
+
+export const listProjects = async (): Promise<string[]> =>
+  [...new Set((await listScans()).map(scan => scan.project))].sort();
+
+export const loadScanLog = async (id: number): Promise<SarifLog> => {
+  const db = await openDatabase();
+  const log = await promisify(db.transaction(LOGS).objectStore(LOGS).get(id)) as SarifLog | undefined;
+  if (!log) {
+    throw new Error(`Scan ${id} is no longer in the history`);
+  }
+  return log;
+};
+
+export const deleteScan = async (id: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SCANS, LOGS], 'readwrite');
+  transaction.objectStore(SCANS).delete(id);
+  transaction.objectStore(LOGS).delete(id);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,217 @@
+import type { SarifLog } from '../types/sarif';
+import { EMPTY_FILTER, type ResultFilter } from '../lib/filters';
+import { parseGroundTruth, type ExpectedResult } from '../lib/groundTruth';
+import { DEFAULT_GROUPING, GROUPING_LABELS, type GroupingMode, type GroupingOptions, type RollUp } from '../lib/grouping';
+import { DEFAULT_MATCH_OPTIONS } from '../lib/matching';
+import { parsePathRules, type PathRulesByFile } from '../lib/paths';
+import { EMPTY_RULE_MAPPING, parseRuleMapping, type RuleMapping } from '../lib/ruleMapping';
+import type { RunMode } from '../lib/runs';
+import { parseSeverityMappings, SEVERITIES, type NormalizedSeverity, type SeverityMappings } from '../lib/severity';
+import { parseTriageFile, type TriageDecisions } from '../lib/triage';
+import { validateSarif } from '../lib/validation';
+
+export const SESSION_EXTENSION = '.sarifcompare.json';
+
+/** Views of two or more files. */
+export type AnalysisMode = 'comparison' | 'catalog' | 'baseline';
+
+const ANALYSIS_MODES: AnalysisMode[] = ['comparison', 'catalog', 'baseline'];
+
+/** Tabs of the single-file results view. */
+export type ResultsTab = 'summary' | 'cwe' | 'details';
+
+export const RESULTS_TABS: ResultsTab[] = ['summary', 'cwe', 'details'];
+
+/** Expected results the tools are scored against, with the name of the file they came from. */
+export interface LoadedGroundTruth {
+  fileName: string;
+  expected: ExpectedResult[];
+}
+
+/** Settings of the tool comparison view. */
+export interface ComparisonSettings {
+  /** The rule mapping of the session applies to the `mappedRule` grouping. */
+  grouping: Omit<GroupingOptions, 'ruleMapping'>;
+  lineTolerance: number;
+  minSeverity: NormalizedSeverity;
+  groundTruth: LoadedGroundTruth | null;
+}
+
+export const DEFAULT_COMPARISON_SETTINGS: ComparisonSettings = {
+  grouping: DEFAULT_GROUPING,
+  lineTolerance: DEFAULT_MATCH_OPTIONS.lineTolerance,
+  minSeverity: 'info',
+  groundTruth: null,
+};
+
+const SESSION_FORMAT = 'sarif-compare-session';
+
+/** A loaded SARIF log, as JSON or as base64 of its gzipped JSON. */
+export type SessionSarif =
+  | { fileName: string; log: SarifLog }
+  | { fileName: string; encoding: 'gzip+base64'; data: string };
+
+/** Everything needed to show a comparison again as it was. */
+export interface SessionState {
+  mode: AnalysisMode;
+  runMode: RunMode;
+  resultsTab: ResultsTab;
+  /** Keys of the expanded CWE (or other group) rows. */
+  expandedCWEs: string[];
+  filter: ResultFilter;
+  comparison: ComparisonSettings;
+  hideSuppressed: boolean;
+  severityMappings: SeverityMappings;
+  ruleMapping: RuleMapping;
+  pathProject: string;
+  pathRules: PathRulesByFile;
+  /** Decisions on findings of the session's files only. */
+  triage: TriageDecisions;
+}
+
+export interface SessionFile {
+  format: typeof SESSION_FORMAT;
+  version: 1;
+  createdAt: string;
+  /** Logs in comparison order; the first is the baseline of every delta. */
+  files: SessionSarif[];
+  state: SessionState;
+}
+
+export interface Session {
+  files: Array<{ fileName: string; log: SarifLog }>;
+  state: SessionState;
+}
+
+export const isSessionFileName = (fileName: string): boolean =>
+  fileName.toLowerCase().endsWith(SESSION_EXTENSION);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Converted in chunks, as spreading a large array into fromCharCode overflows the stack
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string): Uint8Array => Uint8Array.from(atob(data), char => char.charCodeAt(0));
+
+const encodeSarif = async (fileName: string, log: SarifLog, compress: boolean): Promise<SessionSarif> => {
+  if (!compress) return { fileName, log };
+  const gzipped = await transform(new TextEncoder().encode(JSON.stringify(log)), new CompressionStream('gzip'));
+  return { fileName, encoding: 'gzip+base64', data: toBase64(gzipped) };
+};
+
+const decodeSarif = async (file: unknown, index: number): Promise<{ fileName: string; log: SarifLog }> => {
+  if (!isObject(file) || typeof file.fileName !== 'string') {
+    throw new Error(`File ${index + 1} of the session has no file name`);
+  }
+  let data: unknown = file.log;
+  if (file.encoding === 'gzip+base64' && typeof file.data === 'string') {
+    const json = await transform(fromBase64(file.data), new DecompressionStream('gzip'));
+    data = JSON.parse(new TextDecoder().decode(json));
+  }
+  const { log } = validateSarif(data);
+  if (!log) {
+    throw new Error(`${file.fileName} in the session is not a valid SARIF 2.1.0 log`);
+  }
+  return { fileName: file.fileName, log };
+};
+
+/** Serializes the loaded logs and view state, optionally gzipping each log. */
+export const createSessionFile = async (
+  files: Array<{ fileName: string; log: SarifLog }>,
+  state: SessionState,
+  compress: boolean
+): Promise<SessionFile> => ({
+  format: SESSION_FORMAT,
+  version: 1,
+  createdAt: new Date().toISOString(),
+  files: await Promise.all(files.map(({ fileName, log }) => encodeSarif(fileName, log, compress))),
+  state,
+});
+
+const readFilter = (data: unknown): ResultFilter => {
+  const filter = { ...EMPTY_FILTER };
+  if (!isObject(data)) return filter;
+  if (typeof data.text === 'string') filter.text = data.text;
+  (['ruleIds', 'cwes', 'tags', 'include', 'exclude'] as const).forEach(key => {
+    const values = data[key];
+    if (Array.isArray(values)) filter[key] = values.filter((value): value is string => typeof value === 'string');
+  });
+  if (Array.isArray(data.severities)) {
+    filter.severities = data.severities.filter(value => SEVERITIES.includes(value as NormalizedSeverity));
+  }
+  return filter;
+};
+
+const readRollUp = (data: unknown): RollUp => {
+  if (isObject(data) && data.kind === 'depth' && Number.isInteger(data.depth) && (data.depth as number) >= 0) {
+    return { kind: 'depth', depth: data.depth as number };
+  }
+  if (isObject(data) && data.kind === 'category' && typeof data.cwe === 'string') {
+    return { kind: 'category', cwe: data.cwe };
+  }
+  return { kind: 'none' };
+};
+
+const readComparisonSettings = (data: unknown): ComparisonSettings => {
+  if (!isObject(data)) return DEFAULT_COMPARISON_SETTINGS;
+  const grouping = isObject(data.grouping) ? data.grouping : {};
+  const groundTruth = isObject(data.groundTruth) ? data.groundTruth : null;
+  return {
+    grouping: {
+      mode: Object.keys(GROUPING_LABELS).includes(grouping.mode as string)
+        ? grouping.mode as GroupingMode
+        : DEFAULT_GROUPING.mode,
+      rollUp: readRollUp(grouping.rollUp),
+    },
+    lineTolerance: Number.isInteger(data.lineTolerance) && (data.lineTolerance as number) >= 0
+      ? data.lineTolerance as number
+      : DEFAULT_COMPARISON_SETTINGS.lineTolerance,
+    minSeverity: SEVERITIES.includes(data.minSeverity as NormalizedSeverity)
+      ? data.minSeverity as NormalizedSeverity
+      : DEFAULT_COMPARISON_SETTINGS.minSeverity,
+    groundTruth: groundTruth && typeof groundTruth.fileName === 'string'
+      ? { fileName: groundTruth.fileName, expected: parseGroundTruth(JSON.stringify(groundTruth.expected ?? null), '.json') }
+      : null,
+  };
+};
+
+/** Reads a session file, throwing when it is not one. Missing view state falls back to defaults. */
+export const readSessionFile = async (file: Blob): Promise<Session> => {
+  const data: unknown = JSON.parse(await file.text());
+  if (!isObject(data) || data.format !== SESSION_FORMAT || !Array.isArray(data.files)) {
+    throw new Error('Not a SARIF Compare session file');
+  }
+  if (data.version !== 1) {
+    throw new Error(`Unsupported session version ${String(data.version)}`);
+  }
+  const state = isObject(data.state) ? data.state : {};
+  return {
+    files: await Promise.all(data.files.map(decodeSarif)),
+    state: {
+      mode: ANALYSIS_MODES.includes(state.mode as AnalysisMode) ? state.mode as AnalysisMode : 'comparison',
+      runMode: state.runMode === 'merged' ? 'merged' : 'separate',
+      resultsTab: RESULTS_TABS.includes(state.resultsTab as ResultsTab) ? state.resultsTab as ResultsTab : 'summary',
+      expandedCWEs: Array.isArray(state.expandedCWEs)
+        ? state.expandedCWEs.filter((key): key is string => typeof key === 'string')
+        : [],
+      filter: readFilter(state.filter),
+      comparison: readComparisonSettings(state.comparison),
+      hideSuppressed: state.hideSuppressed === true,
+      severityMappings: state.severityMappings ? parseSeverityMappings(state.severityMappings) : {},
+      ruleMapping: state.ruleMapping ? parseRuleMapping(state.ruleMapping) : EMPTY_RULE_MAPPING,
+      pathProject: typeof state.pathProject === 'string' && state.pathProject ? state.pathProject : 'default',
+      pathRules: parsePathRules(state.pathRules ?? {}),
+      triage: isObject(state.triage) ? parseTriageFile({ decisions: state.triage }) : {},
+    },
+  };
+};
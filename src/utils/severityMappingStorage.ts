@@ -0,0 +1,21 @@
+import { parseSeverityMappings, type SeverityMappings } from '../lib/severity';
+
+const STORAGE_KEY = 'sarif-compare:severity-mappings';
+
+export const loadSeverityMappings = (): SeverityMappings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseSeverityMappings(JSON.parse(stored)) : {};
+  } catch {
+    // Start over when storage is unavailable or holds something unreadable
+    return {};
+  }
+};
+
+export const saveSeverityMappings = (mappings: SeverityMappings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+  } catch {
+    // Storage may be full or disabled; the mappings still apply to this session
+  }
+};
@@ -0,0 +1,98 @@
+import { normalizeUri, sameArtifact } from '../lib/matching';
+
+export interface SourceFolder {
+  name: string;
+  fileCount: number;
+  /** Resolves a result URI to a file in the folder and returns its text, or null when missing. */
+  readFile: (uri: string) => Promise<string | null>;
+}
+
+// Minimal File System Access API surface; not part of the DOM typings we compile against
+interface FileHandle {
+  kind: 'file';
+  name: string;
+  getFile: () => Promise<File>;
+}
+
+interface DirectoryHandle {
+  kind: 'directory';
+  name: string;
+  values: () => AsyncIterable<FileHandle | DirectoryHandle>;
+}
+
+type DirectoryPicker = (options?: { mode?: 'read' }) => Promise<DirectoryHandle>;
+
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+const getFileName = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+const createSourceFolder = (name: string, files: Map<string, () => Promise<File>>): SourceFolder => {
+  const pathsByFileName = new Map<string, string[]>();
+  files.forEach((_, path) => {
+    const fileName = getFileName(path);
+    pathsByFileName.set(fileName, [...(pathsByFileName.get(fileName) || []), path]);
+  });
+  const cache = new Map<string, Promise<string | null>>();
+
+  const resolvePath = (uri: string): string | undefined => {
+    const normalized = normalizeUri(uri);
+    const candidates = pathsByFileName.get(getFileName(normalized)) || [];
+    return candidates.find(path => path === normalized) ?? candidates.find(path => sameArtifact(path, normalized));
+  };
+
+  return {
+    name,
+    fileCount: files.size,
+    readFile: (uri: string) => {
+      const path = resolvePath(uri);
+      if (!path) return Promise.resolve(null);
+      if (!cache.has(path)) {
+        cache.set(path, files.get(path)!().then(file => file.text()).catch(() => null));
+      }
+      return cache.get(path)!;
+    },
+  };
+};
+
+export const supportsDirectoryPicker = (): boolean => 'showDirectoryPicker' in window;
+
+/** Lets the user pick a folder with the File System Access API. Returns null when cancelled. */
+export const pickSourceDirectory = async (): Promise<SourceFolder | null> => {
+  const showDirectoryPicker = (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker;
+  let root: DirectoryHandle;
+  try {
+    root = await showDirectoryPicker({ mode: 'read' });
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') return null;
+    throw error;
+  }
+
+  const files = new Map<string, () => Promise<File>>();
+  const walk = async (directory: DirectoryHandle, prefix: string) => {
+    for await (const handle of directory.values()) {
+      if (handle.kind === 'directory') {
+        if (!SKIPPED_DIRECTORIES.has(handle.name)) {
+          await walk(handle, `${prefix}${handle.name}/`);
+        }
+      } else {
+        files.set(`${prefix}${handle.name}`, () => handle.getFile());
+      }
+    }
+  };
+  await walk(root, '');
+  return createSourceFolder(root.name, files);
+};
+
+/** Builds a source folder from an `<input webkitdirectory>` upload. */
+export const sourceFolderFromFiles = (fileList: FileList): SourceFolder | null => {
+  const files = new Map<string, () => Promise<File>>();
+  let name = '';
+  Array.from(fileList).forEach(file => {
+    // webkitRelativePath starts with the picked folder's own name
+    const [rootName, ...segments] = (file.webkitRelativePath || file.name).split('/');
+    name ||= rootName;
+    if (segments.some(segment => SKIPPED_DIRECTORIES.has(segment))) return;
+    files.set(segments.join('/') || rootName, () => Promise.resolve(file));
+  });
+  return files.size > 0 ? createSourceFolder(name, files) : null;
+};
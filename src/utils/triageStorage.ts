@@ -0,0 +1,21 @@
+import { parseTriageFile, type TriageDecisions } from '../lib/triage';
+
+const STORAGE_KEY = 'sarif-compare:triage';
+
+export const loadTriageDecisions = (): TriageDecisions => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseTriageFile(JSON.parse(stored)) : {};
+  } catch {
+    // Start over when storage is unavailable or holds something unreadable
+    return {};
+  }
+};
+
+export const saveTriageDecisions = (decisions: TriageDecisions) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, decisions }));
+  } catch {
+    // Storage may be full or disabled; the decisions still apply to this session
+  }
+};
@@ -0,0 +1,69 @@
+import { indexSarifLog, type RunIndex } from '../lib/indexing';
+import { createSarifStreamParser } from '../lib/streamingParser';
+import { validateSarif, type ValidationReport } from '../lib/validation';
+
+export interface ParseRequest {
+  file: File;
+}
+
+export interface ParseProgress {
+  loaded: number;
+  total: number;
+  resultCount: number;
+  /** Rules with the most results parsed so far. */
+  topRules: Array<[string, number]>;
+}
+
+export type ParseResponse =
+  | ({ type: 'progress' } & ParseProgress)
+  | { type: 'done'; report: ValidationReport; indexes: RunIndex[] }
+  | { type: 'error'; message: string };
+
+const PROGRESS_INTERVAL_MS = 100;
+const TOP_RULE_COUNT = 5;
+
+const post = (message: ParseResponse) => self.postMessage(message);
+
+const parse = async (file: File) => {
+  const ruleCounts = new Map<string, number>();
+  let resultCount = 0;
+  let loaded = 0;
+  let lastProgress = 0;
+
+  const reportProgress = (force = false) => {
+    const now = Date.now();
+    if (!force && now - lastProgress < PROGRESS_INTERVAL_MS) return;
+    lastProgress = now;
+    const topRules = [...ruleCounts.entries()].sort((a, b) => b[1] - a[1]).slice(0, TOP_RULE_COUNT);
+    post({ type: 'progress', loaded, total: file.size, resultCount, topRules });
+  };
+
+  const parser = createSarifStreamParser((_, results) => {
+    resultCount += results.length;
+    results.forEach(({ ruleId }) => {
+      const key = String(ruleId);
+      ruleCounts.set(key, (ruleCounts.get(key) || 0) + 1);
+    });
+  });
+
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    parser.write(decoder.decode(value, { stream: true }));
+    reportProgress();
+  }
+  parser.write(decoder.decode());
+  reportProgress(true);
+
+  const report = validateSarif(parser.end());
+  post({ type: 'done', report, indexes: report.log ? indexSarifLog(report.log) : [] });
+};
+
+self.onmessage = (event: MessageEvent<ParseRequest>) => {
+  parse(event.data.file).catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+};
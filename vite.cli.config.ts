@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite';
+
+// Builds the headless engine and the sarif-compare CLI for Node
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist/node',
+    emptyOutDir: true,
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        index: 'src/lib/index.ts',
+        'sarif-compare': 'src/cli/sarif-compare.ts',
+      },
+      output: {
+        banner: (chunk) => (chunk.name === 'sarif-compare' ? '#!/usr/bin/env node' : ''),
+      },
+    },
+  },
+});